@@ -1,6 +1,7 @@
 #!/usr/bin/env bash
 #
-# Build locally and ship dist/ to a DigitalOcean droplet over rsync.
+# Build locally and ship dist/ plus the inventory API bundle to a DigitalOcean
+# droplet over rsync.
 #
 #   DROPLET=root@203.0.113.10 ./deploy/deploy.sh
 #
@@ -37,16 +38,31 @@ if [[ -e /etc/nginx/sites-enabled/default ]]; then
   echo "   Run: DROPLET=$DROPLET ./deploy/setup.sh" >&2
   exit 1
 fi
-echo "✓ nginx ready"
+if [[ ! -s /etc/nginx/components-inventory.htpasswd ]]; then
+  echo "❌ The site has no password, and the inventory API would take writes from anyone." >&2
+  echo "   Run: DROPLET=$DROPLET INVENTORY_PASSWORD=... ./deploy/setup.sh" >&2
+  exit 1
+fi
+if ! systemctl cat $SITE_NAME-api >/dev/null 2>&1; then
+  echo "❌ The inventory API service is not installed. Run: DROPLET=$DROPLET ./deploy/setup.sh" >&2
+  exit 1
+fi
+echo "✓ nginx and inventory API service ready"
 EOF
 
 echo "==> Building for base $BASE_PATH"
 BASE_PATH="$BASE_PATH" npm run build
+npm run build:server
 
 echo "==> Syncing dist/ to $DROPLET:$REMOTE_ROOT"
 # --delete removes stale content-hashed assets from previous deploys.
 rsync -az --delete dist/ "$DROPLET:$REMOTE_ROOT/"
 
+echo "==> Syncing inventory API"
+rsync -az dist-server/inventory-api.mjs "$DROPLET:/opt/$SITE_NAME/"
+scp -q deploy/inventory-api.service "$DROPLET:/etc/systemd/system/$SITE_NAME-api.service"
+ssh "$DROPLET" "systemctl daemon-reload && systemctl restart $SITE_NAME-api"
+
 echo "==> Syncing nginx config"
 scp -q deploy/nginx.conf "$DROPLET:/etc/nginx/sites-available/$SITE_NAME"
 ssh "$DROPLET" 'nginx -t && systemctl reload nginx'
@@ -57,6 +73,13 @@ set -euo pipefail
 code=\$(curl -s -o /dev/null -w '%{http_code}' "http://localhost${BASE_PATH}")
 echo "  GET ${BASE_PATH} -> \$code"
 [[ "\$code" == "200" ]] || { echo "❌ Expected 200. Check /var/log/nginx/${SITE_NAME}.error.log" >&2; exit 1; }
+code=\$(curl -s -o /dev/null -w '%{http_code}' "http://localhost${BASE_PATH}api/inventory")
+echo "  GET ${BASE_PATH}api/inventory -> \$code"
+[[ "\$code" == "200" ]] || { echo "❌ Expected 200. Check: journalctl -u ${SITE_NAME}-api" >&2; exit 1; }
 EOF
+# From here, not the droplet: loopback skips the password.
+code=$(curl -s -o /dev/null -w '%{http_code}' "http://${DROPLET#*@}${BASE_PATH}api/inventory")
+echo "  GET ${BASE_PATH}api/inventory without a password -> $code"
+[[ "$code" == "401" ]] || { echo "❌ Expected 401: the shared inventory is open to anyone." >&2; exit 1; }
 
 echo "==> Done"
@@ -1,8 +1,13 @@
 #!/usr/bin/env bash
 #
-# One-time droplet setup: nginx, the web root, and the site config.
+# One-time droplet setup: nginx, Node, the web root, the site config and the
+# shared inventory service.
 #
-#   DROPLET=root@203.0.113.10 ./deploy/setup.sh
+#   DROPLET=root@203.0.113.10 INVENTORY_PASSWORD=... ./deploy/setup.sh
+#
+# INVENTORY_PASSWORD (and optionally INVENTORY_USER, default "inventory") sets
+# the password nginx asks for; it's required the first time, and re-running
+# without it keeps the existing one.
 #
 # Idempotent — safe to re-run, and the way to recover if the droplet's nginx
 # config ever gets out of sync. Follow it with deploy/deploy.sh to ship the app.
@@ -12,20 +17,51 @@ set -euo pipefail
 DROPLET="${DROPLET:?Set DROPLET, e.g. DROPLET=root@203.0.113.10}"
 REMOTE_ROOT="${REMOTE_ROOT:-/var/www/components-inventory}"
 SITE_NAME="${SITE_NAME:-components-inventory}"
+INVENTORY_USER="${INVENTORY_USER:-inventory}"
+INVENTORY_PASSWORD="${INVENTORY_PASSWORD:-}"
+# Must match auth_basic_user_file in deploy/nginx.conf.
+HTPASSWD=/etc/nginx/components-inventory.htpasswd
 
 cd "$(dirname "$0")/.."
 
-echo "==> Installing nginx and rsync"
+echo "==> Installing nginx, rsync and Node"
 ssh "$DROPLET" "bash -s" <<'EOF'
 set -euo pipefail
 export DEBIAN_FRONTEND=noninteractive LC_ALL=C.UTF-8
 apt-get update -qq
-apt-get install -y -qq nginx rsync
+apt-get install -y -qq nginx rsync nodejs
 systemctl enable --now nginx
+
+# The inventory API relies on fetch/Request/Response, which arrived in Node 18
+# (Ubuntu 24.04's package). On 22.04, install a newer Node from NodeSource.
+node_major=$(node -p 'process.versions.node.split(".")[0]')
+if (( node_major < 18 )); then
+  echo "❌ Node $(node --version) is too old for the inventory API; need 18+." >&2
+  exit 1
+fi
 EOF
 
 echo "==> Preparing $REMOTE_ROOT"
-ssh "$DROPLET" "mkdir -p '$REMOTE_ROOT'"
+ssh "$DROPLET" "mkdir -p '$REMOTE_ROOT' /opt/$SITE_NAME"
+
+echo "==> Installing inventory API service"
+scp -q deploy/inventory-api.service "$DROPLET:/etc/systemd/system/$SITE_NAME-api.service"
+# Enabled now, started by deploy.sh once there is a bundle to run.
+ssh "$DROPLET" "systemctl daemon-reload && systemctl enable $SITE_NAME-api"
+
+echo "==> Setting the site password"
+if [[ -n "$INVENTORY_PASSWORD" ]]; then
+  # Hashed locally; only the hash goes to the droplet.
+  hash=$(openssl passwd -apr1 "$INVENTORY_PASSWORD")
+  ssh "$DROPLET" "umask 027 && printf '%s:%s\\n' '$INVENTORY_USER' '$hash' > $HTPASSWD && chgrp www-data $HTPASSWD"
+  echo "  user '$INVENTORY_USER'"
+elif ssh "$DROPLET" "test -s $HTPASSWD"; then
+  echo "  keeping the existing password"
+else
+  echo "❌ The shared inventory takes writes from anyone who can reach it, so the site needs a password." >&2
+  echo "   Run: DROPLET=$DROPLET INVENTORY_PASSWORD=... ./deploy/setup.sh" >&2
+  exit 1
+fi
 
 echo "==> Installing nginx site"
 scp -q deploy/nginx.conf "$DROPLET:/etc/nginx/sites-available/$SITE_NAME"
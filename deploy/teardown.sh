@@ -33,7 +33,10 @@ fi
 echo "==> Looking for the deployment on $DROPLET"
 ssh "$DROPLET" "bash -s" <<EOF
   echo "--- app files"
-  du -sh "$REMOTE_ROOT" 2>/dev/null || echo "    (none)"
+  du -sh "$REMOTE_ROOT" /opt/$SITE_NAME 2>/dev/null || echo "    (none)"
+  echo "--- inventory API service and its data (the shared inventory itself!)"
+  ls -l /etc/systemd/system/$SITE_NAME-api.service 2>/dev/null || echo "    (no service)"
+  du -sh /var/lib/$SITE_NAME /var/lib/private/$SITE_NAME 2>/dev/null || echo "    (no data)"
   echo "--- nginx site"
   ls -l /etc/nginx/sites-enabled/$SITE_NAME /etc/nginx/sites-available/$SITE_NAME 2>/dev/null || echo "    (none)"
   echo "--- logs"
@@ -48,9 +51,14 @@ fi
 echo "==> Removing"
 ssh "$DROPLET" "bash -s" <<EOF
 set -euo pipefail
+systemctl disable --now $SITE_NAME-api 2>/dev/null || true
+rm -f /etc/systemd/system/$SITE_NAME-api.service
+systemctl daemon-reload
+rm -rf /opt/$SITE_NAME /var/lib/$SITE_NAME /var/lib/private/$SITE_NAME
 rm -rf "$REMOTE_ROOT"
 rm -f /etc/nginx/sites-enabled/$SITE_NAME
 rm -f /etc/nginx/sites-available/$SITE_NAME
+rm -f /etc/nginx/components-inventory.htpasswd
 rm -f /var/log/nginx/$SITE_NAME.*.log*
 nginx -t && systemctl reload nginx
 EOF
@@ -59,6 +67,7 @@ echo "==> Verifying"
 ssh "$DROPLET" "bash -s" <<EOF
   test -e "$REMOTE_ROOT" && echo "⚠️  $REMOTE_ROOT still exists" || echo "✓ app files gone"
   test -e /etc/nginx/sites-available/$SITE_NAME && echo "⚠️  site config still exists" || echo "✓ nginx site gone"
+  test -e /etc/systemd/system/$SITE_NAME-api.service && echo "⚠️  inventory API service still exists" || echo "✓ inventory API service gone"
   systemctl is-active --quiet nginx && echo "✓ nginx still running (other sites unaffected)"
 EOF
 
@@ -0,0 +1,155 @@
+// Runs the LCSC proxy (server/lcscProxy.ts) against the recorded fixtures and
+// checks what it promises: caching, negative caching, per-client rate limits,
+// retries with backoff, and the per-request subrequest budget.
+//
+//   npm run check:lcsc-proxy
+//
+// Upstream failures are scripted per part, and every upstream call is
+// counted, so each check can say exactly how often LCSC would have been asked.
+// Exits non-zero on the first check that fails.
+
+import assert from "node:assert/strict"
+import { fixtureUpstream } from "../server/lcscFixtures"
+import { createLcscProxy, type LcscProxyOptions, type LcscUpstream } from "../server/lcscProxy"
+
+// Recorded in server/fixtures/lcsc; any other code is "no such part".
+const KNOWN = "C14663"
+
+const calls = new Map<string, number>()
+// The first `times` calls for a part answer with `status`.
+const failures = new Map<string, { times: number; status: number }>()
+
+const upstream: LcscUpstream = async (productCode) => {
+  const count = (calls.get(productCode) || 0) + 1
+  calls.set(productCode, count)
+  const failure = failures.get(productCode)
+  if (failure && count <= failure.times) return new Response("", { status: failure.status })
+  return fixtureUpstream(productCode)
+}
+
+const totalCalls = () => Array.from(calls.values()).reduce((sum, count) => sum + count, 0)
+
+// A fresh cache and fresh buckets for every check; backoff shortened so the
+// retries don't slow the run down.
+const proxy = (options: LcscProxyOptions = {}) => createLcscProxy({ upstream, retryBaseMs: 1, ...options })
+
+const ENDPOINT = "http://localhost/api/lcsc-detail"
+
+const get = (lcsc: ReturnType<typeof proxy>, productCode: string, clientId = "client") =>
+  lcsc.handle(new Request(`${ENDPOINT}?productCode=${productCode}`), clientId)
+
+const post = (lcsc: ReturnType<typeof proxy>, productCodes: string[], clientId = "client") =>
+  lcsc.handle(
+    new Request(ENDPOINT, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ productCodes }),
+    }),
+    clientId
+  )
+
+const checks: [string, () => Promise<void>][] = [
+  [
+    "a found part is asked for once, then served from the cache",
+    async () => {
+      const lcsc = proxy()
+      const first = await get(lcsc, KNOWN)
+      assert.equal(first.status, 200)
+      assert.equal(first.headers.get("x-cache"), "miss")
+      assert.equal(((await first.json()) as { result: { productCode: string } }).result.productCode, KNOWN)
+
+      const second = await get(lcsc, KNOWN)
+      assert.equal(second.headers.get("x-cache"), "hit")
+      assert.equal(calls.get(KNOWN), 1)
+    },
+  ],
+  [
+    "an unknown part is cached as not found",
+    async () => {
+      const lcsc = proxy()
+      assert.equal((await get(lcsc, "C1")).status, 200)
+      const second = await get(lcsc, "C1")
+      assert.equal(second.status, 200)
+      assert.equal(second.headers.get("x-cache"), "hit")
+      assert.equal(calls.get("C1"), 1)
+    },
+  ],
+  [
+    "upstream 503s are retried until LCSC answers",
+    async () => {
+      failures.set(KNOWN, { times: 2, status: 503 })
+      const response = await get(proxy({ retries: 2 }), KNOWN)
+      assert.equal(response.status, 200)
+      assert.equal(calls.get(KNOWN), 3)
+    },
+  ],
+  [
+    "a 429 that outlasts the retries is passed on, and not cached",
+    async () => {
+      failures.set(KNOWN, { times: 3, status: 429 })
+      const lcsc = proxy({ retries: 2 })
+      assert.equal((await get(lcsc, KNOWN)).status, 429)
+      assert.equal(calls.get(KNOWN), 3)
+
+      assert.equal((await get(lcsc, KNOWN)).status, 200)
+      assert.equal(calls.get(KNOWN), 4)
+    },
+  ],
+  [
+    "each client has its own rate limit, and cache hits don't count",
+    async () => {
+      const lcsc = proxy({ burst: 2, perSecond: 0.01 })
+      assert.equal((await get(lcsc, "C10", "a")).status, 200)
+      assert.equal((await get(lcsc, "C11", "a")).status, 200)
+
+      const limited = await get(lcsc, "C12", "a")
+      assert.equal(limited.status, 429)
+      assert.ok(Number(limited.headers.get("retry-after")) > 0)
+      assert.equal(calls.get("C12"), undefined)
+
+      assert.equal((await get(lcsc, "C10", "a")).headers.get("x-cache"), "hit")
+      assert.equal((await get(lcsc, "C12", "b")).status, 200)
+    },
+  ],
+  [
+    "a batch of failing parts stays within 50 upstream calls and marks the rest retryable",
+    async () => {
+      const productCodes = Array.from({ length: 50 }, (_, i) => `C${100 + i}`)
+      productCodes.forEach((code) => failures.set(code, { times: Infinity, status: 503 }))
+
+      const response = await post(proxy({ burst: 100, retries: 2 }), productCodes)
+      assert.equal(response.status, 200)
+      const { results } = (await response.json()) as { results: { productCode: string; retryable?: boolean }[] }
+
+      assert.deepEqual(
+        results.map((result) => result.productCode),
+        productCodes
+      )
+      // Cloudflare's cap on subrequests per request.
+      assert.ok(totalCalls() <= 50, `${totalCalls()} upstream calls`)
+      assert.ok(results.some((result) => result.retryable))
+    },
+  ],
+  [
+    "a batch answers cached parts without asking again",
+    async () => {
+      const lcsc = proxy()
+      await get(lcsc, KNOWN)
+      const response = await post(lcsc, [KNOWN, "C1"])
+      const { results } = (await response.json()) as { results: { productCode: string; payload?: unknown }[] }
+
+      assert.equal(results.length, 2)
+      assert.ok(results.every((result) => result.payload !== undefined))
+      assert.equal(calls.get(KNOWN), 1)
+      assert.equal(calls.get("C1"), 1)
+    },
+  ],
+]
+
+for (const [name, run] of checks) {
+  calls.clear()
+  failures.clear()
+  await run()
+  console.log(`ok  ${name}`)
+}
+console.log(`\n${checks.length} checks passed`)
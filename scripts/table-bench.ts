@@ -0,0 +1,163 @@
+// Times the inventory table's filter/sort pipeline on a generated inventory,
+// and optionally writes that inventory as a CSV to import into the app and
+// try the table itself at that size.
+//
+//   npm run bench:table                      10,000 parts
+//   npm run bench:table -- 50000             any other count
+//   npm run bench:table -- 10000 --csv generated-inventory.csv
+//
+// The parts are made up but shaped like an LCSC export — passives with values,
+// ratings and packages in the description, ICs, connectors — from a fixed
+// seed, so runs are comparable.
+
+import { writeFileSync } from "node:fs"
+import { performance } from "node:perf_hooks"
+import Papa from "papaparse"
+import type { AggregatedRow } from "../src/inventory"
+import { formatLocations } from "../src/locations"
+import { attributesOf, NO_FACETS, parseAttributes } from "../src/parametric"
+import { parseQuery } from "../src/query"
+import { sameExceptBomUse, viewRows, type SortKey } from "../src/views"
+
+const args = process.argv.slice(2)
+const csvIndex = args.indexOf("--csv")
+const csvFile = csvIndex === -1 ? undefined : args[csvIndex + 1]
+const count = parseInt(args.find((arg, i) => /^\d+$/.test(arg) && i !== csvIndex + 1) || "10000")
+
+// Park–Miller, so the same count always gives the same inventory.
+let seed = 20251
+const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+const pick = <T>(list: T[]): T => list[Math.floor(random() * list.length)]
+
+const E12 = [1, 1.2, 1.5, 1.8, 2.2, 2.7, 3.3, 3.9, 4.7, 5.6, 6.8, 8.2]
+const CHIP_SIZES = ["0402", "0603", "0805", "1206"]
+
+const si = (value: number, unit: string): string => {
+  const prefixes: [number, string][] = [[1e6, "M"], [1e3, "k"], [1, ""], [1e-6, "u"], [1e-9, "n"], [1e-12, "p"]]
+  const [scale, prefix] = prefixes.find(([scale]) => value >= scale) || prefixes[prefixes.length - 1]
+  return `${parseFloat((value / scale).toPrecision(3))}${prefix}${unit}`
+}
+
+const capacitor = () => {
+  const value = pick(E12) * 10 ** Math.floor(random() * 7) * 1e-12
+  const size = pick(CHIP_SIZES)
+  return {
+    manufacturer: pick(["Samsung Electro-Mechanics", "YAGEO", "Murata Electronics", "CCTC"]),
+    package: size,
+    description: `${si(value, "F")} ${pick([6.3, 10, 16, 25, 50, 100])}V ${pick(["X5R", "X7R", "C0G"])} ±${pick([5, 10, 20])}% ${size} Multilayer Ceramic Capacitors MLCC - SMD/SMT`,
+  }
+}
+
+const resistor = () => {
+  const value = pick(E12) * 10 ** Math.floor(random() * 7)
+  const size = pick(CHIP_SIZES)
+  return {
+    manufacturer: pick(["UNI-ROYAL(Uniroyal Elec)", "YAGEO", "FOJAN"]),
+    package: size,
+    description: `${si(value, "Ω")} ±${pick([1, 5])}% ${pick([62.5, 100, 125, 250])}mW ${size} Chip Resistor - Surface Mount`,
+  }
+}
+
+const ic = () => ({
+  manufacturer: pick(["Texas Instruments", "STMicroelectronics", "Microchip Tech", "WCH(Jiangsu Qin Heng)"]),
+  package: pick(["SOT-23-5", "SOIC-8", "TSSOP-20", "QFN-32", "LQFP-48"]),
+  description: pick([
+    "Linear Voltage Regulators (LDO) Fixed 3.3V 500mA",
+    "Microcontrollers (MCU/MPU/SOC) 72MHz 64KB FLASH",
+    "Operational Amplifier Rail-to-Rail 2 Channels",
+    "USB Converters USB to UART",
+  ]),
+})
+
+const connector = () => ({
+  manufacturer: pick(["XKB Connection", "BOOMELE(Boom Precision Elec)", "JST"]),
+  package: pick(["SMD", "Plugin,P=2.54mm", "Plugin,P=2mm"]),
+  description: `${pick([2, 3, 4, 6, 8, 10])}P Pin Header / Female Header Connector ${pick(["Straight", "Right Angle"])}`,
+})
+
+const generateInventory = (parts: number): AggregatedRow[] =>
+  Array.from({ length: parts }, (_, i) => {
+    const kind = random()
+    const part = kind < 0.4 ? capacitor() : kind < 0.75 ? resistor() : kind < 0.9 ? ic() : connector()
+    const quantity = Math.floor(random() * 5000)
+    const unitPrice = parseFloat((random() * random() * 5).toFixed(4))
+    return {
+      lcscId: `C${100000 + i}`,
+      manufactureId: `${part.manufacturer.slice(0, 3).toUpperCase()}-${(i * 7919).toString(36).toUpperCase()}`,
+      ...part,
+      quantity,
+      unitPrice,
+      locations: [{ cabinet: pick(["A", "B", "C"]), drawer: String(1 + Math.floor(random() * 12)), bin: "", quantity }],
+      minQuantity: random() < 0.1 ? 100 : undefined,
+      priceHistory: [{ quantity, unitPrice }],
+      totalCost: quantity * unitPrice,
+      editedQuantity: 0,
+    }
+  })
+
+// Median of several runs, in milliseconds.
+const time = (label: string, run: () => unknown, runs = 7) => {
+  const times = Array.from({ length: runs }, () => {
+    const started = performance.now()
+    run()
+    return performance.now() - started
+  }).sort((a, b) => a - b)
+  console.log(`${label.padEnd(52)} ${times[Math.floor(runs / 2)].toFixed(1).padStart(8)} ms`)
+}
+
+const rows = generateInventory(count)
+console.log(`${count} generated parts\n`)
+
+const everything = { query: parseQuery(""), locationFilter: "", facets: NO_FACETS }
+const sort: SortKey[] = [
+  { field: "package", ascending: true },
+  { field: "quantity", ascending: false },
+]
+
+time("Parse attributes of every part", () => rows.map(parseAttributes))
+rows.forEach(attributesOf)
+time("Attributes after one part changed", () => {
+  const changed = rows.map((row, i) => (i === 0 ? { ...row, description: `${row.description} ` } : row))
+  return changed.map(attributesOf)
+})
+time("All parts, unsorted", () => viewRows(rows, everything, []))
+time("All parts, by package then stock", () => viewRows(rows, everything, sort))
+time("Text search \"yageo\", sorted", () =>
+  viewRows(rows, { ...everything, query: parseQuery("yageo") }, sort)
+)
+time("cap:10n..220n pkg:0603 v>=25, sorted", () =>
+  viewRows(rows, { ...everything, query: parseQuery("cap:10n..220n pkg:0603 v>=25") }, sort)
+)
+time("(mfr:yageo OR mfr:murata) -diel:x5r qty<500, sorted", () =>
+  viewRows(rows, { ...everything, query: parseQuery("(mfr:yageo OR mfr:murata) -diel:x5r qty<500") }, sort)
+)
+
+// A typed BOM quantity: one row replaced by ID, the catalog check, and the
+// current rows looked up for the memoized order.
+const ordered = viewRows(rows, everything, sort)
+time("BOM quantity keystroke", () => {
+  const target = rows[Math.floor(rows.length / 2)].lcscId
+  const next = rows.map((row) => (row.lcscId === target ? { ...row, editedQuantity: 3 } : row))
+  if (!sameExceptBomUse(rows, next)) throw new Error("catalog should have been kept")
+  const byId = new Map(next.map((row) => [row.lcscId, row]))
+  return ordered.map((row) => byId.get(row.lcscId) || row)
+})
+
+if (csvFile) {
+  const csv = Papa.unparse(
+    rows.map((row) => ({
+      "LCSC Part Number": row.lcscId,
+      "Manufacture Part Number": row.manufactureId,
+      Manufacturer: row.manufacturer,
+      Package: row.package,
+      Quantity: row.quantity,
+      Description: row.description,
+      "Unit Price($)": row.unitPrice.toFixed(4),
+      Location: formatLocations(row.locations),
+      "Min Qty": row.minQuantity || "",
+      "Target Qty": "",
+    }))
+  )
+  writeFileSync(csvFile, csv)
+  console.log(`\nWrote ${csvFile}`)
+}
@@ -0,0 +1,57 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import { dirname } from "node:path"
+import type { AggregatedRow } from "../src/inventory"
+import type { StockMovement } from "../src/ledger"
+
+// The shared inventory: rows keyed by LCSC ID plus the stock ledger their
+// quantities are derived from. `version` goes up on every write, so clients
+// can tell cheaply whether anything changed since they last looked.
+export type InventoryState = {
+  version: number
+  rows: AggregatedRow[]
+  ledger: StockMovement[]
+}
+
+export type InventoryStore = {
+  read: () => Promise<InventoryState>
+  // `change` runs against the latest state, one call at a time.
+  update: (change: (state: InventoryState) => InventoryState) => Promise<InventoryState>
+}
+
+const EMPTY_STATE: InventoryState = { version: 0, rows: [], ledger: [] }
+
+// A single JSON file. Small enough for a parts inventory, trivially backed up,
+// and written via a temp file + rename so a crash never leaves half a file.
+export const createFileStore = (filePath: string): InventoryStore => {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const read = async (): Promise<InventoryState> => {
+    try {
+      return { ...EMPTY_STATE, ...JSON.parse(await readFile(filePath, "utf8")) }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return EMPTY_STATE
+      throw error
+    }
+  }
+
+  const write = async (state: InventoryState) => {
+    await mkdir(dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await writeFile(tempPath, JSON.stringify(state))
+    await rename(tempPath, filePath)
+  }
+
+  const update = (change: (state: InventoryState) => InventoryState): Promise<InventoryState> => {
+    const next = queue.then(async () => {
+      const state = change(await read())
+      const saved = { ...state, version: state.version + 1 }
+      await write(saved)
+      return saved
+    })
+    // One failed write mustn't wedge every write after it.
+    queue = next.catch(() => undefined)
+    return next
+  }
+
+  return { read, update }
+}
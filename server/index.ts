@@ -0,0 +1,40 @@
+// Node server for the shared inventory API and the LCSC proxy on the droplet.
+//
+// nginx proxies /components-inventory/api/inventory* and api/lcsc-detail here
+// (see deploy/nginx.conf); everything else stays static files. `npm run dev` serves
+// the same routes from vite.config.ts, so this is only needed in production.
+//
+//   PORT=8787 DATA_FILE=/var/lib/components-inventory/inventory.json node inventory-api.mjs
+
+import { createServer } from "node:http"
+import { createFileStore } from "./fileStore"
+import { handleInventoryRequest } from "./inventoryApi"
+import { createLcscProxy } from "./lcscProxy"
+import { clientAddress, sendWebResponse, toWebRequest } from "./nodeAdapter"
+import { nodeUpstream } from "./nodeUpstream"
+
+const PORT = parseInt(process.env.PORT || "8787")
+// Loopback only by default: nginx is the one thing that should reach it.
+const HOST = process.env.HOST || "127.0.0.1"
+const DATA_FILE = process.env.DATA_FILE || "./.inventory-data/inventory.json"
+
+const store = createFileStore(DATA_FILE)
+const lcscProxy = createLcscProxy({ upstream: nodeUpstream })
+
+const server = createServer(async (req, res) => {
+  try {
+    const request = await toWebRequest(req)
+    const response = new URL(request.url).pathname.endsWith("/api/lcsc-detail")
+      ? await lcscProxy.handle(request, clientAddress(req))
+      : await handleInventoryRequest(request, store)
+    await sendWebResponse(res, response)
+  } catch (error) {
+    console.error("Request failed:", error)
+    res.writeHead(500, { "content-type": "application/json" })
+    res.end(JSON.stringify({ error: "Internal server error" }))
+  }
+})
+
+server.listen(PORT, HOST, () => {
+  console.log(`Inventory API on http://${HOST}:${PORT} (data: ${DATA_FILE})`)
+})
@@ -0,0 +1,163 @@
+import type { AggregatedRow } from "../src/inventory"
+import { applyLedger, createMovement, type StockMovement } from "../src/ledger"
+import { fitLocationsToQuantity } from "../src/locations"
+import type { InventoryState, InventoryStore } from "./fileStore"
+
+// The shared-inventory API, as a plain Request → Response handler so the
+// droplet's Node server and `npm run dev` (see vite.config.ts) run the same
+// code. Routes, relative to wherever `api/inventory` is mounted:
+//
+//   GET  api/inventory                   → { version, rows }
+//   POST api/inventory/upsert            { rows?, deleted?, movements? } → { version, rows }
+//   POST api/inventory/builds            { lines, multiplier?, reason?, sourceFile? }
+//                                        → { version, rows, movements }
+//   GET  api/inventory/history?lcscId=…  → { version, movements }
+//
+// Quantities are always re-derived from the ledger here, so two people
+// consuming the same part both count, instead of the last write winning.
+//
+// Anyone who reaches it can write, and it doesn't check who's asking: on the
+// droplet, nginx's basic auth in front of it is what keeps the stock private
+// (see deploy/nginx.conf). Don't expose it any other way.
+
+const API_PREFIX = "/api/inventory"
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store",
+    },
+  })
+
+class BadRequest extends Error {}
+
+const isLcscId = (value: unknown): value is string => typeof value === "string" && /^C\d+$/.test(value)
+
+// BOM scratch quantities are per person, so they never reach the server.
+const toStoredRow = (row: AggregatedRow): AggregatedRow => {
+  const stored = { ...row }
+  delete stored.editedQuantity
+  return stored
+}
+
+// Same derivation the browser does in `commitMovements`.
+const withDerivedQuantities = (state: InventoryState): InventoryState => ({
+  ...state,
+  rows: applyLedger(state.rows, state.ledger).map((row) => ({
+    ...row,
+    locations: fitLocationsToQuantity(row.locations || [], row.quantity),
+  })),
+})
+
+const readBody = async (request: Request): Promise<Record<string, unknown>> => {
+  const body: unknown = await request.json().catch(() => null)
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new BadRequest("Expected a JSON object body")
+  }
+  return body as Record<string, unknown>
+}
+
+const upsert = async (store: InventoryStore, body: Record<string, unknown>) => {
+  const rows = (body.rows ?? []) as AggregatedRow[]
+  const deleted = (body.deleted ?? []) as string[]
+  const movements = (body.movements ?? []) as StockMovement[]
+
+  if (!Array.isArray(rows) || rows.some((row) => !isLcscId(row?.lcscId))) {
+    throw new BadRequest("`rows` must be inventory rows with LCSC part numbers")
+  }
+  if (!Array.isArray(deleted) || deleted.some((id) => !isLcscId(id))) {
+    throw new BadRequest("`deleted` must be a list of LCSC part numbers")
+  }
+  if (!Array.isArray(movements) || movements.some((m) => !m?.id || !isLcscId(m.lcscId) || typeof m.quantity !== "number")) {
+    throw new BadRequest("`movements` must be stock movements with an id, LCSC part number and quantity")
+  }
+
+  return store.update((state) => {
+    const upserted = new Map(rows.map((row) => [row.lcscId, toStoredRow(row)]))
+    const removed = new Set(deleted)
+
+    // Movements carry client-made ids, so a retried push is a no-op.
+    const knownIds = new Set(state.ledger.map((movement) => movement.id))
+    const newMovements = movements.filter((movement) => !knownIds.has(movement.id))
+
+    const kept = state.rows
+      .filter((row) => !removed.has(row.lcscId))
+      .map((row) => upserted.get(row.lcscId) ?? row)
+    const keptIds = new Set(kept.map((row) => row.lcscId))
+    const added = Array.from(upserted.values()).filter((row) => !keptIds.has(row.lcscId) && !removed.has(row.lcscId))
+
+    return withDerivedQuantities({
+      ...state,
+      rows: [...kept, ...added],
+      ledger: [...state.ledger, ...newMovements],
+    })
+  })
+}
+
+// Consumption is clamped to what the server has on hand at that moment, not
+// to what the requesting browser last saw.
+const applyBuild = async (store: InventoryStore, body: Record<string, unknown>) => {
+  const lines = body.lines as { lcscId: string; quantity: number }[]
+  const multiplier = typeof body.multiplier === "number" && body.multiplier > 0 ? body.multiplier : 1
+  const reason = typeof body.reason === "string" && body.reason ? body.reason : `Apply BOM ×${multiplier}`
+  const sourceFile = typeof body.sourceFile === "string" && body.sourceFile ? body.sourceFile : undefined
+
+  if (!Array.isArray(lines) || lines.some((line) => !isLcscId(line?.lcscId) || !(line.quantity >= 0))) {
+    throw new BadRequest("`lines` must be a list of { lcscId, quantity }")
+  }
+
+  let consumed: StockMovement[] = []
+  const state = await store.update((current) => {
+    const stock = new Map(current.rows.map((row) => [row.lcscId, row.quantity]))
+    consumed = lines
+      .map((line) =>
+        createMovement(line.lcscId, "consume", -Math.min(stock.get(line.lcscId) || 0, line.quantity * multiplier), {
+          reason,
+          sourceFile,
+        })
+      )
+      .filter((movement) => movement.quantity !== 0)
+
+    return withDerivedQuantities({ ...current, ledger: [...current.ledger, ...consumed] })
+  })
+
+  return { state, consumed }
+}
+
+export const handleInventoryRequest = async (request: Request, store: InventoryStore): Promise<Response> => {
+  const url = new URL(request.url)
+  const at = url.pathname.indexOf(API_PREFIX)
+  const route = at === -1 ? null : url.pathname.slice(at + API_PREFIX.length).replace(/\/$/, "")
+
+  try {
+    if (route === "" && request.method === "GET") {
+      const { version, rows } = await store.read()
+      return json({ version, rows })
+    }
+
+    if (route === "/upsert" && request.method === "POST") {
+      const { version, rows } = await upsert(store, await readBody(request))
+      return json({ version, rows })
+    }
+
+    if (route === "/builds" && request.method === "POST") {
+      const { state, consumed } = await applyBuild(store, await readBody(request))
+      return json({ version: state.version, rows: state.rows, movements: consumed })
+    }
+
+    if (route === "/history" && request.method === "GET") {
+      const lcscId = (url.searchParams.get("lcscId") || "").trim().toUpperCase()
+      const { version, ledger } = await store.read()
+      return json({ version, movements: lcscId ? ledger.filter((m) => m.lcscId === lcscId) : ledger })
+    }
+
+    return json({ error: `No inventory route for ${request.method} ${url.pathname}` }, 404)
+  } catch (error) {
+    if (error instanceof BadRequest) return json({ error: error.message }, 400)
+
+    console.error("Inventory API error:", error)
+    return json({ error: "Inventory storage failed" }, 500)
+  }
+}
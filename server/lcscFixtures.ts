@@ -0,0 +1,40 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import type { LcscUpstream } from "./lcscProxy"
+
+// A stand-in for LCSC built from recorded responses, so the proxy (and every
+// lookup in the app) can be exercised without the network:
+//
+//   LCSC_FIXTURES=replay npm run dev   answers from server/fixtures/lcsc/<code>.json;
+//                                      unknown codes are "not found"
+//   LCSC_FIXTURES=record npm run dev   asks LCSC and saves what it says there
+//
+// Fixtures are LCSC's payloads verbatim, so a recorded file is also a handy
+// reference for what `src/lcsc.ts` has to map.
+//
+// `npm run check:lcsc-proxy` (scripts/lcsc-proxy-check.ts) runs the proxy
+// against them to check its caching, rate limiting and retries.
+
+// Relative to the repo root, where `npm run dev` runs.
+export const FIXTURE_DIR = process.env.LCSC_FIXTURE_DIR || "server/fixtures/lcsc"
+
+const NOT_FOUND = { code: 200, msg: null, result: null }
+
+export const fixtureUpstream: LcscUpstream = async (productCode) => {
+  const file = join(FIXTURE_DIR, `${productCode}.json`)
+  const body = existsSync(file) ? readFileSync(file, "utf8") : JSON.stringify(NOT_FOUND)
+  return new Response(body, { headers: { "content-type": "application/json" } })
+}
+
+// Passes requests through to `upstream`, keeping a copy of every good answer.
+export const recordingUpstream =
+  (upstream: LcscUpstream): LcscUpstream =>
+  async (productCode) => {
+    const response = await upstream(productCode)
+    if (!response.ok) return response
+
+    const body = await response.text()
+    mkdirSync(FIXTURE_DIR, { recursive: true })
+    writeFileSync(join(FIXTURE_DIR, `${productCode}.json`), JSON.stringify(JSON.parse(body), null, 2) + "\n")
+    return new Response(body, { status: response.status, headers: response.headers })
+  }
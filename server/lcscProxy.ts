@@ -0,0 +1,297 @@
+// The `api/lcsc-detail` proxy, as a Request → Response handler shared by the
+// Cloudflare Pages Function (functions/api/lcsc-detail.ts), the droplet's Node
+// server and `npm run dev` (vite.config.ts):
+//
+//   GET  api/lcsc-detail?productCode=C14663  → LCSC's payload, untouched
+//   POST api/lcsc-detail  { productCodes: ["C14663", …] }
+//                         → { results: [{ productCode, payload } | { productCode, error, retryable? }] }
+//
+// `src/lcsc.ts` does the field mapping for both.
+//
+// LCSC's product API sends no CORS headers, so the browser can't call it, and
+// it sits behind Akamai, which throttles bursts. So on top of forwarding this:
+//   - caches answers in memory: found parts for an hour, "no such part" for
+//     ten minutes (negative caching, so a typo'd ID isn't re-asked every time)
+//   - limits each client's upstream lookups with a token bucket; cache hits
+//     are free
+//   - retries upstream 5xx/403/429 with exponential backoff, since Akamai's
+//     403s and LCSC's 5xx are usually momentary
+//   - counts every upstream attempt against a per-request budget, so a batch
+//     stays under Cloudflare's subrequest cap; parts it can't get to come
+//     back `retryable`, to be asked for again
+//
+// The cache lives as long as the process — or, on Cloudflare, the isolate.
+
+export const LCSC_DETAIL_URL = "https://wmsc.lcsc.com/ftps/wm/product/detail"
+
+// LCSC answers 403 to requests without a User-Agent, and to the browser's own
+// forwarded header set (Origin, Referer, Sec-Fetch-*, Cookie...), so upstream
+// requests carry exactly these and nothing else.
+export const LCSC_REQUEST_HEADERS: Record<string, string> = {
+  accept: "application/json",
+  "user-agent":
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+}
+
+// Asks LCSC about one part. Swappable so Node can avoid fetch's automatic
+// Sec-Fetch-Mode header and dev can answer from recorded fixtures.
+export type LcscUpstream = (productCode: string) => Promise<Response>
+
+const fetchUpstream: LcscUpstream = (productCode) =>
+  fetch(`${LCSC_DETAIL_URL}?productCode=${productCode}`, { headers: LCSC_REQUEST_HEADERS })
+
+export type LcscProxyOptions = {
+  upstream?: LcscUpstream
+  ttlMs?: number
+  notFoundTtlMs?: number
+  maxEntries?: number
+  // Token bucket per client: `burst` lookups at once, refilled at `perSecond`.
+  burst?: number
+  perSecond?: number
+  // Upstream attempts beyond the first.
+  retries?: number
+  retryBaseMs?: number
+  // Upstream lookups in flight at once for one batch request.
+  batchConcurrency?: number
+}
+
+// A finished lookup: LCSC's payload (found or not), or why there isn't one.
+type LcscLookup =
+  | { status: "found" | "not-found"; payload: unknown; cached: boolean }
+  | { status: "error"; httpStatus: number; error: string; retryAfter?: number; retryable?: boolean }
+
+// Upstream attempts one request may still make.
+type Budget = { left: number }
+
+type CacheEntry = { expires: number; found: boolean; payload: unknown }
+type Bucket = { tokens: number; updatedAt: number }
+
+const isLcscId = (value: unknown): value is string => typeof value === "string" && /^C\d+$/.test(value)
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store",
+      ...headers,
+    },
+  })
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Per batch request. A batch waits out the rate limit rather than failing,
+// so keep it modest.
+const MAX_BATCH = 50
+
+// Cloudflare lets a Function make 50 subrequests per request, and every
+// upstream attempt is one — retries included, so a batch of 50 parts can need
+// three times that.
+const SUBREQUEST_BUDGET = 50
+
+const outOfBudget = (error = "Too many LCSC lookups for one request; ask for this part again"): LcscLookup => ({
+  status: "error",
+  httpStatus: 503,
+  error,
+  retryable: true,
+})
+
+class BadRequest extends Error {}
+
+const isRetryable = (status: number) => status >= 500 || status === 403 || status === 429
+
+export const createLcscProxy = ({
+  upstream = fetchUpstream,
+  ttlMs = 60 * 60 * 1000,
+  notFoundTtlMs = 10 * 60 * 1000,
+  maxEntries = 5000,
+  burst = 20,
+  perSecond = 5,
+  retries = 2,
+  retryBaseMs = 500,
+  batchConcurrency = 4,
+}: LcscProxyOptions = {}) => {
+  // Insertion-ordered, so the first key is the least recently used.
+  const cache = new Map<string, CacheEntry>()
+  const buckets = new Map<string, Bucket>()
+
+  const cached = (productCode: string): CacheEntry | undefined => {
+    const entry = cache.get(productCode)
+    if (!entry) return undefined
+    cache.delete(productCode)
+    if (entry.expires <= Date.now()) return undefined
+    cache.set(productCode, entry)
+    return entry
+  }
+
+  const remember = (productCode: string, found: boolean, payload: unknown) => {
+    cache.set(productCode, { expires: Date.now() + (found ? ttlMs : notFoundTtlMs), found, payload })
+    while (cache.size > maxEntries) cache.delete(cache.keys().next().value as string)
+  }
+
+  // Seconds until the client may try again, or 0 if a token was taken.
+  const takeToken = (clientId: string): number => {
+    const now = Date.now()
+    const bucket = buckets.get(clientId) || { tokens: burst, updatedAt: now }
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond)
+    bucket.updatedAt = now
+    buckets.set(clientId, bucket)
+
+    // Forget clients that have been idle long enough to be full again.
+    if (buckets.size > 1000) {
+      for (const [id, idle] of buckets) {
+        if (now - idle.updatedAt > (burst / perSecond) * 1000) buckets.delete(id)
+      }
+    }
+
+    if (bucket.tokens < 1) return Math.ceil((1 - bucket.tokens) / perSecond)
+    bucket.tokens -= 1
+    return 0
+  }
+
+  const askUpstream = async (productCode: string, budget: Budget): Promise<LcscLookup> => {
+    let lastError = "Could not reach LCSC"
+    let lastStatus = 502
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      // Taken before waiting, so the batch's other lookups can't overdraw it.
+      if (budget.left <= 0) return outOfBudget(attempt === 0 ? undefined : lastError)
+      budget.left -= 1
+      if (attempt > 0) await sleep(retryBaseMs * 2 ** (attempt - 1) * (0.75 + Math.random() / 2))
+
+      let response: Response
+      try {
+        response = await upstream(productCode)
+      } catch {
+        lastError = "Could not reach LCSC"
+        continue
+      }
+
+      if (!response.ok) {
+        lastError = `LCSC responded with HTTP ${response.status}`
+        lastStatus = response.status === 429 ? 429 : 502
+        if (isRetryable(response.status)) continue
+        break
+      }
+
+      const payload = (await response.json().catch(() => null)) as { result?: { productCode?: string } } | null
+      if (!payload) {
+        // Akamai's block page is HTML with a 200 now and then.
+        lastError = "LCSC sent something that isn't JSON"
+        continue
+      }
+
+      const found = !!payload.result?.productCode
+      remember(productCode, found, payload)
+      return { status: found ? "found" : "not-found", payload, cached: false }
+    }
+
+    return { status: "error", httpStatus: lastStatus, error: lastError }
+  }
+
+  // One part, from the cache when possible. Throttled per client; a lookup
+  // refused by the limiter comes back as a 429 error.
+  const lookup = async (productCode: string, clientId: string, budget: Budget): Promise<LcscLookup> => {
+    const entry = cached(productCode)
+    if (entry) return { status: entry.found ? "found" : "not-found", payload: entry.payload, cached: true }
+    if (budget.left <= 0) return outOfBudget()
+
+    const waitSeconds = takeToken(clientId)
+    if (waitSeconds > 0) {
+      return {
+        status: "error",
+        httpStatus: 429,
+        error: `Too many LCSC lookups; try again in ${waitSeconds}s`,
+        retryAfter: waitSeconds,
+      }
+    }
+    return askUpstream(productCode, budget)
+  }
+
+  const getOne = async (request: Request, clientId: string): Promise<Response> => {
+    const productCode = (new URL(request.url).searchParams.get("productCode") || "").trim().toUpperCase()
+    if (!isLcscId(productCode)) {
+      return json({ error: "Expected an LCSC part number like C14663" }, 400)
+    }
+
+    const result = await lookup(productCode, clientId, { left: SUBREQUEST_BUDGET })
+    if (result.status === "error") {
+      const headers: Record<string, string> = result.retryAfter ? { "retry-after": String(result.retryAfter) } : {}
+      return json({ error: result.error }, result.httpStatus, headers)
+    }
+
+    return json(result.payload, 200, {
+      "cache-control": `public, max-age=${Math.round((result.status === "found" ? ttlMs : notFoundTtlMs) / 1000)}`,
+      "x-cache": result.cached ? "hit" : "miss",
+    })
+  }
+
+  const readProductCodes = async (request: Request): Promise<string[]> => {
+    const body = (await request.json().catch(() => null)) as { productCodes?: unknown } | null
+    if (!Array.isArray(body?.productCodes)) {
+      throw new BadRequest('Expected { "productCodes": ["C14663", …] }')
+    }
+
+    const productCodes = Array.from(
+      new Set(body.productCodes.map((code) => (typeof code === "string" ? code.trim().toUpperCase() : code)))
+    )
+    const invalid = productCodes.find((code) => !isLcscId(code))
+    if (invalid !== undefined) throw new BadRequest(`${JSON.stringify(invalid)} is not an LCSC part number`)
+    if (productCodes.length > MAX_BATCH) {
+      throw new BadRequest(`At most ${MAX_BATCH} part numbers per request (got ${productCodes.length})`)
+    }
+    return productCodes as string[]
+  }
+
+  // Rate-limited lookups wait their turn here instead of failing: the caller
+  // asked for the whole batch in one go.
+  const lookupPatiently = async (productCode: string, clientId: string, budget: Budget): Promise<LcscLookup> => {
+    for (;;) {
+      const result = await lookup(productCode, clientId, budget)
+      if (result.status !== "error" || !result.retryAfter) return result
+      await sleep(result.retryAfter * 1000)
+    }
+  }
+
+  const getMany = async (request: Request, clientId: string): Promise<Response> => {
+    let productCodes: string[]
+    try {
+      productCodes = await readProductCodes(request)
+    } catch (error) {
+      if (error instanceof BadRequest) return json({ error: error.message }, 400)
+      throw error
+    }
+
+    const results: (
+      | { productCode: string; payload: unknown }
+      | { productCode: string; error: string; retryable?: boolean }
+    )[] = []
+    const queue = [...productCodes]
+    // Shared by the whole batch.
+    const budget: Budget = { left: SUBREQUEST_BUDGET }
+    const worker = async () => {
+      for (let productCode = queue.shift(); productCode; productCode = queue.shift()) {
+        const result = await lookupPatiently(productCode, clientId, budget)
+        results.push(
+          result.status === "error"
+            ? { productCode, error: result.error, ...(result.retryable ? { retryable: true } : {}) }
+            : { productCode, payload: result.payload }
+        )
+      }
+    }
+    await Promise.all(Array.from({ length: batchConcurrency }, worker))
+
+    // Back in the order asked for.
+    const order = new Map(productCodes.map((code, index) => [code, index]))
+    results.sort((a, b) => (order.get(a.productCode) ?? 0) - (order.get(b.productCode) ?? 0))
+    return json({ results })
+  }
+
+  const handle = (request: Request, clientId: string): Promise<Response> => {
+    if (request.method === "GET") return getOne(request, clientId)
+    if (request.method === "POST") return getMany(request, clientId)
+    return Promise.resolve(json({ error: "Method not allowed" }, 405, { allow: "GET, POST" }))
+  }
+
+  return { handle }
+}
@@ -0,0 +1,40 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+
+// Glue between Node's http module (the droplet server, Vite's dev server) and
+// the fetch-style handlers in this directory.
+
+const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks)
+}
+
+export const toWebRequest = async (req: IncomingMessage): Promise<Request> => {
+  const hasBody = req.method !== "GET" && req.method !== "HEAD"
+  return new Request(`http://${req.headers.host || "localhost"}${req.url}`, {
+    method: req.method,
+    headers: { "content-type": req.headers["content-type"] || "application/json" },
+    body: hasBody ? await readBody(req) : undefined,
+  })
+}
+
+export const sendWebResponse = async (res: ServerResponse, response: Response): Promise<void> => {
+  res.writeHead(response.status, Object.fromEntries(response.headers))
+  res.end(Buffer.from(await response.arrayBuffer()))
+}
+
+// Only nginx, on the same machine, is trusted to say who it's forwarding for.
+const LOOPBACK = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"])
+
+// Who's asking, for per-client limits. Behind nginx that's the address it
+// forwards; otherwise the socket's. The header is ignored from anyone else,
+// who could otherwise send a fresh one each request and never be limited, and
+// only its last entry counts: the one the proxy itself added.
+export const clientAddress = (req: IncomingMessage): string => {
+  const socketAddress = req.socket.remoteAddress || "unknown"
+  if (!LOOPBACK.has(socketAddress)) return socketAddress
+
+  const forwarded = req.headers["x-forwarded-for"]
+  const last = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded)?.split(",").pop()?.trim()
+  return last || socketAddress
+}
@@ -0,0 +1,25 @@
+import { request } from "node:https"
+import { LCSC_DETAIL_URL, LCSC_REQUEST_HEADERS, type LcscUpstream } from "./lcscProxy"
+
+// LCSC upstream over node:https rather than fetch: Node's fetch adds
+// Sec-Fetch-Mode and friends to every request, which Akamai may take for a
+// proxied browser and deny.
+
+const TIMEOUT_MS = 20_000
+
+export const nodeUpstream: LcscUpstream = (productCode) =>
+  new Promise((resolve, reject) => {
+    const req = request(
+      `${LCSC_DETAIL_URL}?productCode=${productCode}`,
+      { headers: LCSC_REQUEST_HEADERS, timeout: TIMEOUT_MS },
+      (res) => {
+        const chunks: Buffer[] = []
+        res.on("data", (chunk: Buffer) => chunks.push(chunk))
+        res.on("end", () => resolve(new Response(Buffer.concat(chunks), { status: res.statusCode || 502 })))
+        res.on("error", reject)
+      }
+    )
+    req.on("timeout", () => req.destroy(new Error("LCSC timed out")))
+    req.on("error", reject)
+    req.end()
+  })
@@ -1,64 +1,217 @@
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import Moment from "moment"
-import Papa from "papaparse"
+import { readCsv, readCsvFile, type ParsedCsv } from "./csv"
 import {
   fetchLcscPart,
   isValidLcscId,
-  lcscProductUrl,
   normalizeLcscId,
   priceForQuantity,
   type LcscPart,
 } from "./lcsc"
-
-type RowData = {
-  lcscId: string
-  manufactureId: string
-  manufacturer: string
-  package: string
-  quantity: number
-  description: string
-  unitPrice: number
-}
-
-type BOMData = {
-  lcscId: string
-  manufactureId: string
-  quantity: number
-}
-
-type BOMErrorInfo = {
-  lcscId: string
-  manufactureId: string
-  reason: string
-  quantity?: number
+import {
+  addToLocation,
+  fitLocationsToQuantity,
+  formatLocations,
+  locationFilterOptions,
+  locationPathError,
+  mergeLocations,
+  UNASSIGNED_LOCATION,
+  type PartLocation,
+} from "./locations"
+import type { AggregatedRow, BOMData, BOMErrorInfo, ReorderThresholds, RowData } from "./inventory"
+import {
+  applyLedger,
+  createMovement,
+  fallbackPrices,
+  movementsBetween,
+  reversalsOf,
+  replayLots,
+  type StockMovement,
+} from "./ledger"
+import {
+  canRedo,
+  canUndo,
+  emptyHistory,
+  movementsToStep,
+  pushStep,
+  rowChanges,
+  rowsAtStep,
+  type UndoHistory,
+  type UndoState,
+} from "./undo"
+import {
+  appendMovements,
+  clearInventory,
+  diffRows,
+  loadInventory,
+  notifyOtherTabs,
+  onOtherTabChange,
+  replaceInventory,
+  saveBuild,
+  saveMeta,
+  saveRows,
+  saveUndoHistory,
+  type StoredInventory,
+} from "./storage"
+import {
+  emptyPending,
+  fetchServerInventory,
+  fetchServerLedger,
+  isPendingEmpty,
+  mergeServerRows,
+  postBuild,
+  pushChanges,
+  queueChanges,
+  sharedChanges,
+  type PendingSync,
+  type SyncStatus,
+} from "./sync"
+import { applyRefresh, type RefreshOutcome } from "./lcscRefresh"
+import {
+  buildBom,
+  buildLabel,
+  createBuildRecord,
+  projectFromFileName,
+  type BuildDetails,
+  type BuildRecord,
+} from "./builds"
+import {
+  reservationShortages,
+  reservedQuantities,
+  reserveBom,
+  type Reservation,
+} from "./reservations"
+import { parseLcscOrder, type ParsedOrder } from "./lcscOrder"
+import { formatThresholds, isBelowMinimum, parseThresholds } from "./reorder"
+import { applyResolutions, threeWayMerge, type ConflictChoice, type MergeResult } from "./merge"
+import ApplyBuildDialog from "./ApplyBuildDialog"
+import BuildsPage from "./BuildsPage"
+import BomLibraryDialog from "./BomLibraryDialog"
+import { bomTotals, revisionBom, revisionLabel, type BomLine, type BomRevision } from "./bomLibrary"
+import BomImportDialog from "./BomImportDialog"
+import {
+  CATEGORY_LABELS,
+  facetCounts,
+  hasFacets,
+  NO_FACETS,
+  attributesOf,
+  type PartCategory,
+  type PartFacets,
+} from "./parametric"
+import { applyPartEdits, fieldLabel, type EditableField, type PartEdit } from "./partEdits"
+import { parseQuery } from "./query"
+import { saveView, toggleSort, viewRows, type SavedView, type SortField, type SortKey } from "./views"
+import { useCatalogRows } from "./useCatalogRows"
+import InventoryTable from "./InventoryTable"
+import InventoryImportDialog from "./InventoryImportDialog"
+import {
+  parseInventoryFile,
+  rememberMapping,
+  type InventoryColumnMapping,
+  type SavedImportMapping,
+} from "./inventoryImport"
+import { approveSubstitution, forgetSubstitution, type ApprovedSubstitution } from "./substitutes"
+import BomViewer from "./BomViewer"
+import CostDashboard from "./CostDashboard"
+import Dialog from "./Dialog"
+import LcscCartExport from "./LcscCartExport"
+import LocationEditor from "./LocationEditor"
+import MergeDialog from "./MergeDialog"
+import MergeFilesDialog, { type PickedFile } from "./MergeFilesDialog"
+import PartHistory from "./PartHistory"
+import PartPrices from "./PartPrices"
+import RefreshFromLcsc from "./RefreshFromLcsc"
+import ReceiveOrderDialog, { type ReceivedOrder } from "./ReceiveOrderDialog"
+import ReorderList from "./ReorderList"
+import ReservationsDialog from "./ReservationsDialog"
+import SubstitutesDialog, { type SubstitutionChoice } from "./SubstitutesDialog"
+import UndoHistoryPanel from "./UndoHistoryPanel"
+
+// How often to check the shared inventory for other people's changes.
+const SYNC_INTERVAL_MS = 30_000
+
+type SaveOptions = {
+  fileName?: string
+  // Already applied on the server (e.g. a build it computed), so don't push.
+  synced?: boolean
 }
 
-type AggregatedRow = RowData & {
-  priceHistory: { quantity: number; unitPrice: number }[]
-  totalCost: number
-  editedQuantity?: number
+// A merge waiting for the conflicts to be decided.
+type MergeReview = {
+  title: string
+  oursLabel: string
+  theirsLabel: string
+  result: MergeResult
+  // csv: the merged rows replace the inventory; tab: the rest is already in,
+  // only the conflicted parts are left to apply.
+  source: "csv" | "tab"
+  sourceFile?: string
 }
 
-const STORAGE_KEY = "lcsc-inventory-data"
-const FILENAME_KEY = "lcsc-inventory-filename"
-// Snapshot taken just before "Apply BOM", so the deduction can be undone.
-const BACKUP_KEY = "lcsc-inventory-backup"
-
 const MENU_ITEM = "block w-full px-4 py-2 text-left text-sm text-gray-200 hover:bg-gray-700"
 
 export default function InventoryApp() {
   const [data, setData] = useState<AggregatedRow[]>([])
+  const [ledger, setLedger] = useState<StockMovement[]>([])
   const [fileName, setFileName] = useState<string>("inventory.csv")
-  const [sortField, setSortField] = useState<keyof RowData | null>(null)
-  const [sortAsc, setSortAsc] = useState(true)
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([])
   const [searchQuery, setSearchQuery] = useState<string>("")
+  const [locationFilter, setLocationFilter] = useState<string>("")
+  const [partFacets, setPartFacets] = useState<PartFacets>(NO_FACETS)
+  const [savedViews, setSavedViews] = useState<SavedView[]>([])
+  const [editingLocationsFor, setEditingLocationsFor] = useState<string | null>(null)
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+  const [pricesFor, setPricesFor] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [bomErrorInfo, setBomErrorInfo] = useState<BOMErrorInfo[]>([])
   const [missingBomComp, setMissingBomComp] = useState<BOMErrorInfo[]>([])
   const [multiplier, setMultiplier] = useState<number>(1)
+  const [bomFileName, setBomFileName] = useState<string>("")
   const [saveIndicator, setSaveIndicator] = useState<string>("")
   const [hasUnappliedChanges, setHasUnappliedChanges] = useState<boolean>(false)
-  const [hasBackup, setHasBackup] = useState<boolean>(false)
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(emptyHistory)
+  const [showUndoHistory, setShowUndoHistory] = useState<boolean>(false)
+  const [showMergeFiles, setShowMergeFiles] = useState<boolean>(false)
+  const [showReorder, setShowReorder] = useState<boolean>(false)
+  const [showCartExport, setShowCartExport] = useState<boolean>(false)
+  const [showRefresh, setShowRefresh] = useState<boolean>(false)
+  const [showCostDashboard, setShowCostDashboard] = useState<boolean>(false)
+  const [showApplyBuild, setShowApplyBuild] = useState<boolean>(false)
+  const [showBuilds, setShowBuilds] = useState<boolean>(false)
+  const [showBomLibrary, setShowBomLibrary] = useState<boolean>(false)
+  const [showBomViewer, setShowBomViewer] = useState<boolean>(false)
+  const [bomImport, setBomImport] = useState<{ fileName: string; combining: boolean; csv: ParsedCsv } | null>(null)
+  const [inventoryImport, setInventoryImport] = useState<{ fileName: string; combining: boolean; csv: ParsedCsv } | null>(
+    null
+  )
+  const [importMappings, setImportMappings] = useState<SavedImportMapping[]>([])
+  const [bomLines, setBomLines] = useState<BomLine[]>([])
+  const [placedDesignators, setPlacedDesignators] = useState<string[]>([])
+  const [substitutions, setSubstitutions] = useState<ApprovedSubstitution[]>([])
+  const [showSubstitutes, setShowSubstitutes] = useState<boolean>(false)
+  const [reservations, setReservations] = useState<Reservation[]>([])
+  const [showReservations, setShowReservations] = useState<boolean>(false)
+  const [receivingOrder, setReceivingOrder] = useState<{ fileName: string; order: ParsedOrder } | null>(null)
+  const [mergeReview, setMergeReview] = useState<MergeReview | null>(null)
+  // The rows as this tab last read them from IndexedDB — the base when another
+  // tab's writes are merged in. Our own saves don't move it.
+  const storedRowsRef = useRef<AggregatedRow[]>([])
+  // Movements added since the last undo step; the next step owns them.
+  const stepMovementsRef = useRef<string[]>([])
+  const applyTabChangesRef = useRef<(stored: StoredInventory) => void>(() => {})
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("connecting")
+  const serverVersionRef = useRef<number>(0)
+  const pendingRef = useRef<PendingSync>(emptyPending)
+  const isSyncingRef = useRef<boolean>(false)
+  // Latest-render versions of the sync routines, for timers and awaits that
+  // outlive the render that started them.
+  const syncNowRef = useRef<() => void>(() => {})
+  const applyServerStateRef = useRef<(rows: AggregatedRow[], ledger: StockMovement[], version: number) => void>(
+    () => {}
+  )
+  const finishBuildRef = useRef<
+    (details: BuildDetails, lines: { lcscId: string; quantity: number }[], consumed: StockMovement[] | null) => void
+  >(() => {})
 
   // "Add by LCSC ID" dialog
   const [showMenu, setShowMenu] = useState<boolean>(false)
@@ -70,6 +223,7 @@ export default function InventoryApp() {
   const [addQuantity, setAddQuantity] = useState<string>("1")
   const [addUnitPrice, setAddUnitPrice] = useState<string>("0")
   const [isPriceEdited, setIsPriceEdited] = useState<boolean>(false)
+  const [addLocation, setAddLocation] = useState<string>("")
 
   useEffect(() => {
     loadFromStorage()
@@ -83,8 +237,10 @@ export default function InventoryApp() {
       })),
     ]
 
+    // Parts something is reserved for are checked with the reservations.
+    const reserved = reservedQuantities(reservations)
     data.forEach((row) => {
-      if ((row.editedQuantity || 0) > 0) {
+      if ((row.editedQuantity || 0) > 0 && !reserved.has(row.lcscId)) {
         const actualUsage = (row.editedQuantity || 0) * multiplier
 
         if (actualUsage > row.quantity) {
@@ -99,140 +255,436 @@ export default function InventoryApp() {
       }
     })
 
+    allErrors.push(...reservationShortages(data, reservations, (row) => (row.editedQuantity || 0) * multiplier))
+
     setBomErrorInfo(allErrors)
-  }, [multiplier, data, missingBomComp])
+  }, [multiplier, data, missingBomComp, reservations])
+
+  // Ctrl/⌘+Z and Ctrl/⌘+Shift+Z (or Ctrl+Y) step through the undo history,
+  // except while typing, where the input's own undo should win.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  })
+
+  useEffect(() => {
+    syncNowRef.current = syncNow
+    applyServerStateRef.current = applyServerState
+    applyTabChangesRef.current = applyTabChanges
+    finishBuildRef.current = finishBuild
+  })
+
+  useEffect(
+    () =>
+      onOtherTabChange(() => {
+        loadInventory()
+          .then((stored) => applyTabChangesRef.current(stored))
+          .catch((error) => console.error("Failed to read another tab's changes:", error))
+      }),
+    []
+  )
+
+  // Pull the shared inventory once the local copy is up, then keep polling,
+  // and catch up straight away when the tab regains focus.
+  useEffect(() => {
+    if (isLoading) return
+
+    syncNowRef.current()
+    const timer = setInterval(() => syncNowRef.current(), SYNC_INTERVAL_MS)
+    const onFocus = () => syncNowRef.current()
+    window.addEventListener("focus", onFocus)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener("focus", onFocus)
+    }
+  }, [isLoading])
 
   const runFromMenu = (action: () => void) => {
     setShowMenu(false)
     action()
   }
 
-  const loadFromStorage = () => {
+  const loadFromStorage = async () => {
     try {
-      const savedData = localStorage.getItem(STORAGE_KEY)
-      const savedFileName = localStorage.getItem(FILENAME_KEY)
-
-      if (savedData) {
-        const parsed = JSON.parse(savedData)
-        setData(parsed)
-        if (savedFileName) {
-          setFileName(savedFileName)
-        }
-        console.log(`Loaded ${parsed.length} parts from localStorage`)
+      const stored = await loadInventory()
+      const loadedData = applyLedger(stored.rows, stored.ledger)
+
+      setLedger(stored.ledger)
+      setData(loadedData)
+      storedRowsRef.current = stored.rows
+      setFileName(stored.fileName)
+      setBomFileName(stored.bomFileName)
+      setReservations(stored.reservations)
+      setPlacedDesignators(stored.placedDesignators)
+      setImportMappings(stored.importMappings)
+      setSubstitutions(stored.substitutions)
+      setSavedViews(stored.savedViews)
+      serverVersionRef.current = stored.serverVersion
+      pendingRef.current = stored.pendingSync
+      console.log(`Loaded ${loadedData.length} parts from IndexedDB`)
+
+      // The history always starts from a step holding what was loaded, so the
+      // first change after a fresh start can be undone too.
+      let history = stored.undoHistory
+      if (history.steps.length === 0) {
+        history = pushStep(emptyHistory, "Opened inventory", {
+          rows: [],
+          movementIds: [],
+          missingBomComp: [],
+          hasUnappliedChanges: false,
+          bomFileName: stored.bomFileName,
+          bomLines: [],
+        })
+        saveUndoHistory(history).catch((error) => console.error("Failed to save undo history:", error))
       }
-
-      // An undo snapshot survives reloads, so the button must come back too.
-      setHasBackup(localStorage.getItem(BACKUP_KEY) !== null)
+      setUndoHistory(history)
+
+      // The missing-part list isn't stored with the rows, but the step that
+      // produced the current state has it.
+      const current = history.steps[history.position]
+      const missing = current ? current.snapshot.missingBomComp : []
+      setMissingBomComp(missing)
+      setBomLines(current ? current.snapshot.bomLines : [])
+      setHasUnappliedChanges(missing.length > 0 || loadedData.some((row) => (row.editedQuantity || 0) > 0))
     } catch (error) {
-      console.error("Failed to load from localStorage:", error)
+      console.error("Failed to load inventory:", error)
+      alert(`Could not open the local inventory database.\n\n${error instanceof Error ? error.message : error}`)
     } finally {
       setIsLoading(false)
     }
   }
 
-  const saveToStorage = (newData: AggregatedRow[], newFileName?: string) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(newData))
-      if (newFileName) {
-        localStorage.setItem(FILENAME_KEY, newFileName)
-      }
-      console.log(`Saved ${newData.length} parts to localStorage`)
-      setSaveIndicator("Saved")
-      setTimeout(() => setSaveIndicator(""), 2000)
-    } catch (error) {
-      console.error("Failed to save to localStorage:", error)
-      alert("Failed to save data locally. Changes may be lost.")
+  // Writes only the rows that differ from the current state — one record per
+  // part — so editing a single BOM quantity doesn't rewrite the inventory.
+  // Shared changes then go to the server, or the queue if it's unreachable.
+  const saveToStorage = (
+    newData: AggregatedRow[],
+    { fileName: newFileName, synced = false }: SaveOptions = {},
+    movements: StockMovement[] = []
+  ) => {
+    const { changed, removedIds } = diffRows(data, newData)
+
+    if (!synced) {
+      queueSync({ rows: sharedChanges(data, changed), deleted: removedIds, movements })
     }
+
+    Promise.all([saveRows(changed, removedIds), newFileName ? saveMeta({ fileName: newFileName }) : undefined])
+      .then(() => {
+        console.log(`Saved ${changed.length} changed and ${removedIds.length} removed parts`)
+        if (changed.length > 0 || removedIds.length > 0) notifyOtherTabs()
+        setSaveIndicator("Saved")
+        setTimeout(() => setSaveIndicator(""), 2000)
+      })
+      .catch((error) => {
+        console.error("Failed to save inventory:", error)
+        alert("Failed to save data locally. Changes may be lost.")
+      })
   }
 
-  const clearStorage = () => {
-    if (window.confirm("Are you sure you want to clear all inventory data?")) {
-      localStorage.removeItem(STORAGE_KEY)
-      localStorage.removeItem(FILENAME_KEY)
-      localStorage.removeItem(BACKUP_KEY)
-      setData([])
-      setFileName("inventory.csv")
-      setHasBackup(false)
-      alert("All data cleared")
-    }
+  const saveBomFileName = (newBomFileName: string) => {
+    setBomFileName(newBomFileName)
+    saveMeta({ bomFileName: newBomFileName }).catch((error) => console.error("Failed to save BOM name:", error))
   }
 
-  // Restores the snapshot taken by the last "Apply BOM" and persists it, so
-  // undoing survives a reload the same way applying does.
-  const undoApply = () => {
-    const backup = localStorage.getItem(BACKUP_KEY)
-    if (!backup) {
-      alert("Nothing to undo — no BOM has been applied.")
-      return
+  // Every stock change goes through here: the movements are appended to the
+  // ledger and quantities re-derived from it, rather than written onto rows.
+  const commitMovements = (
+    rows: AggregatedRow[],
+    movements: StockMovement[],
+    options: SaveOptions = {}
+  ): AggregatedRow[] => {
+    const newLedger = [...ledger, ...movements]
+    const newData = applyLedger(rows, newLedger).map((row) => {
+      const locations = fitLocationsToQuantity(row.locations, row.quantity)
+      return locations === row.locations ? row : { ...row, locations }
+    })
+
+    setLedger(newLedger)
+    setData(newData)
+    stepMovementsRef.current = [...stepMovementsRef.current, ...movements.map((movement) => movement.id)]
+    appendMovements(movements).catch((error) => {
+      console.error("Failed to save stock ledger:", error)
+      alert("Failed to save the stock ledger locally. Changes may be lost.")
+    })
+    saveToStorage(newData, options, movements)
+    return newData
+  }
+
+  const savePending = (pending: PendingSync) => {
+    pendingRef.current = pending
+    saveMeta({ pendingSync: pending }).catch((error) => console.error("Failed to save sync queue:", error))
+  }
+
+  const queueSync = (changes: PendingSync) => {
+    if (syncStatus === "local" || isPendingEmpty(changes)) return
+
+    savePending(queueChanges(pendingRef.current, changes))
+    // While still connecting, the first sync pushes the queue itself.
+    if (syncStatus !== "connecting") {
+      flushPending()
+        .then(() => setSyncStatus("synced"))
+        .catch((error) => {
+          console.warn("Inventory server unreachable, change queued:", error)
+          setSyncStatus("offline")
+        })
     }
+  }
 
-    if (!window.confirm("Undo the last Apply BOM? Quantities go back to what they were before it.")) {
-      return
+  // The server's version goes up by one per write. If our push moved it by
+  // more, someone else wrote in between, so leave the version stale and pull.
+  const acceptServerVersion = (version: number) => {
+    if (version === serverVersionRef.current + 1) {
+      serverVersionRef.current = version
+      saveMeta({ serverVersion: version }).catch((error) => console.error("Failed to save server version:", error))
+    } else {
+      syncNowRef.current()
     }
+  }
+
+  const flushPending = async () => {
+    const pending = pendingRef.current
+    if (isPendingEmpty(pending)) return
+
+    const result = await pushChanges(pending)
+    // Anything queued meanwhile already includes `pending`; pushing it again
+    // is harmless since the server ignores movements it has seen.
+    if (pendingRef.current === pending) savePending(emptyPending)
+    acceptServerVersion(result.version)
+  }
+
+  const syncNow = async () => {
+    if (isSyncingRef.current) return
+    isSyncingRef.current = true
 
     try {
-      const restored: AggregatedRow[] = JSON.parse(backup)
-      setData(restored)
-      saveToStorage(restored)
-      localStorage.removeItem(BACKUP_KEY)
-      setHasBackup(false)
-      setHasUnappliedChanges(false)
-      setMissingBomComp([])
-      setSaveIndicator("Apply BOM Undone")
-      setTimeout(() => setSaveIndicator(""), 2000)
+      let server = await fetchServerInventory()
+      if (!server) {
+        setSyncStatus("local")
+        savePending(emptyPending)
+        return
+      }
+
+      if (!isPendingEmpty(pendingRef.current)) {
+        await flushPending()
+        server = (await fetchServerInventory()) || server
+      }
+
+      if (server.version === 0 && data.length > 0) {
+        // First contact with an empty server: it starts from this copy.
+        const seeded = await pushChanges({ rows: data, deleted: [], movements: ledger })
+        serverVersionRef.current = seeded.version
+        saveMeta({ serverVersion: seeded.version }).catch((error) => console.error("Failed to save server version:", error))
+      } else if (server.version !== serverVersionRef.current) {
+        const serverLedger = await fetchServerLedger()
+        applyServerStateRef.current(server.rows, serverLedger, server.version)
+      }
+      setSyncStatus("synced")
     } catch (error) {
-      console.error("Failed to restore backup:", error)
-      alert("Could not restore the backup.")
+      console.warn("Inventory server unreachable, working offline:", error)
+      setSyncStatus("offline")
+    } finally {
+      isSyncingRef.current = false
     }
   }
 
-  // Column names vary by exporter — KiCad and EasyEDA write "LCSC Part #" and
-  // "Quantity", this app's own export writes "LCSC Part" and "Qty". Match on
-  // any of the known spellings, case-insensitively, and tolerate the UTF-8 BOM
-  // that lands on the first header of a KiCad/Excel export.
-  const pickColumn = (row: Record<string, unknown>, ...names: string[]): string => {
-    const normalize = (key: string) => key.replace(/^\uFEFF/, "").trim().toLowerCase()
-
-    for (const name of names) {
-      const key = Object.keys(row).find((k) => normalize(k) === name.toLowerCase())
-      if (key && row[key] != null && String(row[key]).trim() !== "") {
-        return String(row[key]).trim()
-      }
+  // The server's copy replaces the local one (keeping this browser's BOM
+  // scratch column). What others changed becomes an undo step, so it shows up
+  // in Edit History like everything else.
+  const applyServerState = (serverRows: AggregatedRow[], serverLedger: StockMovement[], version: number) => {
+    const merged = mergeServerRows(serverRows, data)
+    const serverIds = new Set(merged.map((row) => row.lcscId))
+    const changedSomething =
+      serverLedger.length !== ledger.length ||
+      sharedChanges(data, merged).length > 0 ||
+      data.some((row) => !serverIds.has(row.lcscId))
+
+    serverVersionRef.current = version
+    setData(merged)
+    setLedger(serverLedger)
+    storedRowsRef.current = merged
+    Promise.all([replaceInventory(merged, serverLedger), saveMeta({ serverVersion: version })])
+      .then(notifyOtherTabs)
+      .catch((error) => console.error("Failed to store the shared inventory locally:", error))
+
+    if (changedSomething) {
+      const knownIds = new Set(ledger.map((movement) => movement.id))
+      stepMovementsRef.current = serverLedger.filter((movement) => !knownIds.has(movement.id)).map((movement) => movement.id)
+      recordStep("Changes from the shared inventory", { data: merged })
     }
-    return ""
   }
 
-  const transformRow = (csvRow: any): RowData => {
-    return {
-      lcscId: pickColumn(csvRow, "LCSC Part Number", "LCSC Part #", "LCSC Part", "LCSC"),
-      manufactureId: pickColumn(csvRow, "Manufacture Part Number", "Manufacturer Part Number", "MPN"),
-      manufacturer: pickColumn(csvRow, "Manufacturer", "Mfr"),
-      package: pickColumn(csvRow, "Package", "Footprint"),
-      quantity: parseInt(pickColumn(csvRow, "Quantity", "Qty")) || 0,
-      description: pickColumn(csvRow, "Description", "Value"),
-      unitPrice: parseFloat(pickColumn(csvRow, "Unit Price($)", "Unit Price")) || 0,
+  // Another tab wrote to IndexedDB. Its new ledger movements are added to ours
+  // (so quantities simply follow), and its row edits are merged three ways
+  // against what this tab last read, so neither tab's edits overwrite the
+  // other's. Parts both tabs edited go to the merge dialog and stay out of
+  // IndexedDB until decided.
+  const applyTabChanges = (stored: StoredInventory) => {
+    // Reservations are saved as one list, so the latest save simply wins.
+    setReservations(stored.reservations)
+    setPlacedDesignators(stored.placedDesignators)
+    setImportMappings(stored.importMappings)
+    setSubstitutions(stored.substitutions)
+    setSavedViews(stored.savedViews)
+
+    const knownIds = new Set(ledger.map((movement) => movement.id))
+    const newMovements = stored.ledger.filter((movement) => !knownIds.has(movement.id))
+    const mergedLedger = newMovements.length > 0 ? [...ledger, ...newMovements] : ledger
+
+    const theirs = applyLedger(stored.rows, mergedLedger)
+    const result = threeWayMerge(applyLedger(storedRowsRef.current, mergedLedger), applyLedger(data, mergedLedger), theirs)
+    const conflictIds = new Set(result.conflicts.map((conflict) => conflict.lcscId))
+    const resolved = result.rows.filter((row) => !conflictIds.has(row.lcscId))
+
+    // Write back whatever of ours the other tab's rows were missing.
+    const theirsById = new Map(theirs.map((row) => [row.lcscId, row]))
+    const resolvedIds = new Set(resolved.map((row) => row.lcscId))
+    const toWrite = resolved.filter((row) => {
+      const storedRow = theirsById.get(row.lcscId)
+      return !storedRow || sharedChanges([storedRow], [row]).length > 0
+    })
+    const toDelete = theirs.map((row) => row.lcscId).filter((id) => !resolvedIds.has(id) && !conflictIds.has(id))
+    storedRowsRef.current = [...resolved, ...theirs.filter((row) => conflictIds.has(row.lcscId))]
+
+    saveRows(toWrite, toDelete)
+      .then(() => (toWrite.length > 0 || toDelete.length > 0) && notifyOtherTabs())
+      .catch((error) => console.error("Failed to save merged tab changes:", error))
+
+    const tookChanges = newMovements.length > 0 || result.fromTheirs.length > 0 || result.removed.length > 0
+    if (tookChanges) {
+      setLedger(mergedLedger)
+      setData(result.rows)
+      stepMovementsRef.current = newMovements.map((movement) => movement.id)
+      recordStep("Changes from another tab", { data: result.rows })
+    }
+    if (result.conflicts.length > 0) {
+      setMergeReview({
+        title: "Another tab edited the same parts",
+        oursLabel: "This tab",
+        theirsLabel: "Other tab",
+        result,
+        source: "tab",
+      })
     }
   }
 
-  const transformBOM = (row: any): BOMData => {
-    return {
-      lcscId: pickColumn(row, "LCSC Part", "LCSC Part #", "LCSC Part Number", "LCSC"),
-      // Only used to label warnings, so fall back to whatever names the line.
-      manufactureId: pickColumn(
-        row,
-        "Manfufacture ID",
-        "Manufacture ID",
-        "Manufacturer Part Number",
-        "Manufacture Part Number",
-        "Value",
-        "Comment",
-        "Designator"
-      ),
-      quantity: parseInt(pickColumn(row, "Qty", "Quantity")) || 0,
+  const updateUndoHistory = (history: UndoHistory) => {
+    setUndoHistory(history)
+    saveUndoHistory(history).catch((error) => console.error("Failed to save undo history:", error))
+  }
+
+  // Called by every mutation with whatever it changed; the rest of the state
+  // is as it is now. Of the rows, the step keeps only those that differ from
+  // `data`, which is still the state from before the mutation.
+  const recordStep = (label: string, changes: Partial<UndoState>) => {
+    const { data: newData = data, ...rest } = changes
+    const movementIds = stepMovementsRef.current
+    stepMovementsRef.current = []
+    updateUndoHistory(
+      pushStep(undoHistory, label, {
+        rows: rowChanges(data, newData),
+        movementIds,
+        missingBomComp,
+        hasUnappliedChanges,
+        bomFileName,
+        bomLines,
+        ...rest,
+      })
+    )
+  }
+
+  // Puts the app back to how it was right after step `index`. Stock goes back
+  // by reversing the movements of the steps in between, so the ledger stays
+  // append-only and undone builds return their stock at what it cost.
+  const jumpToStep = (index: number) => {
+    const step = undoHistory.steps[index]
+    if (!step || index === undoHistory.position) return
+
+    const undoing = index < undoHistory.position
+    const reason = undoing ? `Undo back to "${step.label}"` : `Redo "${step.label}"`
+    const { snapshot } = step
+    const rows = rowsAtStep(undoHistory, data, index)
+
+    commitMovements(rows, reversalsOf(ledger, movementsToStep(undoHistory, index), undoing, reason))
+    // The reversals belong to the steps they undo, not to the next one.
+    stepMovementsRef.current = []
+    setMissingBomComp(snapshot.missingBomComp)
+    setHasUnappliedChanges(snapshot.hasUnappliedChanges)
+    setBomLines(snapshot.bomLines)
+    saveBomFileName(snapshot.bomFileName)
+    updateUndoHistory({ ...undoHistory, position: index })
+    setSaveIndicator(reason)
+    setTimeout(() => setSaveIndicator(""), 2000)
+  }
+
+  const undo = () => {
+    if (canUndo(undoHistory)) jumpToStep(undoHistory.position - 1)
+  }
+
+  const redo = () => {
+    if (canRedo(undoHistory)) jumpToStep(undoHistory.position + 1)
+  }
+
+  const clearStorage = async () => {
+    const sharedNote =
+      syncStatus === "local" ? "" : "\n\nOnly this browser's copy is cleared; the shared inventory reloads from the server."
+    if (!window.confirm(`Are you sure you want to clear all inventory data?\n\nThe stock ledger and undo history go too.${sharedNote}`)) {
+      return
+    }
+
+    try {
+      await clearInventory()
+    } catch (error) {
+      console.error("Failed to clear inventory:", error)
+      alert("Could not clear the local inventory database.")
+      return
     }
+
+    setData([])
+    setLedger([])
+    setBomFileName("")
+    setMissingBomComp([])
+    setHasUnappliedChanges(false)
+    setReservations([])
+    setBomLines([])
+    setPlacedDesignators([])
+    setImportMappings([])
+    setSubstitutions([])
+    setSavedViews([])
+    setFileName("inventory.csv")
+    storedRowsRef.current = []
+    serverVersionRef.current = 0
+    savePending(emptyPending)
+    updateUndoHistory(
+      pushStep(emptyHistory, "Cleared all data", {
+        rows: [],
+        movementIds: [],
+        missingBomComp: [],
+        hasUnappliedChanges: false,
+        bomFileName: "",
+        bomLines: [],
+      })
+    )
+    notifyOtherTabs()
+    alert("All data cleared")
+    if (syncStatus !== "local") syncNowRef.current()
   }
 
-  const aggregateByLcscId = (rows: RowData[]): AggregatedRow[] => {
+  const aggregateByLcscId = (rows: (RowData & ReorderThresholds)[]): AggregatedRow[] => {
     const grouped = new Map<string, AggregatedRow>()
 
     rows.forEach((row) => {
@@ -245,6 +697,9 @@ export default function InventoryApp() {
         existing.quantity = totalQuantity
         existing.unitPrice = totalCost / totalQuantity
         existing.totalCost = totalCost
+        existing.locations = mergeLocations(existing.locations, row.locations)
+        existing.minQuantity = existing.minQuantity || row.minQuantity
+        existing.targetQuantity = existing.targetQuantity || row.targetQuantity
         existing.priceHistory.push({
           quantity: row.quantity,
           unitPrice: row.unitPrice,
@@ -263,158 +718,237 @@ export default function InventoryApp() {
   }
 
   const pickAndLoadCSV = async (combining: boolean = false, isBOMFile: boolean = false) => {
+    // Without inventory there is nothing to match a BOM against.
+    if (isBOMFile && data.length === 0) {
+      alert("Import your inventory CSV first.\n\nA BOM is matched against parts already in inventory.")
+      return
+    }
+
     const input = document.createElement("input")
     input.type = "file"
-    input.accept = ".csv"
-    input.onchange = async (e: any) => {
-      const file = e.target.files[0]
+    input.accept = ".csv,.tsv,.txt"
+    input.onchange = async () => {
+      const file = input.files?.[0]
       if (!file) return
 
-      const text = await file.text()
-      parseCSV(text, combining, isBOMFile, file.name)
+      const csv = readCsv(await readCsvFile(file))
+      if (isBOMFile) {
+        setBomImport({ fileName: file.name, combining, csv })
+      } else {
+        setInventoryImport({ fileName: file.name, combining, csv })
+      }
     }
     input.click()
   }
 
-  const parseCSV = (
-    content: string,
-    combining: boolean = false,
-    isBOMFile: boolean = false,
-    newFileName?: string
-  ) => {
-    Papa.parse(content, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        if (isBOMFile) {
-          // Without inventory there is nothing to match against, and the rows
-          // would otherwise fall through and be parsed as an inventory CSV.
-          if (data.length === 0) {
-            alert("Import your inventory CSV first.\n\nA BOM is matched against parts already in inventory.")
-            return
+  // Rows as mapped by InventoryImportDialog: a full import replaces the
+  // inventory, combining adds to it.
+  const importInventoryRows = (rows: (RowData & ReorderThresholds)[], combining: boolean, newFileName: string) => {
+    const aggregated = aggregateByLcscId(rows)
+
+    if (combining && data.length > 0) {
+      const combined = [...data]
+      aggregated.forEach((newRow) => {
+        const existingIndex = combined.findIndex((d) => d.lcscId === newRow.lcscId)
+        if (existingIndex !== -1) {
+          const existing = combined[existingIndex]
+          const totalQuantity = existing.quantity + newRow.quantity
+          const totalCost = existing.totalCost + newRow.totalCost
+
+          combined[existingIndex] = {
+            ...existing,
+            quantity: totalQuantity,
+            unitPrice: totalCost / totalQuantity,
+            totalCost: totalCost,
+            priceHistory: [...existing.priceHistory, ...newRow.priceHistory],
+            locations: mergeLocations(existing.locations, newRow.locations),
           }
-
-          const allBOMrows = results.data.map(transformBOM)
-
-          // Lines with no LCSC part number are normal — test points, DNP parts,
-          // anything not sourced yet. Skip them instead of reporting each as a
-          // missing component, but say how many were skipped.
-          const usableRows = allBOMrows.filter((row) => row.lcscId !== "")
-          const skippedCount = allBOMrows.length - usableRows.length
-
-          // One part usually spans several designator lines (J4, "J5, J9", J6…
-          // are all the same 4P connector). Sum them up front — assigning line
-          // by line would let the last line overwrite the earlier ones.
-          const totalsByPart = new Map<string, BOMData>()
-          usableRows.forEach((row) => {
-            const existing = totalsByPart.get(row.lcscId)
-            if (existing) {
-              existing.quantity += row.quantity
-            } else {
-              totalsByPart.set(row.lcscId, { ...row })
-            }
+        } else {
+          combined.push(newRow)
+        }
+      })
+      const received = aggregated
+        .filter((row) => row.quantity > 0)
+        .map((row) =>
+          createMovement(row.lcscId, "receive", row.quantity, {
+            reason: "Combined inventory CSV",
+            sourceFile: newFileName,
+            unitPrice: row.unitPrice,
           })
-          const BOMdata = Array.from(totalsByPart.values())
-          const totalBomQuantity = BOMdata.reduce((sum, row) => sum + row.quantity, 0)
-
-          if (BOMdata.length === 0) {
-            alert(
-              `No LCSC part numbers found in this file.\n\nExpected a column named "LCSC Part", "LCSC Part #" or "LCSC Part Number", and a quantity column named "Qty" or "Quantity".`
-            )
-            return
-          }
+        )
+      const combinedData = commitMovements(combined, received, { fileName: newFileName })
+      recordStep(`Combined ${newFileName} (${aggregated.length} parts)`, {
+        data: combinedData,
+      })
+      alert(`Combined successfully!\n\nAdded ${aggregated.length} parts.\nNew total: ${combined.length} unique parts.`)
+    } else {
+      // A full import is a recount: each part moves to the file's figure.
+      const importedData = commitMovements(
+        aggregated,
+        movementsBetween(data, aggregated, { reason: "Imported inventory CSV", sourceFile: newFileName }),
+        { fileName: newFileName }
+      )
+      recordStep(`Imported ${newFileName} (${aggregated.length} parts)`, {
+        data: importedData,
+      })
+      setFileName(newFileName)
+      alert(`Loaded successfully!\n\nImported ${rows.length} rows.\nAggregated to ${aggregated.length} unique parts.`)
+    }
+  }
 
-          const newData = data.map((item) => ({ ...item }))
-          const newMissingComponents: BOMErrorInfo[] = []
-
-          for (let i = 0; i < BOMdata.length; i++) {
-            const index = newData.findIndex((d) => d.lcscId === BOMdata[i].lcscId)
-            if (index === -1) {
-              newMissingComponents.push({
-                lcscId: BOMdata[i].lcscId,
-                manufactureId: BOMdata[i].manufactureId,
-                quantity: BOMdata[i].quantity,
-                reason: "",
-              })
-            } else {
-              if (combining) {
-                newData[index].editedQuantity = (newData[index].editedQuantity || 0) + BOMdata[i].quantity
-              } else {
-                newData[index].editedQuantity = BOMdata[i].quantity
-              }
-            }
-          }
+  // A BOM file's lines, as read by BomImportDialog, go into the scratch column
+  // summed per part; the lines themselves are kept for the BOM viewer.
+  const loadBomFile = (fileLines: BomLine[], combining: boolean, newFileName: string) => {
+    // Lines with no LCSC part number are normal — test points, DNP parts,
+    // anything not sourced yet. Skip them instead of reporting each as a
+    // missing component, but say how many were skipped.
+    const usableLines = fileLines.filter((line) => line.lcscId !== "")
+    const skippedCount = fileLines.length - usableLines.length
+
+    // One part usually spans several designator lines (J4, "J5, J9", J6…
+    // are all the same 4P connector). Sum them up front — assigning line
+    // by line would let the last line overwrite the earlier ones.
+    const BOMdata = bomTotals(usableLines)
+    const totalBomQuantity = BOMdata.reduce((sum, row) => sum + row.quantity, 0)
+
+    const newData = data.map((item) => ({ ...item }))
+    const newMissingComponents: BOMErrorInfo[] = []
+
+    for (let i = 0; i < BOMdata.length; i++) {
+      const index = newData.findIndex((d) => d.lcscId === BOMdata[i].lcscId)
+      if (index === -1) {
+        newMissingComponents.push({
+          lcscId: BOMdata[i].lcscId,
+          manufactureId: BOMdata[i].manufactureId,
+          quantity: BOMdata[i].quantity,
+          reason: "",
+        })
+      } else {
+        if (combining) {
+          newData[index].editedQuantity = (newData[index].editedQuantity || 0) + BOMdata[i].quantity
+        } else {
+          newData[index].editedQuantity = BOMdata[i].quantity
+        }
+      }
+    }
 
-          setData(newData)
-
-          if (combining) {
-            const combinedMissing = [...missingBomComp]
-
-            newMissingComponents.forEach((newComp) => {
-              const existingIndex = combinedMissing.findIndex((c) => c.lcscId === newComp.lcscId)
-              if (existingIndex >= 0) {
-                combinedMissing[existingIndex].quantity =
-                  (combinedMissing[existingIndex].quantity || 0) + (newComp.quantity || 0)
-              } else {
-                combinedMissing.push(newComp)
-              }
-            })
-
-            setMissingBomComp(combinedMissing)
-            setHasUnappliedChanges(true)
-
-            alert(
-              `BOM Combined!\n\nAdded ${usableRows.length} lines (${BOMdata.length} unique parts, ${totalBomQuantity} pcs) to existing BOM requirements.${skippedCount > 0 ? `\nSkipped ${skippedCount} lines with no LCSC part number.` : ""}${newMissingComponents.length > 0 ? `\n\nWarning: ${newMissingComponents.length} parts not found in inventory` : ""}`
-            )
-          } else {
-            setMissingBomComp(newMissingComponents)
-            setHasUnappliedChanges(true)
-            alert(
-              `BOM Loaded!\n\nProcessed ${usableRows.length} lines (${BOMdata.length} unique parts, ${totalBomQuantity} pcs).${skippedCount > 0 ? `\nSkipped ${skippedCount} lines with no LCSC part number.` : ""}${newMissingComponents.length > 0 ? `\n\nWarning: ${newMissingComponents.length} parts not found in inventory` : ""}`
-            )
-          }
+    setData(newData)
+
+    // Designators, values and footprints for the BOM viewer and pick list.
+    const newBomLines = combining ? [...bomLines, ...fileLines] : fileLines
+    setBomLines(newBomLines)
+    if (!combining) savePlacedDesignators([])
 
-          saveToStorage(newData, newFileName)
+    const newBomFileName = combining && bomFileName ? `${bomFileName} + ${newFileName}` : newFileName
+    saveBomFileName(newBomFileName)
+
+    if (combining) {
+      const combinedMissing = [...missingBomComp]
+
+      newMissingComponents.forEach((newComp) => {
+        const existingIndex = combinedMissing.findIndex((c) => c.lcscId === newComp.lcscId)
+        if (existingIndex >= 0) {
+          combinedMissing[existingIndex].quantity =
+            (combinedMissing[existingIndex].quantity || 0) + (newComp.quantity || 0)
         } else {
-          const rows = results.data.map(transformRow)
-          const aggregated = aggregateByLcscId(rows)
-
-          if (combining && data.length > 0) {
-            const combined = [...data]
-            aggregated.forEach((newRow) => {
-              const existingIndex = combined.findIndex((d) => d.lcscId === newRow.lcscId)
-              if (existingIndex !== -1) {
-                const existing = combined[existingIndex]
-                const totalQuantity = existing.quantity + newRow.quantity
-                const totalCost = existing.totalCost + newRow.totalCost
-
-                combined[existingIndex] = {
-                  ...existing,
-                  quantity: totalQuantity,
-                  unitPrice: totalCost / totalQuantity,
-                  totalCost: totalCost,
-                  priceHistory: [...existing.priceHistory, ...newRow.priceHistory],
-                }
-              } else {
-                combined.push(newRow)
-              }
-            })
-            setData(combined)
-            setHasBackup(false)
-            saveToStorage(combined, newFileName)
-            alert(`Combined successfully!\n\nAdded ${aggregated.length} parts.\nNew total: ${combined.length} unique parts.`)
-          } else {
-            setData(aggregated)
-            setHasBackup(false)
-            saveToStorage(aggregated, newFileName)
-            if (newFileName) setFileName(newFileName)
-            alert(`Loaded successfully!\n\nImported ${rows.length} rows.\nAggregated to ${aggregated.length} unique parts.`)
-          }
+          combinedMissing.push(newComp)
         }
-      },
+      })
+
+      setMissingBomComp(combinedMissing)
+      setHasUnappliedChanges(true)
+      recordStep(`Combined BOM ${newFileName} (${BOMdata.length} parts)`, {
+        data: newData,
+        missingBomComp: combinedMissing,
+        hasUnappliedChanges: true,
+        bomFileName: newBomFileName,
+        bomLines: newBomLines,
+      })
+
+      alert(
+        `BOM Combined!\n\nAdded ${usableLines.length} lines (${BOMdata.length} unique parts, ${totalBomQuantity} pcs) to existing BOM requirements.${skippedCount > 0 ? `\nSkipped ${skippedCount} lines with no LCSC part number.` : ""}${newMissingComponents.length > 0 ? `\n\nWarning: ${newMissingComponents.length} parts not found in inventory` : ""}`
+      )
+    } else {
+      setMissingBomComp(newMissingComponents)
+      setHasUnappliedChanges(true)
+      recordStep(`Loaded BOM ${newFileName} (${BOMdata.length} parts)`, {
+        data: newData,
+        missingBomComp: newMissingComponents,
+        hasUnappliedChanges: true,
+        bomFileName: newBomFileName,
+        bomLines: newBomLines,
+      })
+      alert(
+        `BOM Loaded!\n\nProcessed ${usableLines.length} lines (${BOMdata.length} unique parts, ${totalBomQuantity} pcs).${skippedCount > 0 ? `\nSkipped ${skippedCount} lines with no LCSC part number.` : ""}${newMissingComponents.length > 0 ? `\n\nWarning: ${newMissingComponents.length} parts not found in inventory` : ""}`
+      )
+    }
+
+    saveToStorage(newData, { fileName: newFileName })
+  }
+
+  const importMapped = (
+    rows: (RowData & ReorderThresholds)[],
+    mapping: InventoryColumnMapping,
+    remember: boolean
+  ) => {
+    if (!inventoryImport) return
+    const { fileName: sourceFile, combining, csv } = inventoryImport
+    setInventoryImport(null)
+    if (remember) {
+      const mappings = rememberMapping(importMappings, csv.headers, sourceFile, mapping)
+      setImportMappings(mappings)
+      saveMeta({ importMappings: mappings })
+        .then(notifyOtherTabs)
+        .catch((error) => console.error("Failed to save the import mapping:", error))
+    }
+    importInventoryRows(rows, combining, sourceFile)
+  }
+
+  const parseInventoryCSV = (content: string): AggregatedRow[] =>
+    aggregateByLcscId(parseInventoryFile(readCsv(content)).rows)
+
+  const mergeCSVFiles = (base: PickedFile, other: PickedFile) => {
+    const baseRows = parseInventoryCSV(base.text)
+    const otherRows = parseInventoryCSV(other.text)
+    if (otherRows.length === 0) {
+      alert(`No inventory rows found in ${other.name}`)
+      return
+    }
+
+    // The export leaves out parts at zero stock, so a part missing from the
+    // other copy was used up there, not deleted.
+    const otherIds = new Set(otherRows.map((row) => row.lcscId))
+    const usedUp = baseRows.filter((row) => !otherIds.has(row.lcscId)).map((row) => ({ ...row, quantity: 0, totalCost: 0 }))
+
+    setShowMergeFiles(false)
+    setMergeReview({
+      title: `Merge ${other.name} (base: ${base.name})`,
+      oursLabel: "This inventory",
+      theirsLabel: other.name,
+      result: threeWayMerge(baseRows, data, [...otherRows, ...usedUp]),
+      source: "csv",
+      sourceFile: other.name,
     })
   }
 
+  const applyMerge = (choices: Record<string, ConflictChoice>) => {
+    if (!mergeReview) return
+    const { result, source, sourceFile } = mergeReview
+    setMergeReview(null)
+
+    // A tab merge already applied everything but the conflicts, and the
+    // inventory may have moved on since.
+    const mergedData = applyResolutions(source === "csv" ? result.rows : data, result.conflicts, choices)
+    const reason = source === "csv" ? "Merged inventory CSV" : "Resolved edits from another tab"
+    const committed = commitMovements(mergedData, movementsBetween(data, mergedData, { reason, sourceFile }))
+
+    const label =
+      source === "csv"
+        ? `Merged ${sourceFile} (${result.fromTheirs.length} parts from there, ${result.conflicts.length} conflicts)`
+        : `Resolved ${result.conflicts.length} conflicting edits from another tab`
+    recordStep(label, { data: committed })
+  }
+
   const exportToCSV = () => {
     if (data.length === 0) {
       alert("No data to export")
@@ -438,6 +972,9 @@ export default function InventoryApp() {
       "Quantity",
       "Description",
       "Unit Price($)",
+      "Location",
+      "Min Qty",
+      "Target Qty",
     ]
 
     const csvRows = [headers.join(",")]
@@ -451,6 +988,9 @@ export default function InventoryApp() {
         row.quantity,
         escapeCSV(row.description),
         row.unitPrice.toFixed(4),
+        escapeCSV(formatLocations(row.locations)),
+        row.minQuantity || "",
+        row.targetQuantity || "",
       ]
       csvRows.push(values.join(","))
     })
@@ -475,6 +1015,7 @@ export default function InventoryApp() {
     setAddQuantity("1")
     setAddUnitPrice("0")
     setIsPriceEdited(false)
+    setAddLocation("")
   }
 
   const lookupLcscPart = async () => {
@@ -513,6 +1054,88 @@ export default function InventoryApp() {
     }
   }
 
+  const pickLcscOrder = () => {
+    const input = document.createElement("input")
+    input.type = "file"
+    input.accept = ".csv"
+    input.onchange = async () => {
+      const file = input.files?.[0]
+      if (!file) return
+
+      const order = parseLcscOrder(await file.text(), file.name)
+      if (order.lines.length === 0) {
+        alert(`No LCSC parts found in ${file.name}.\n\nExpected LCSC's order-detail export, with "LCSC Part Number" and "Order Qty." columns.`)
+        return
+      }
+      setReceivingOrder({ fileName: file.name, order })
+    }
+    input.click()
+  }
+
+  // Like Combine CSV, but each purchase is tagged with its order, and the
+  // catalogue fields of parts already stocked are only filled in, not replaced.
+  const receiveOrder = ({ orderNumber, date, lines }: ReceivedOrder) => {
+    if (!receivingOrder) return
+    const sourceFile = receivingOrder.fileName
+    const purchase = { ...(orderNumber ? { orderNumber } : {}), ...(date ? { date } : {}) }
+
+    const newData = [...data]
+    for (const line of lines) {
+      const entry = { quantity: line.quantity, unitPrice: line.unitPrice, ...purchase }
+      const existingIndex = newData.findIndex((d) => d.lcscId === line.lcscId)
+
+      if (existingIndex === -1) {
+        newData.push({
+          lcscId: line.lcscId,
+          manufactureId: line.manufactureId,
+          manufacturer: line.manufacturer,
+          package: line.package,
+          description: line.description,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          priceHistory: [entry],
+          totalCost: line.extendedPrice,
+          editedQuantity: 0,
+          locations: [],
+        })
+      } else {
+        const existing = newData[existingIndex]
+        const totalQuantity = existing.quantity + line.quantity
+        const totalCost = existing.totalCost + line.extendedPrice
+
+        newData[existingIndex] = {
+          ...existing,
+          manufactureId: existing.manufactureId || line.manufactureId,
+          manufacturer: existing.manufacturer || line.manufacturer,
+          package: existing.package || line.package,
+          description: existing.description || line.description,
+          quantity: totalQuantity,
+          unitPrice: totalQuantity > 0 ? totalCost / totalQuantity : line.unitPrice,
+          totalCost,
+          priceHistory: [...existing.priceHistory, entry],
+        }
+      }
+    }
+
+    const reason = orderNumber ? `LCSC order ${orderNumber}` : "LCSC order"
+    const receivedData = commitMovements(
+      newData,
+      lines.map((line) => createMovement(line.lcscId, "receive", line.quantity, { reason, sourceFile, unitPrice: line.unitPrice }))
+    )
+    const totalPcs = lines.reduce((sum, line) => sum + line.quantity, 0)
+    recordStep(`Received ${reason} (${lines.length} parts, ${totalPcs} pcs)`, { data: receivedData })
+    setReceivingOrder(null)
+    alert(`Received ${reason}.\n\n${lines.length} parts, ${totalPcs} pcs added to inventory.`)
+  }
+
+  const applyLcscRefresh = (outcome: RefreshOutcome) => {
+    const newData = applyRefresh(data, outcome.found, new Date().toISOString())
+    setData(newData)
+    saveToStorage(newData)
+    recordStep(`Refreshed ${outcome.found.size} parts from LCSC`, { data: newData })
+    setShowRefresh(false)
+  }
+
   const addLcscPartToInventory = () => {
     if (!lcscPart) return
 
@@ -523,6 +1146,11 @@ export default function InventoryApp() {
       setLookupError("Quantity must be at least 1")
       return
     }
+    const locationError = locationPathError(addLocation)
+    if (locationError) {
+      setLookupError(locationError)
+      return
+    }
 
     const existingIndex = data.findIndex((d) => d.lcscId === lcscPart.lcscId)
     const newData = [...data]
@@ -536,9 +1164,10 @@ export default function InventoryApp() {
         description: lcscPart.description,
         quantity,
         unitPrice,
-        priceHistory: [{ quantity, unitPrice }],
+        priceHistory: [{ quantity, unitPrice, date: Moment().format("YYYY-MM-DD") }],
         totalCost: quantity * unitPrice,
         editedQuantity: 0,
+        locations: addToLocation([], addLocation, quantity),
       })
     } else {
       const existing = newData[existingIndex]
@@ -554,19 +1183,21 @@ export default function InventoryApp() {
         quantity: totalQuantity,
         unitPrice: totalQuantity > 0 ? totalCost / totalQuantity : unitPrice,
         totalCost,
-        priceHistory: [...existing.priceHistory, { quantity, unitPrice }],
+        priceHistory: [...existing.priceHistory, { quantity, unitPrice, date: Moment().format("YYYY-MM-DD") }],
+        locations: addToLocation(existing.locations, addLocation, quantity),
       }
     }
 
-    setData(newData)
-    setHasBackup(false)
-    saveToStorage(newData)
+    const finalData = commitMovements(newData, [
+      createMovement(lcscPart.lcscId, "receive", quantity, { reason: "Added manually", unitPrice }),
+    ])
+    recordStep(`Added ${quantity} pcs of ${lcscPart.lcscId}`, { data: finalData })
     setShowAddPart(false)
 
     alert(
       existingIndex === -1
         ? `Added ${lcscPart.lcscId} (${quantity} pcs) to inventory.`
-        : `Added ${quantity} pcs to existing ${lcscPart.lcscId}.\nNew quantity: ${newData[existingIndex].quantity}.`
+        : `Added ${quantity} pcs to existing ${lcscPart.lcscId}.\nNew quantity: ${finalData[existingIndex].quantity}.`
     )
   }
 
@@ -579,53 +1210,266 @@ export default function InventoryApp() {
       setData(newData)
       setMissingBomComp([])
       setHasUnappliedChanges(false)
+      setBomLines([])
+      savePlacedDesignators([])
       saveToStorage(newData)
+      recordStep("Cleared BOM", { data: newData, missingBomComp: [], hasUnappliedChanges: false, bomLines: [] })
     }
   }
 
-  const applyBOM = () => {
+  const startApplyBOM = () => {
     if (!hasUnappliedChanges) {
       alert("No BOM changes to apply")
       return
     }
+    setShowApplyBuild(true)
+  }
 
-    const usedParts = data.filter((row) => (row.editedQuantity || 0) > 0)
-    const totalUsed = usedParts.reduce((sum, row) => sum + (row.editedQuantity || 0) * multiplier, 0)
-
-    if (!window.confirm(`Apply BOM usage (×${multiplier})?\n\nThis subtracts ${totalUsed} pcs across ${usedParts.length} parts from your inventory and saves it.\n\nUse "Undo Apply BOM" if you need to reverse it.`)) {
-      return
+  const applyBOM = async (details: BuildDetails) => {
+    setShowApplyBuild(false)
+    const lines = data
+      .filter((row) => (row.editedQuantity || 0) > 0)
+      .map((row) => ({ lcscId: row.lcscId, quantity: row.editedQuantity || 0 }))
+    const reason = `Apply BOM ×${multiplier}`
+    const sourceFile = bomFileName || undefined
+
+    // With a shared inventory the server does the subtraction, against what
+    // it has on hand now — someone else may have used the same parts.
+    if (syncStatus === "synced" || syncStatus === "offline") {
+      try {
+        const build = await postBuild({ lines, multiplier, reason, sourceFile })
+        setSyncStatus("synced")
+        acceptServerVersion(build.version)
+        // Syncs and other tabs may have changed the inventory meanwhile.
+        finishBuildRef.current(details, lines, build.movements)
+        return
+      } catch (error) {
+        console.warn("Inventory server unreachable, applying BOM locally:", error)
+        setSyncStatus("offline")
+      }
     }
+    finishBuildRef.current(details, lines, null)
+  }
+
+  // The rest of Apply BOM, on the inventory as it is once the server has
+  // answered. `consumed` is what the server took; null to take it here.
+  const finishBuild = (
+    details: BuildDetails,
+    lines: { lcscId: string; quantity: number }[],
+    consumedByServer: StockMovement[] | null
+  ) => {
+    const totalUsed = lines.reduce((sum, line) => sum + line.quantity * multiplier, 0)
+    const reason = `Apply BOM ×${multiplier}`
+    const sourceFile = bomFileName || undefined
+    const stock = new Map(data.map((row) => [row.lcscId, row.quantity]))
+    // Stock can't go below zero, so a short part only consumes what's left.
+    const consumed =
+      consumedByServer ||
+      lines
+        .map((line) =>
+          createMovement(line.lcscId, "consume", -Math.min(stock.get(line.lcscId) || 0, line.quantity * multiplier), {
+            reason,
+            sourceFile,
+          })
+        )
+        .filter((movement) => movement.quantity !== 0)
+
+    // Oldest stock goes first, so this is what the build actually used up.
+    const { costs } = replayLots([...ledger, ...consumed], fallbackPrices(data))
+    const build = createBuildRecord(details, {
+      rows: data,
+      missing: missingBomComp,
+      multiplier,
+      bomFileName,
+      movements: consumed,
+      costs,
+    })
+    saveBuild(build).catch((error) => {
+      console.error("Failed to save build record:", error)
+      alert("Failed to save the build record locally. The stock change was still applied.")
+    })
 
+    const newData = data.map((row) => ((row.editedQuantity || 0) > 0 ? { ...row, editedQuantity: 0 } : row))
+    const appliedData = commitMovements(newData, consumed, { synced: consumedByServer !== null })
+    setMissingBomComp([])
+    setHasUnappliedChanges(false)
+    setBomLines([])
+    savePlacedDesignators([])
+    recordStep(`Applied BOM ×${multiplier} for ${buildLabel(build)} (−${totalUsed} pcs across ${lines.length} parts)`, {
+      data: appliedData,
+      missingBomComp: [],
+      hasUnappliedChanges: false,
+      bomLines: [],
+    })
+    setSaveIndicator("BOM Applied & Saved")
+    setTimeout(() => setSaveIndicator(""), 3000)
+
+    alert(
+      `BOM applied and saved as ${buildLabel(build)}.\n\nSubtracted ${totalUsed} pcs across ${lines.length} parts.\nCost of parts used: $${build.stockCost.toFixed(2)}`
+    )
+  }
+
+  // Loads BOM lines (per board) into the scratch column as if their file had
+  // been opened again, replacing whatever BOM is loaded. `detail` is the file's
+  // designator-level lines, when they were kept. False if the user would
+  // rather keep the current one.
+  const loadBomLines = (
+    lines: BOMData[],
+    bomMultiplier: number,
+    newBomFileName: string,
+    label: string,
+    detail: BomLine[] = []
+  ): boolean => {
+    if (hasUnappliedChanges && !window.confirm("Replace the BOM that's loaded now?")) return false
+
+    const bom = lines.filter((line) => line.quantity > 0)
+    const perBoard = new Map(bom.map((line) => [line.lcscId, line.quantity]))
+    const inventoryIds = new Set(data.map((row) => row.lcscId))
     const newData = data.map((row) => {
-      if ((row.editedQuantity || 0) > 0) {
-        const usedQty = (row.editedQuantity || 0) * multiplier
-        return {
-          ...row,
-          quantity: Math.max(0, row.quantity - usedQty),
-          editedQuantity: 0,
-        }
-      }
-      return row
+      const quantity = perBoard.get(row.lcscId) || 0
+      return (row.editedQuantity || 0) === quantity ? row : { ...row, editedQuantity: quantity }
     })
+    const missing: BOMErrorInfo[] = bom
+      .filter((line) => !inventoryIds.has(line.lcscId))
+      .map((line) => ({ ...line, reason: "" }))
 
-    // Snapshot the pre-apply state first, so the deduction stays reversible
-    // now that it is written straight to localStorage.
-    try {
-      localStorage.setItem(BACKUP_KEY, JSON.stringify(data))
-      setHasBackup(true)
-    } catch (error) {
-      console.error("Failed to store undo snapshot:", error)
-      setHasBackup(false)
+    setData(newData)
+    setMissingBomComp(missing)
+    setHasUnappliedChanges(true)
+    setMultiplier(bomMultiplier)
+    setBomLines(detail)
+    savePlacedDesignators([])
+    saveBomFileName(newBomFileName)
+    saveToStorage(newData)
+    recordStep(label, {
+      data: newData,
+      missingBomComp: missing,
+      hasUnappliedChanges: true,
+      bomFileName: newBomFileName,
+      bomLines: detail,
+    })
+    return true
+  }
+
+  const reopenBuild = (build: BuildRecord) => {
+    if (loadBomLines(buildBom(build), build.multiplier, build.bomFileName, `Re-opened BOM of ${buildLabel(build)}`)) {
+      setShowBuilds(false)
+    }
+  }
+
+  const runStoredBom = (revision: BomRevision, bomMultiplier: number) => {
+    if (data.length === 0) {
+      alert("Import your inventory CSV first.\n\nA BOM is matched against parts already in inventory.")
+      return
+    }
+    const label = `Loaded ${revisionLabel(revision)} from the BOM library`
+    if (loadBomLines(revisionBom(revision), bomMultiplier, revision.fileName, label, revision.lines)) {
+      setShowBomLibrary(false)
+    }
+  }
+
+  const savePlacedDesignators = (placed: string[]) => {
+    setPlacedDesignators(placed)
+    saveMeta({ placedDesignators: placed })
+      .then(notifyOtherTabs)
+      .catch((error) => console.error("Failed to save placed designators:", error))
+  }
+
+  const saveSubstitutions = (newSubstitutions: ApprovedSubstitution[]) => {
+    setSubstitutions(newSubstitutions)
+    saveMeta({ substitutions: newSubstitutions })
+      .then(notifyOtherTabs)
+      .catch((error) => console.error("Failed to save approved substitutions:", error))
+  }
+
+  // Moves BOM parts onto in-stock substitutes: the scratch quantity goes to
+  // the substitute (on top of any it already had), parts not in inventory
+  // stop being missing, and the designators follow along for the pick list.
+  const substituteParts = (choices: SubstitutionChoice[], remember: boolean) => {
+    let newData = data
+    let newMissing = missingBomComp
+    let newLines = bomLines
+    let approved = substitutions
+    const project = projectFromFileName(bomFileName)
+
+    for (const { original, substitute } of choices) {
+      const replacement = newData.find((row) => row.lcscId === substitute)
+      if (!replacement) continue
+      const perBoard =
+        newData.find((row) => row.lcscId === original)?.editedQuantity ||
+        newMissing.find((part) => part.lcscId === original)?.quantity ||
+        0
+
+      newData = newData.map((row) => {
+        if (row.lcscId === original) return { ...row, editedQuantity: 0 }
+        if (row.lcscId === substitute) return { ...row, editedQuantity: (row.editedQuantity || 0) + perBoard }
+        return row
+      })
+      newMissing = newMissing.filter((part) => part.lcscId !== original)
+      newLines = newLines.map((line) =>
+        line.lcscId === original ? { ...line, lcscId: substitute, manufactureId: replacement.manufactureId } : line
+      )
+      if (remember) approved = approveSubstitution(approved, project, original, substitute)
+    }
+
+    setData(newData)
+    setMissingBomComp(newMissing)
+    setBomLines(newLines)
+    saveToStorage(newData)
+    const label =
+      choices.length === 1
+        ? `Substituted ${choices[0].substitute} for ${choices[0].original}`
+        : `Substituted ${choices.length} BOM parts`
+    recordStep(label, { data: newData, missingBomComp: newMissing, bomLines: newLines })
+    if (approved !== substitutions) saveSubstitutions(approved)
+  }
+
+  const saveReservations = (newReservations: Reservation[]) => {
+    setReservations(newReservations)
+    saveMeta({ reservations: newReservations })
+      .then(notifyOtherTabs)
+      .catch((error) => console.error("Failed to save reservations:", error))
+  }
+
+  // Moves the loaded BOM into a reservation: its parts stay in stock but stop
+  // counting as available, and the scratch column is free for the next board.
+  const reserveLoadedBom = () => {
+    if (!hasUnappliedChanges) {
+      alert("Load a BOM first — its parts are what gets reserved.")
+      return
     }
 
+    const name = window.prompt(
+      `Reserve this BOM ×${multiplier} for which build?`,
+      bomFileName.replace(/\.[^.]+$/, "") || "Planned build"
+    )
+    if (!name?.trim()) return
+
+    const reservation = reserveBom(name, data, missingBomComp, multiplier, bomFileName)
+    saveReservations([...reservations, reservation])
+
+    const newData = data.map((row) => ((row.editedQuantity || 0) > 0 ? { ...row, editedQuantity: 0 } : row))
     setData(newData)
     setMissingBomComp([])
     setHasUnappliedChanges(false)
+    setBomLines([])
+    savePlacedDesignators([])
     saveToStorage(newData)
-    setSaveIndicator("BOM Applied & Saved")
-    setTimeout(() => setSaveIndicator(""), 3000)
+    recordStep(`Reserved BOM as "${reservation.name}" (${reservation.lines.length} parts)`, {
+      data: newData,
+      missingBomComp: [],
+      hasUnappliedChanges: false,
+      bomLines: [],
+    })
+  }
 
-    alert(`BOM applied and saved.\n\nSubtracted ${totalUsed} pcs across ${usedParts.length} parts.`)
+  // Takes a reservation back out as the loaded BOM, to apply it or change it.
+  const loadReservation = (reservation: Reservation) => {
+    const label = `Loaded reservation "${reservation.name}" as the BOM`
+    if (loadBomLines(reservation.lines, reservation.multiplier, reservation.bomFileName, label)) {
+      saveReservations(reservations.filter((r) => r.id !== reservation.id))
+      setShowReservations(false)
+    }
   }
 
   const deleteRow = (lcscId: string) => {
@@ -636,61 +1480,170 @@ export default function InventoryApp() {
     if (!window.confirm(`Remove ${label} from inventory?`)) return
 
     const newData = data.filter((d) => d.lcscId !== lcscId)
+    const remainingData = commitMovements(
+      newData,
+      row.quantity > 0 ? [createMovement(lcscId, "delete", -row.quantity, { reason: "Removed from inventory" })] : []
+    )
+    recordStep(`Removed ${label}`, { data: remainingData })
+  }
+
+  const editParts = (edits: PartEdit[], note: string, label: string) => {
+    const { rows, movements } = applyPartEdits(data, edits, note)
+    const newData = commitMovements(rows, movements)
+    recordStep(label, { data: newData })
+  }
+
+  // A recount asks what it was for; the answer is the adjustment's reason in
+  // the part's stock history.
+  const editCell = (lcscId: string, field: EditableField, value: string | number) => {
+    const row = data.find((d) => d.lcscId === lcscId)
+    if (!row) return
+
+    let note = ""
+    if (field === "quantity") {
+      const answer = window.prompt(
+        `${lcscId} goes from ${row.quantity} to ${value} on hand. What's the correction for? (kept in its stock history)`,
+        "Stock count correction"
+      )
+      if (answer === null) return
+      note = answer.trim()
+    }
+
+    const label =
+      field === "quantity"
+        ? `Recounted ${lcscId}: ${row.quantity} → ${value}`
+        : `Set ${fieldLabel(field).toLowerCase()} of ${lcscId} to ${field === "unitPrice" ? `$${value}` : `"${value}"`}`
+    editParts([{ lcscId, field, value }], note, label)
+  }
+
+  const bulkEdit = (lcscIds: string[], field: EditableField, value: string | number, note: string) => {
+    const shown = field === "unitPrice" ? `$${value}` : field === "quantity" ? value : `"${value}"`
+    editParts(
+      lcscIds.map((lcscId) => ({ lcscId, field, value })),
+      note,
+      `Set ${fieldLabel(field).toLowerCase()} of ${lcscIds.length} parts to ${shown}`
+    )
+  }
+
+  // Also reachable for parts that have since been deleted from inventory.
+  const showPartHistoryPrompt = () => {
+    const answer = window.prompt("Show stock history for which LCSC part?", "")
+    if (!answer) return
+
+    const lcscId = normalizeLcscId(answer)
+    if (!isValidLcscId(lcscId)) {
+      alert("Enter an LCSC part number like C14663")
+      return
+    }
+    setHistoryFor(lcscId)
+  }
+
+  const saveLocations = (lcscId: string, locations: PartLocation[]) => {
+    const newData = data.map((row) => (row.lcscId === lcscId ? { ...row, locations } : row))
     setData(newData)
     saveToStorage(newData)
+    recordStep(`Set storage locations of ${lcscId}`, { data: newData })
+    setEditingLocationsFor(null)
   }
 
-  const handleQuantityChange = (index: number, value: string) => {
-    const newData = [...data]
-    const numValue = parseInt(value) || 0
-    newData[index].editedQuantity = numValue
+  const editThresholds = (lcscId: string) => {
+    const row = data.find((d) => d.lcscId === lcscId)
+    if (!row) return
+
+    const answer = window.prompt(
+      `Keep how many of ${lcscId} in stock?\n\nMinimum, or minimum/target (e.g. 500/1000) to reorder back up to more than the minimum. Leave empty for no minimum.`,
+      formatThresholds(row)
+    )
+    if (answer === null) return
+
+    let thresholds: ReorderThresholds
+    try {
+      thresholds = parseThresholds(answer)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error))
+      return
+    }
+
+    const newData = data.map((d) => (d.lcscId === lcscId ? { ...d, ...thresholds } : d))
     setData(newData)
-    setHasUnappliedChanges(true)
     saveToStorage(newData)
+    recordStep(
+      thresholds.minQuantity ? `Set minimum of ${lcscId} to ${formatThresholds(thresholds)}` : `Cleared minimum of ${lcscId}`,
+      { data: newData }
+    )
   }
 
-  const handleSort = (field: keyof RowData) => {
-    if (sortField === field) {
-      setSortAsc(!sortAsc)
-    } else {
-      setSortField(field)
-      setSortAsc(true)
-    }
+  // Per-keystroke, so deliberately not an undo step of its own — the next
+  // recorded step captures the typed quantities.
+  const handleQuantityChange = (lcscId: string, value: string) => {
+    const numValue = parseInt(value) || 0
+    const newData = data.map((row) => (row.lcscId === lcscId ? { ...row, editedQuantity: numValue } : row))
+    setData(newData)
+    setHasUnappliedChanges(true)
+    saveToStorage(newData)
   }
 
-  const getSortedData = () => {
-    if (!sortField) return data
+  const handleSort = (field: SortField, additive: boolean) => setSortKeys(toggleSort(sortKeys, field, additive))
 
-    return [...data].sort((a, b) => {
-      const aVal = a[sortField]
-      const bVal = b[sortField]
+  const saveSavedViews = (views: SavedView[]) => {
+    setSavedViews(views)
+    saveMeta({ savedViews: views })
+      .then(notifyOtherTabs)
+      .catch((error) => console.error("Failed to save views:", error))
+  }
 
-      if (typeof aVal === "number" && typeof bVal === "number") {
-        return sortAsc ? aVal - bVal : bVal - aVal
-      }
+  const saveCurrentView = () => {
+    const name = window.prompt("Save the current search, filters and sort as:", "")?.trim()
+    if (!name) return
+    const taken = savedViews.some((view) => view.name.toLowerCase() === name.toLowerCase())
+    if (taken && !window.confirm(`Replace the view "${name}"?`)) return
+    saveSavedViews(
+      saveView(savedViews, { name, query: searchQuery, locationFilter, facets: partFacets, sort: sortKeys })
+    )
+  }
 
-      const aStr = String(aVal).toLowerCase()
-      const bStr = String(bVal).toLowerCase()
-      return sortAsc ? aStr.localeCompare(bStr) : bStr.localeCompare(aStr)
-    })
+  const openView = (view: SavedView) => {
+    setSearchQuery(view.query)
+    setLocationFilter(view.locationFilter)
+    setPartFacets(view.facets)
+    setSortKeys(view.sort)
   }
 
-  const getFilteredData = () => {
-    const sorted = getSortedData()
-    if (!searchQuery.trim()) return sorted
-
-    const query = searchQuery.toLowerCase()
-    return sorted.filter(
-      (row) =>
-        row.lcscId.toLowerCase().includes(query) ||
-        row.manufactureId.toLowerCase().includes(query) ||
-        row.manufacturer.toLowerCase().includes(query) ||
-        row.description.toLowerCase().includes(query)
-    )
+  const deleteView = (view: SavedView) => {
+    if (window.confirm(`Delete the view "${view.name}"?`)) {
+      saveSavedViews(savedViews.filter((entry) => entry.id !== view.id))
+    }
   }
 
-  const filteredData = getFilteredData()
+  // Everything the table's rows are picked and ordered by is memoized on
+  // `catalog`, which only changes when something besides a BOM quantity does.
+  // The current rows are then looked up by ID.
+  const catalog = useCatalogRows(data)
+  const partAttributes = useMemo(() => catalog.map(attributesOf), [catalog])
+  const partQuery = useMemo(() => parseQuery(searchQuery), [searchQuery])
+  const visibleRows = useMemo(
+    () => viewRows(catalog, { query: partQuery, locationFilter, facets: partFacets }, sortKeys),
+    [catalog, partQuery, locationFilter, partFacets, sortKeys]
+  )
+  const rowsById = useMemo(() => new Map(data.map((row) => [row.lcscId, row])), [data])
+  const filteredData = useMemo(
+    () => visibleRows.map((row) => rowsById.get(row.lcscId) || row),
+    [visibleRows, rowsById]
+  )
+
+  const knownLocationPaths = useMemo(() => locationFilterOptions(catalog.map((row) => row.locations)), [catalog])
+  const [categoryFacets, packageFacets, dielectricFacets] = useMemo(() => {
+    return [
+      facetCounts(partAttributes, (attributes) => attributes.category),
+      facetCounts(partAttributes, (attributes) => attributes.package),
+      facetCounts(partAttributes, (attributes) => attributes.dielectric),
+    ]
+  }, [partAttributes])
+  const editingLocationsRow = data.find((row) => row.lcscId === editingLocationsFor)
 
+  const lowStockCount = data.filter((row) => isBelowMinimum(row, multiplier)).length
+  const reserved = reservedQuantities(reservations)
+  const pricesRow = pricesFor ? data.find((row) => row.lcscId === pricesFor) : undefined
   const totalInventoryValue = data.reduce((sum, row) => sum + row.totalCost, 0)
   const totalUsageCost = data.reduce((sum, row) => {
     const usedQty = (row.editedQuantity || 0) * multiplier
@@ -729,6 +1682,24 @@ export default function InventoryApp() {
           >
             Import BOM
           </button>
+          <button
+            onClick={undo}
+            disabled={!canUndo(undoHistory)}
+            title={canUndo(undoHistory) ? `Undo "${undoHistory.steps[undoHistory.position].label}" (Ctrl+Z)` : "Nothing to undo"}
+            className={`px-3 py-2 rounded border border-gray-600 text-gray-100 ${canUndo(undoHistory) ? "bg-gray-700 hover:bg-gray-600" : "bg-gray-800 text-gray-500 cursor-not-allowed"
+              }`}
+          >
+            ↶
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo(undoHistory)}
+            title={canRedo(undoHistory) ? `Redo "${undoHistory.steps[undoHistory.position + 1].label}" (Ctrl+Shift+Z)` : "Nothing to redo"}
+            className={`px-3 py-2 rounded border border-gray-600 text-gray-100 ${canRedo(undoHistory) ? "bg-gray-700 hover:bg-gray-600" : "bg-gray-800 text-gray-500 cursor-not-allowed"
+              }`}
+          >
+            ↷
+          </button>
 
           {/* Everything else lives in the burger menu */}
           <div className="relative">
@@ -747,14 +1718,53 @@ export default function InventoryApp() {
                 <div className="fixed inset-0 z-40" onClick={() => setShowMenu(false)} />
                 <div className="absolute right-0 z-50 mt-2 w-60 overflow-hidden rounded-lg border border-gray-600 bg-gray-800 shadow-xl">
                   <p className="px-4 pt-3 pb-1 text-xs font-bold uppercase tracking-wide text-gray-400">
+                    Views
+                  </p>
+                  {savedViews.map((view) => (
+                    <div key={view.id} className="flex items-center hover:bg-gray-700">
+                      <button onClick={() => runFromMenu(() => openView(view))} className={`${MENU_ITEM} flex-1 truncate`}>
+                        {view.name}
+                      </button>
+                      <button
+                        onClick={() => deleteView(view)}
+                        aria-label={`Delete view ${view.name}`}
+                        className="px-3 text-gray-500 hover:text-red-400"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button onClick={() => runFromMenu(saveCurrentView)} className={MENU_ITEM}>
+                    Save Current View…
+                  </button>
+
+                  <p className="border-t border-gray-700 px-4 pt-3 pb-1 text-xs font-bold uppercase tracking-wide text-gray-400">
                     Inventory
                   </p>
                   <button onClick={() => runFromMenu(() => pickAndLoadCSV(true, false))} className={MENU_ITEM}>
                     Combine CSV
                   </button>
+                  <button onClick={() => runFromMenu(pickLcscOrder)} className={MENU_ITEM}>
+                    Receive LCSC Order…
+                  </button>
+                  <button onClick={() => runFromMenu(() => setShowRefresh(true))} className={MENU_ITEM}>
+                    Refresh from LCSC…
+                  </button>
+                  <button onClick={() => runFromMenu(() => setShowMergeFiles(true))} className={MENU_ITEM}>
+                    Merge CSV (3-way)…
+                  </button>
                   <button onClick={() => runFromMenu(() => exportToCSV())} className={MENU_ITEM}>
                     Export CSV
                   </button>
+                  <button onClick={() => runFromMenu(() => setShowReorder(true))} className={MENU_ITEM}>
+                    Reorder List…{lowStockCount > 0 ? ` (${lowStockCount})` : ""}
+                  </button>
+                  <button onClick={() => runFromMenu(showPartHistoryPrompt)} className={MENU_ITEM}>
+                    Part Stock History…
+                  </button>
+                  <button onClick={() => runFromMenu(() => setShowCostDashboard(true))} className={MENU_ITEM}>
+                    Cost Dashboard…
+                  </button>
 
                   <p className="border-t border-gray-700 px-4 pt-3 pb-1 text-xs font-bold uppercase tracking-wide text-gray-400">
                     BOM
@@ -763,13 +1773,31 @@ export default function InventoryApp() {
                     Combine BOM
                   </button>
                   <button
-                    onClick={() => runFromMenu(applyBOM)}
+                    onClick={() => runFromMenu(startApplyBOM)}
                     disabled={!hasUnappliedChanges}
                     className={`${MENU_ITEM} font-bold ${hasUnappliedChanges ? "text-yellow-400" : "cursor-not-allowed text-gray-500 hover:bg-transparent"
                       }`}
                   >
                     Apply BOM ✓
                   </button>
+                  <button onClick={() => runFromMenu(() => setShowBomViewer(true))} className={MENU_ITEM}>
+                    View BOM / Pick List…
+                  </button>
+                  <button onClick={() => runFromMenu(() => setShowBomLibrary(true))} className={MENU_ITEM}>
+                    BOM Library…
+                  </button>
+                  <button onClick={() => runFromMenu(() => setShowCartExport(true))} className={MENU_ITEM}>
+                    LCSC Cart File…
+                  </button>
+                  <button onClick={() => runFromMenu(reserveLoadedBom)} className={MENU_ITEM}>
+                    Reserve This BOM…
+                  </button>
+                  <button onClick={() => runFromMenu(() => setShowReservations(true))} className={MENU_ITEM}>
+                    Reservations…{reservations.length > 0 ? ` (${reservations.length})` : ""}
+                  </button>
+                  <button onClick={() => runFromMenu(() => setShowBuilds(true))} className={MENU_ITEM}>
+                    Builds…
+                  </button>
                   <button onClick={() => runFromMenu(clearBOM)} className={`${MENU_ITEM} text-orange-400`}>
                     Clear BOM
                   </button>
@@ -777,11 +1805,9 @@ export default function InventoryApp() {
                   <p className="border-t border-gray-700 px-4 pt-3 pb-1 text-xs font-bold uppercase tracking-wide text-gray-400">
                     Data
                   </p>
-                  {hasBackup && (
-                    <button onClick={() => runFromMenu(undoApply)} className={MENU_ITEM}>
-                      Undo Apply BOM
-                    </button>
-                  )}
+                  <button onClick={() => runFromMenu(() => setShowUndoHistory(true))} className={MENU_ITEM}>
+                    Edit History…
+                  </button>
                   <button onClick={() => runFromMenu(clearStorage)} className={`${MENU_ITEM} text-red-400`}>
                     Clear All
                   </button>
@@ -800,7 +1826,8 @@ export default function InventoryApp() {
               type="text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search by LCSC ID, Mfr ID, Manufacturer, or Description..."
+              placeholder="Search, or filter like mfr:YAGEO qty<50 price>0.1 (cap:100n OR cap:1u) -pkg:0402"
+              title="Free text matches LCSC ID, Mfr ID, manufacturer and description. Filters: cap/res/ind/freq, v, a, w, tol, stock/qty, price (with :, :lo..hi, >=, <=, >, <), pkg, diel, cat, mfr, mpn, lcsc, desc, loc. Terms must all match; combine them with OR, NOT or a leading -, and (parentheses)."
               className="flex-1 h-10 border border-gray-600 rounded-lg px-3 text-sm bg-gray-700 text-gray-100 placeholder-gray-400"
             />
             {searchQuery && (
@@ -811,7 +1838,72 @@ export default function InventoryApp() {
                 ✕
               </button>
             )}
+            <select
+              value={locationFilter}
+              onChange={(e) => setLocationFilter(e.target.value)}
+              title="Filter by storage location"
+              className="h-10 max-w-[220px] border border-gray-600 rounded-lg px-2 text-sm bg-gray-700 text-gray-100"
+            >
+              <option value="">All locations</option>
+              <option value={UNASSIGNED_LOCATION}>No location</option>
+              {knownLocationPaths.map((path) => (
+                <option key={path} value={path}>
+                  {path}
+                </option>
+              ))}
+            </select>
+            <select
+              value={partFacets.category}
+              onChange={(e) => setPartFacets({ ...partFacets, category: e.target.value })}
+              title="Filter by part type, read from the description"
+              className="h-10 max-w-[180px] border border-gray-600 rounded-lg px-2 text-sm bg-gray-700 text-gray-100"
+            >
+              <option value="">All types</option>
+              {categoryFacets.map(([category, count]) => (
+                <option key={category} value={category}>
+                  {CATEGORY_LABELS[category as PartCategory]} ({count})
+                </option>
+              ))}
+            </select>
+            <select
+              value={partFacets.package}
+              onChange={(e) => setPartFacets({ ...partFacets, package: e.target.value })}
+              title="Filter by package"
+              className="h-10 max-w-[180px] border border-gray-600 rounded-lg px-2 text-sm bg-gray-700 text-gray-100"
+            >
+              <option value="">All packages</option>
+              {packageFacets.map(([name, count]) => (
+                <option key={name} value={name}>
+                  {name} ({count})
+                </option>
+              ))}
+            </select>
+            {dielectricFacets.length > 0 && (
+              <select
+                value={partFacets.dielectric}
+                onChange={(e) => setPartFacets({ ...partFacets, dielectric: e.target.value })}
+                title="Filter capacitors by dielectric"
+                className="h-10 max-w-[160px] border border-gray-600 rounded-lg px-2 text-sm bg-gray-700 text-gray-100"
+              >
+                <option value="">All dielectrics</option>
+                {dielectricFacets.map(([name, count]) => (
+                  <option key={name} value={name}>
+                    {name} ({count})
+                  </option>
+                ))}
+              </select>
+            )}
+            {hasFacets(partFacets) && (
+              <button onClick={() => setPartFacets(NO_FACETS)} className="px-2 py-2 text-sm text-gray-400 hover:text-gray-200">
+                Clear filters
+              </button>
+            )}
           </div>
+          {partQuery.problems.length > 0 && (
+            <div className="px-4 py-2 border-b border-gray-700 bg-gray-800 text-xs text-orange-400">
+              {partQuery.problems.join(" · ")}
+            </div>
+          )}
 
           {/* Info Panel */}
           <div className="p-4 bg-gray-800 border-b border-gray-700">
@@ -833,6 +1925,20 @@ export default function InventoryApp() {
                     {error.reason}
                   </div>
                 ))}
+                <button
+                  onClick={() => setShowCartExport(true)}
+                  className="w-64 p-3 rounded border border-red-600 text-sm text-red-300 hover:bg-red-950"
+                >
+                  Order the shortages from LCSC…
+                </button>
+                {hasUnappliedChanges && (
+                  <button
+                    onClick={() => setShowSubstitutes(true)}
+                    className="w-64 p-3 rounded border border-red-600 text-sm text-red-300 hover:bg-red-950"
+                  >
+                    Find in-stock substitutes…
+                  </button>
+                )}
               </div>
             )}
 
@@ -845,9 +1951,30 @@ export default function InventoryApp() {
             <p className="text-sm text-gray-200 mb-1">
               BOM Usage Cost (×{multiplier}): <span className="font-bold">${totalUsageCost.toFixed(2)}</span>
             </p>
+            {reservations.length > 0 && (
+              <p className="text-sm text-gray-200 mb-1">
+                {Array.from(reserved.values()).reduce((sum, quantity) => sum + quantity, 0)} pcs reserved for{" "}
+                <button onClick={() => setShowReservations(true)} className="underline hover:text-gray-100">
+                  {reservations.length} planned build{reservations.length === 1 ? "" : "s"}
+                </button>
+              </p>
+            )}
+            {lowStockCount > 0 && (
+              <p className="text-sm text-red-400 mb-1">
+                {lowStockCount} part{lowStockCount === 1 ? "" : "s"} below minimum —{" "}
+                <button onClick={() => setShowReorder(true)} className="underline hover:text-red-300">
+                  reorder list
+                </button>
+              </p>
+            )}
             <div className="flex items-center gap-2">
               <p className="text-xs text-green-400 italic">
-                {`Saved to localStorage: ${fileName}`}{hasBackup ? " · Apply BOM can be undone" : ""}
+                {`Saved in this browser: ${fileName}`}
+                {syncStatus === "synced" ? " · Shared inventory, synced" : ""}
+                {syncStatus === "offline"
+                  ? ` · Server unreachable${isPendingEmpty(pendingRef.current) ? "" : ", changes will sync when it's back"}`
+                  : ""}
+                {canUndo(undoHistory) ? ` · ${undoHistory.position} step${undoHistory.position === 1 ? "" : "s"} can be undone` : ""}
               </p>
               {saveIndicator && (
                 <span className="text-xs text-green-400 font-bold bg-green-900 px-2 py-1 rounded">
@@ -862,154 +1989,22 @@ export default function InventoryApp() {
             </div>
           </div>
 
-          {/* Table */}
-          <div className="overflow-auto">
-            <div className="inline-block min-w-full">
-              {/* Header */}
-              <div className="flex border-b border-gray-700 bg-gray-800 sticky top-0">
-                <div
-                  onClick={() => handleSort("lcscId")}
-                  className="w-[100px] p-3 font-bold text-xs text-gray-200 cursor-pointer hover:bg-gray-700 border-r border-gray-700"
-                >
-                  LCSC ID {sortField === "lcscId" && (sortAsc ? "▲" : "▼")}
-                </div>
-                <div
-                  onClick={() => handleSort("manufacturer")}
-                  className="w-[120px] p-3 font-bold text-xs text-gray-200 cursor-pointer hover:bg-gray-700 border-r border-gray-700"
-                >
-                  Mfr {sortField === "manufacturer" && (sortAsc ? "▲" : "▼")}
-                </div>
-                <div
-                  onClick={() => handleSort("manufactureId")}
-                  className="w-[200px] p-3 font-bold text-xs text-gray-200 cursor-pointer hover:bg-gray-700 border-r border-gray-700"
-                >
-                  Mfr ID {sortField === "manufactureId" && (sortAsc ? "▲" : "▼")}
-                </div>
-                <div
-                  onClick={() => handleSort("package")}
-                  className="w-[170px] p-3 font-bold text-xs text-gray-200 cursor-pointer hover:bg-gray-700 border-r border-gray-700"
-                >
-                  Package {sortField === "package" && (sortAsc ? "▲" : "▼")}
-                </div>
-                <div
-                  onClick={() => handleSort("quantity")}
-                  className="w-[80px] p-3 font-bold text-xs text-gray-200 cursor-pointer hover:bg-gray-700 border-r border-gray-700"
-                >
-                  Qty {sortField === "quantity" && (sortAsc ? "▲" : "▼")}
-                </div>
-                <div className="w-[100px] p-3 font-bold text-xs text-gray-200 border-r border-gray-700">
-                  BOM Qty
-                </div>
-                <div className="w-[90px] p-3 font-bold text-xs text-gray-200 border-r border-gray-700">
-                  Remaining
-                </div>
-                <div
-                  onClick={() => handleSort("unitPrice")}
-                  className="w-[100px] p-3 font-bold text-xs text-gray-200 cursor-pointer hover:bg-gray-700 border-r border-gray-700"
-                >
-                  Unit $ {sortField === "unitPrice" && (sortAsc ? "▲" : "▼")}
-                </div>
-                <div className="w-[100px] p-3 font-bold text-xs text-gray-200 border-r border-gray-700">
-                  Total $
-                </div>
-                <div
-                  onClick={() => handleSort("description")}
-                  className="w-[610px] p-3 font-bold text-xs text-gray-200 cursor-pointer hover:bg-gray-700 border-r border-gray-700"
-                >
-                  Description {sortField === "description" && (sortAsc ? "▲" : "▼")}
-                </div>
-                <div className="w-[70px] p-3 font-bold text-xs text-gray-200 text-center">
-                  Delete
-                </div>
-              </div>
-
-              {/* Body */}
-              <div className="bg-gray-900">
-                {filteredData.length > 0 ? (
-                  filteredData.map((row, i) => {
-                    const actualIndex = data.findIndex((d) => d.lcscId === row.lcscId)
-                    const usedQty = (row.editedQuantity || 0) * multiplier
-                    const remainingQty = row.quantity - usedQty
-                    const remainingCost = remainingQty * row.unitPrice
-
-                    return (
-                      <div
-                        key={row.lcscId}
-                        className={`flex border-b border-gray-700 min-h-[48px] ${i % 2 === 0 ? "bg-gray-800" : "bg-gray-900"}`}
-                      >
-                        <div className="w-[100px] p-3 text-xs border-r border-gray-700 flex items-center">
-                          <a
-                            href={lcscProductUrl(row.lcscId)}
-                            target="_blank"
-                            rel="noreferrer"
-                            title={`Open ${row.lcscId} on lcsc.com`}
-                            className="text-blue-400 underline hover:text-blue-300"
-                          >
-                            {row.lcscId}
-                          </a>
-                        </div>
-                        <div className="w-[120px] p-3 text-xs text-gray-300 border-r border-gray-700 flex items-center">
-                          {row.manufacturer}
-                        </div>
-                        <div className="w-[200px] p-3 text-xs text-gray-300 border-r border-gray-700 flex items-center">
-                          {row.manufactureId}
-                        </div>
-                        <div className="w-[170px] p-3 text-xs text-gray-300 border-r border-gray-700 flex items-center">
-                          {row.package}
-                        </div>
-                        <div className="w-[80px] p-3 text-xs text-gray-300 text-right border-r border-gray-700 flex items-center justify-end">
-                          {row.quantity}
-                        </div>
-                        <div className="w-[100px] p-3 border-r border-gray-700 flex items-center">
-                          <input
-                            type="number"
-                            value={row.editedQuantity || ""}
-                            onChange={(e) => handleQuantityChange(actualIndex, e.target.value)}
-                            placeholder="0"
-                            className={`w-full border rounded px-2 py-1 text-xs text-center ${(row.editedQuantity || 0) > 0
-                                ? "border-orange-500 bg-orange-900 text-orange-200"
-                                : "border-gray-600 bg-gray-700 text-gray-200"
-                              }`}
-                          />
-                        </div>
-                        <div
-                          className={`w-[90px] p-3 text-xs text-center border-r border-gray-700 flex items-center justify-end ${(row.editedQuantity || 0) > 0 ? "text-orange-400 font-bold" : "text-gray-300"
-                            }`}
-                        >
-                          {remainingQty}
-                        </div>
-                        <div className="w-[100px] p-3 text-xs text-gray-300 text-right border-r border-gray-700 flex items-center justify-end">
-                          ${row.unitPrice.toFixed(4)}
-                        </div>
-                        <div
-                          className={`w-[100px] p-3 text-xs text-right border-r border-gray-700 flex items-center justify-end ${(row.editedQuantity || 0) > 0 ? "text-orange-400 font-bold" : "text-gray-300"
-                            }`}
-                        >
-                          ${remainingCost.toFixed(2)}
-                        </div>
-                        <div className="w-[610px] p-3 text-xs text-gray-300 border-r border-gray-700 flex items-center line-clamp-2">
-                          {row.description}
-                        </div>
-                        <div className="w-[70px] p-3 flex items-center justify-center">
-                          <button
-                            onClick={() => deleteRow(row.lcscId)}
-                            title={`Remove ${row.lcscId} from inventory`}
-                            className="rounded px-2 py-1 text-xs text-red-400 hover:bg-red-900 hover:text-red-200"
-                          >
-                            ✕
-                          </button>
-                        </div>
-                      </div>
-                    )
-                  })
-                ) : (
-                  <div className="p-10 text-center">
-                    <p className="text-sm text-gray-400">No parts match your search</p>
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
+          <InventoryTable
+            rows={filteredData}
+            multiplier={multiplier}
+            reservations={reservations}
+            sortKeys={sortKeys}
+            onSort={handleSort}
+            onQuantityChange={handleQuantityChange}
+            onEditLocations={setEditingLocationsFor}
+            onShowHistory={setHistoryFor}
+            onShowReservations={() => setShowReservations(true)}
+            onEditThresholds={editThresholds}
+            onShowPrices={setPricesFor}
+            onDelete={deleteRow}
+            onEditCell={editCell}
+            onBulkEdit={bulkEdit}
+          />
         </>
       )}
 
@@ -1021,163 +2016,320 @@ export default function InventoryApp() {
       )}
 
       {showAddPart && (
-        <div
-          className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-black/70 p-4 py-10"
-          onClick={() => setShowAddPart(false)}
-        >
-          <div
-            className="w-full max-w-2xl rounded-lg border border-gray-700 bg-gray-800 p-5"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <div className="mb-4 flex items-center justify-between">
-              <h2 className="text-lg font-bold text-gray-100">Add Part by LCSC ID</h2>
-              <button
-                onClick={() => setShowAddPart(false)}
-                className="px-2 text-gray-400 hover:text-gray-200"
-              >
-                ✕
-              </button>
-            </div>
-
-            <div className="flex gap-2">
-              <input
-                type="text"
-                value={lcscQuery}
-                onChange={(e) => setLcscQuery(e.target.value)}
-                onKeyDown={(e) => e.key === "Enter" && lookupLcscPart()}
-                placeholder="e.g. C14663"
-                autoFocus
-                className="h-10 flex-1 rounded-lg border border-gray-600 bg-gray-700 px-3 text-sm text-gray-100 placeholder-gray-400"
-              />
-              <button
-                onClick={lookupLcscPart}
-                disabled={isLookingUp}
-                className={`h-10 rounded px-4 text-white ${isLookingUp ? "bg-gray-600 cursor-not-allowed" : "bg-blue-500 hover:bg-blue-600"
-                  }`}
-              >
-                {isLookingUp ? "Fetching..." : "Fetch"}
-              </button>
-            </div>
-            <p className="mt-2 text-xs text-gray-400">
-              Details are fetched live from LCSC. Only quantity and unit price are yours to set.
-            </p>
-
-            {lookupError && (
-              <div className="mt-3 rounded bg-red-600 p-3 text-sm text-white">{lookupError}</div>
-            )}
-
-            {lcscPart && (
-              <>
-                <div className="mt-4 flex gap-4 rounded border border-gray-700 bg-gray-900 p-4">
-                  {lcscPart.imageUrl && (
-                    <img
-                      src={lcscPart.imageUrl}
-                      alt={lcscPart.lcscId}
-                      className="h-20 w-20 shrink-0 rounded bg-white object-contain"
-                    />
-                  )}
-                  <div className="min-w-0 flex-1 text-xs text-gray-300">
-                    <p className="mb-1 text-sm font-bold text-gray-100">
-                      {lcscPart.lcscId} — {lcscPart.manufactureId}
-                    </p>
-                    <p className="mb-1">
-                      {lcscPart.manufacturer}
-                      {lcscPart.package && ` · ${lcscPart.package}`}
-                    </p>
-                    <p className="mb-1">{lcscPart.description}</p>
-                    <p className="text-gray-400">
-                      LCSC stock: {lcscPart.stock.toLocaleString()} · min order: {lcscPart.minBuyNumber}
-                      {lcscPart.datasheetUrl && (
-                        <>
-                          {" · "}
-                          <a
-                            href={lcscPart.datasheetUrl}
-                            target="_blank"
-                            rel="noreferrer"
-                            className="text-blue-400 underline hover:text-blue-300"
-                          >
-                            datasheet
-                          </a>
-                        </>
-                      )}
-                    </p>
-                  </div>
-                </div>
-
-                {lcscPart.priceTiers.length > 0 && (
-                  <div className="mt-3">
-                    <p className="mb-1 text-xs font-bold text-gray-300">LCSC price breaks (USD)</p>
-                    <div className="flex flex-wrap gap-2">
-                      {lcscPart.priceTiers.map((tier) => (
-                        <span
-                          key={tier.quantity}
-                          className="rounded bg-gray-700 px-2 py-1 text-xs text-gray-200"
-                        >
-                          {tier.quantity}+ → ${tier.unitPrice.toFixed(4)}
-                        </span>
-                      ))}
-                    </div>
-                  </div>
+        <Dialog title="Add Part by LCSC ID" onClose={() => setShowAddPart(false)}>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={lcscQuery}
+              onChange={(e) => setLcscQuery(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && lookupLcscPart()}
+              placeholder="e.g. C14663"
+              autoFocus
+              className="h-10 flex-1 rounded-lg border border-gray-600 bg-gray-700 px-3 text-sm text-gray-100 placeholder-gray-400"
+            />
+            <button
+              onClick={lookupLcscPart}
+              disabled={isLookingUp}
+              className={`h-10 rounded px-4 text-white ${isLookingUp ? "bg-gray-600 cursor-not-allowed" : "bg-blue-500 hover:bg-blue-600"
+                }`}
+            >
+              {isLookingUp ? "Fetching..." : "Fetch"}
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-400">
+            Details are fetched live from LCSC. Only quantity and unit price are yours to set.
+          </p>
+
+          {lookupError && (
+            <div className="mt-3 rounded bg-red-600 p-3 text-sm text-white">{lookupError}</div>
+          )}
+
+          {lcscPart && (
+            <>
+              <div className="mt-4 flex gap-4 rounded border border-gray-700 bg-gray-900 p-4">
+                {lcscPart.imageUrl && (
+                  <img
+                    src={lcscPart.imageUrl}
+                    alt={lcscPart.lcscId}
+                    className="h-20 w-20 shrink-0 rounded bg-white object-contain"
+                  />
                 )}
+                <div className="min-w-0 flex-1 text-xs text-gray-300">
+                  <p className="mb-1 text-sm font-bold text-gray-100">
+                    {lcscPart.lcscId} — {lcscPart.manufactureId}
+                  </p>
+                  <p className="mb-1">
+                    {lcscPart.manufacturer}
+                    {lcscPart.package && ` · ${lcscPart.package}`}
+                  </p>
+                  <p className="mb-1">{lcscPart.description}</p>
+                  <p className="text-gray-400">
+                    LCSC stock: {lcscPart.stock.toLocaleString()} · min order: {lcscPart.minBuyNumber}
+                    {lcscPart.datasheetUrl && (
+                      <>
+                        {" · "}
+                        <a
+                          href={lcscPart.datasheetUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-blue-400 underline hover:text-blue-300"
+                        >
+                          datasheet
+                        </a>
+                      </>
+                    )}
+                  </p>
+                </div>
+              </div>
 
-                <div className="mt-4 flex flex-wrap gap-4">
-                  <label className="text-xs text-gray-300">
-                    <span className="mb-1 block font-bold">Quantity</span>
-                    <input
-                      type="number"
-                      min="1"
-                      value={addQuantity}
-                      onChange={(e) => handleAddQuantityChange(e.target.value)}
-                      className="h-9 w-32 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
-                    />
-                  </label>
-                  <label className="text-xs text-gray-300">
-                    <span className="mb-1 block font-bold">Unit Price ($)</span>
-                    <input
-                      type="number"
-                      min="0"
-                      step="0.0001"
-                      value={addUnitPrice}
-                      onChange={(e) => {
-                        setAddUnitPrice(e.target.value)
-                        setIsPriceEdited(true)
-                      }}
-                      className="h-9 w-32 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
-                    />
-                  </label>
-                  <div className="text-xs text-gray-300">
-                    <span className="mb-1 block font-bold">Total</span>
-                    <p className="flex h-9 items-center font-bold text-gray-100">
-                      ${((parseInt(addQuantity) || 0) * (parseFloat(addUnitPrice) || 0)).toFixed(2)}
-                    </p>
+              {lcscPart.priceTiers.length > 0 && (
+                <div className="mt-3">
+                  <p className="mb-1 text-xs font-bold text-gray-300">LCSC price breaks (USD)</p>
+                  <div className="flex flex-wrap gap-2">
+                    {lcscPart.priceTiers.map((tier) => (
+                      <span
+                        key={tier.quantity}
+                        className="rounded bg-gray-700 px-2 py-1 text-xs text-gray-200"
+                      >
+                        {tier.quantity}+ → ${tier.unitPrice.toFixed(4)}
+                      </span>
+                    ))}
                   </div>
                 </div>
+              )}
 
-                {data.some((row) => row.lcscId === lcscPart.lcscId) && (
-                  <p className="mt-3 text-xs text-orange-400">
-                    Already in inventory — this quantity will be added and the unit price averaged.
+              <div className="mt-4 flex flex-wrap gap-4">
+                <label className="text-xs text-gray-300">
+                  <span className="mb-1 block font-bold">Quantity</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={addQuantity}
+                    onChange={(e) => handleAddQuantityChange(e.target.value)}
+                    className="h-9 w-32 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
+                  />
+                </label>
+                <label className="text-xs text-gray-300">
+                  <span className="mb-1 block font-bold">Unit Price ($)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={addUnitPrice}
+                    onChange={(e) => {
+                      setAddUnitPrice(e.target.value)
+                      setIsPriceEdited(true)
+                    }}
+                    className="h-9 w-32 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
+                  />
+                </label>
+                <label className="text-xs text-gray-300">
+                  <span className="mb-1 block font-bold">Location</span>
+                  <input
+                    type="text"
+                    list="add-location-paths"
+                    value={addLocation}
+                    onChange={(e) => setAddLocation(e.target.value)}
+                    placeholder="cabinet/drawer/bin"
+                    className="h-9 w-40 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100 placeholder-gray-400"
+                  />
+                  <datalist id="add-location-paths">
+                    {knownLocationPaths.map((path) => (
+                      <option key={path} value={path} />
+                    ))}
+                  </datalist>
+                </label>
+                <div className="text-xs text-gray-300">
+                  <span className="mb-1 block font-bold">Total</span>
+                  <p className="flex h-9 items-center font-bold text-gray-100">
+                    ${((parseInt(addQuantity) || 0) * (parseFloat(addUnitPrice) || 0)).toFixed(2)}
                   </p>
-                )}
-
-                <div className="mt-5 flex justify-end gap-2">
-                  <button
-                    onClick={() => setShowAddPart(false)}
-                    className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    onClick={addLcscPartToInventory}
-                    className="rounded bg-green-600 px-4 py-2 font-bold text-white hover:bg-green-700"
-                  >
-                    Add to Inventory
-                  </button>
                 </div>
-              </>
-            )}
-          </div>
-        </div>
+              </div>
+
+              {data.some((row) => row.lcscId === lcscPart.lcscId) && (
+                <p className="mt-3 text-xs text-orange-400">
+                  Already in inventory — this quantity will be added and the unit price averaged.
+                </p>
+              )}
+
+              <div className="mt-5 flex justify-end gap-2">
+                <button
+                  onClick={() => setShowAddPart(false)}
+                  className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={addLcscPartToInventory}
+                  className="rounded bg-green-600 px-4 py-2 font-bold text-white hover:bg-green-700"
+                >
+                  Add to Inventory
+                </button>
+              </div>
+            </>
+          )}
+        </Dialog>
+      )}
+
+      {editingLocationsRow && (
+        <LocationEditor
+          row={editingLocationsRow}
+          knownPaths={knownLocationPaths}
+          onSave={(locations) => saveLocations(editingLocationsRow.lcscId, locations)}
+          onClose={() => setEditingLocationsFor(null)}
+        />
+      )}
+
+      {showUndoHistory && (
+        <UndoHistoryPanel
+          history={undoHistory}
+          onJump={jumpToStep}
+          onClose={() => setShowUndoHistory(false)}
+        />
       )}
+
+      {showReorder && (
+        <ReorderList
+          rows={data}
+          multiplier={multiplier}
+          onOrder={() => {
+            setShowReorder(false)
+            setShowCartExport(true)
+          }}
+          onClose={() => setShowReorder(false)}
+        />
+      )}
+
+      {showCartExport && (
+        <LcscCartExport
+          rows={data}
+          missing={missingBomComp}
+          multiplier={multiplier}
+          onClose={() => setShowCartExport(false)}
+        />
+      )}
+
+      {showRefresh && <RefreshFromLcsc rows={data} onApply={applyLcscRefresh} onClose={() => setShowRefresh(false)} />}
+
+      {receivingOrder && (
+        <ReceiveOrderDialog
+          fileName={receivingOrder.fileName}
+          order={receivingOrder.order}
+          rows={data}
+          onReceive={receiveOrder}
+          onClose={() => setReceivingOrder(null)}
+        />
+      )}
+
+      {showMergeFiles && <MergeFilesDialog onMerge={mergeCSVFiles} onClose={() => setShowMergeFiles(false)} />}
+
+      {mergeReview && (
+        <MergeDialog
+          title={mergeReview.title}
+          oursLabel={mergeReview.oursLabel}
+          theirsLabel={mergeReview.theirsLabel}
+          result={mergeReview.result}
+          onApply={applyMerge}
+          onClose={() => setMergeReview(null)}
+        />
+      )}
+
+      {historyFor && <PartHistory lcscId={historyFor} ledger={ledger} rows={data} onClose={() => setHistoryFor(null)} />}
+
+      {showApplyBuild && (
+        <ApplyBuildDialog
+          bomFileName={bomFileName}
+          multiplier={multiplier}
+          partCount={data.filter((row) => (row.editedQuantity || 0) > 0).length}
+          totalUsed={data.reduce((sum, row) => sum + (row.editedQuantity || 0) * multiplier, 0)}
+          missingCount={missingBomComp.length}
+          onApply={applyBOM}
+          onClose={() => setShowApplyBuild(false)}
+        />
+      )}
+
+      {showReservations && (
+        <ReservationsDialog
+          reservations={reservations}
+          rows={data}
+          onChange={saveReservations}
+          onLoad={loadReservation}
+          onClose={() => setShowReservations(false)}
+        />
+      )}
+
+      {inventoryImport && (
+        <InventoryImportDialog
+          fileName={inventoryImport.fileName}
+          csv={inventoryImport.csv}
+          combining={inventoryImport.combining}
+          savedMappings={importMappings}
+          onImport={importMapped}
+          onClose={() => setInventoryImport(null)}
+        />
+      )}
+
+      {bomImport && (
+        <BomImportDialog
+          fileName={bomImport.fileName}
+          csv={bomImport.csv}
+          confirmLabel={bomImport.combining ? "Combine BOM" : "Load BOM"}
+          requireLcscParts
+          onConfirm={(lines) => {
+            setBomImport(null)
+            loadBomFile(lines, bomImport.combining, bomImport.fileName)
+          }}
+          onClose={() => setBomImport(null)}
+        />
+      )}
+
+      {showBomViewer && (
+        <BomViewer
+          rows={data}
+          missing={missingBomComp}
+          bomLines={bomLines}
+          multiplier={multiplier}
+          bomFileName={bomFileName}
+          placed={placedDesignators}
+          onPlacedChange={savePlacedDesignators}
+          onClose={() => setShowBomViewer(false)}
+        />
+      )}
+
+      {showSubstitutes && (
+        <SubstitutesDialog
+          rows={data}
+          missing={missingBomComp}
+          bomLines={bomLines}
+          multiplier={multiplier}
+          reservations={reservations}
+          project={projectFromFileName(bomFileName)}
+          approved={substitutions}
+          onSubstitute={substituteParts}
+          onForget={(original) =>
+            saveSubstitutions(forgetSubstitution(substitutions, projectFromFileName(bomFileName), original))
+          }
+          onClose={() => setShowSubstitutes(false)}
+        />
+      )}
+
+      {showBomLibrary && (
+        <BomLibraryDialog
+          rows={data}
+          reservations={reservations}
+          onRun={runStoredBom}
+          onClose={() => setShowBomLibrary(false)}
+        />
+      )}
+
+      {showBuilds && <BuildsPage onReopen={reopenBuild} onClose={() => setShowBuilds(false)} />}
+
+      {showCostDashboard && (
+        <CostDashboard rows={data} onShowPart={setPricesFor} onClose={() => setShowCostDashboard(false)} />
+      )}
+
+      {pricesRow && <PartPrices row={pricesRow} onClose={() => setPricesFor(null)} />}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react"
+import { projectFromFileName, type BuildDetails, type BuildRecord } from "./builds"
+import Dialog from "./Dialog"
+import { loadBuilds } from "./storage"
+
+type ApplyBuildDialogProps = {
+  bomFileName: string
+  multiplier: number
+  partCount: number
+  totalUsed: number
+  missingCount: number
+  onApply: (details: BuildDetails) => void
+  onClose: () => void
+}
+
+const FIELD = "h-9 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
+
+// Names the build before Apply BOM takes its parts out of stock. A BOM that
+// was built before starts with that build's project and revision.
+export default function ApplyBuildDialog({
+  bomFileName,
+  multiplier,
+  partCount,
+  totalUsed,
+  missingCount,
+  onApply,
+  onClose,
+}: ApplyBuildDialogProps) {
+  const [project, setProject] = useState<string>(projectFromFileName(bomFileName))
+  const [revision, setRevision] = useState<string>("")
+  const [pastBuilds, setPastBuilds] = useState<BuildRecord[]>([])
+
+  useEffect(() => {
+    loadBuilds()
+      .then((builds) => {
+        setPastBuilds(builds)
+        const previous = builds.find((build) => build.bomFileName === bomFileName)
+        if (previous) {
+          setProject(previous.project)
+          setRevision(previous.revision)
+        }
+      })
+      .catch((error) => console.error("Failed to load builds:", error))
+  }, [bomFileName])
+
+  const projects = Array.from(new Set(pastBuilds.map((build) => build.project).filter(Boolean)))
+
+  return (
+    <Dialog title={`Apply BOM ×${multiplier}`} onClose={onClose} width="max-w-lg">
+      <p className="mb-4 text-sm text-gray-300">
+        Subtracts {totalUsed} pcs across {partCount} parts from your inventory and saves a build record.
+        {missingCount > 0 && (
+          <span className="text-orange-400"> {missingCount} BOM parts aren't in inventory and are only recorded.</span>
+        )}{" "}
+        Undo (Ctrl+Z) reverses the stock change.
+      </p>
+
+      <div className="mb-4 flex gap-3">
+        <label className="flex-1 text-xs text-gray-400">
+          Project
+          <input
+            type="text"
+            list="build-projects"
+            value={project}
+            onChange={(e) => setProject(e.target.value)}
+            className={`${FIELD} mt-1 block w-full`}
+            autoFocus
+          />
+          <datalist id="build-projects">
+            {projects.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </label>
+        <label className="w-32 text-xs text-gray-400">
+          Board revision
+          <input
+            type="text"
+            value={revision}
+            onChange={(e) => setRevision(e.target.value)}
+            placeholder="e.g. B"
+            className={`${FIELD} mt-1 block w-full`}
+          />
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+          Cancel
+        </button>
+        <button
+          onClick={() => onApply({ project, revision })}
+          className="rounded bg-green-600 px-4 py-2 font-bold text-white hover:bg-green-700"
+        >
+          Apply BOM
+        </button>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,134 @@
+import { useState } from "react"
+import { bomTotals, type BomLine } from "./bomLibrary"
+import {
+  BOM_FIELDS,
+  columnMapping,
+  detectBomFormat,
+  mapBomLines,
+  type BomColumnMapping,
+  type BomField,
+} from "./bomFormats"
+import type { ParsedCsv } from "./csv"
+import Dialog from "./Dialog"
+
+type BomImportDialogProps = {
+  fileName: string
+  csv: ParsedCsv
+  confirmLabel: string
+  // Loading against stock needs LCSC parts; the library keeps any BOM.
+  requireLcscParts: boolean
+  onConfirm: (lines: BomLine[]) => void
+  onClose: () => void
+}
+
+const PREVIEW_LINES = 8
+
+// Shows which format a BOM file was read as and where each field comes from,
+// with the first lines as they'll be used. Every column can be re-mapped, which
+// is also how a format the app doesn't know gets read.
+export default function BomImportDialog({
+  fileName,
+  csv,
+  confirmLabel,
+  requireLcscParts,
+  onConfirm,
+  onClose,
+}: BomImportDialogProps) {
+  const format = detectBomFormat(csv.headers)
+  const [mapping, setMapping] = useState<BomColumnMapping>(() => columnMapping(csv.headers, format))
+
+  const { lines, dnpCount } = mapBomLines(csv.records, mapping)
+  const parts = bomTotals(lines)
+  const pcs = parts.reduce((sum, part) => sum + part.quantity, 0)
+  const unsourced = lines.filter((line) => !line.lcscId).length
+  const canConfirm = requireLcscParts ? parts.length > 0 : lines.length > 0
+
+  const setColumn = (field: BomField, header: string) => setMapping({ ...mapping, [field]: header })
+
+  return (
+    <Dialog title={`Import ${fileName}`} onClose={onClose} width="max-w-5xl">
+      <p className="mb-3 text-sm text-gray-300">
+        {format ? (
+          <>
+            Detected format: <span className="font-bold text-gray-100">{format.name}</span>
+          </>
+        ) : (
+          <span className="text-orange-400">Unrecognized BOM format — pick the column for each field.</span>
+        )}
+      </p>
+
+      <div className="mb-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+        {BOM_FIELDS.map(({ field, label }) => (
+          <label key={field} className="text-xs text-gray-400">
+            {label}
+            <select
+              value={mapping[field]}
+              onChange={(e) => setColumn(field, e.target.value)}
+              className={`mt-1 block h-9 w-full rounded border bg-gray-700 px-2 text-sm text-gray-100 ${
+                field === "lcscId" && !mapping[field] ? "border-orange-500" : "border-gray-600"
+              }`}
+            >
+              <option value="">— none —</option>
+              {csv.headers.map((header) => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <p className="mb-2 text-sm text-gray-200">
+        {lines.length} lines · {parts.length} LCSC parts · {pcs} pcs per board
+        {unsourced > 0 && <span className="text-gray-400"> · {unsourced} lines without an LCSC part</span>}
+        {dnpCount > 0 && <span className="text-gray-400"> · {dnpCount} do-not-populate lines left out</span>}
+      </p>
+
+      <div className="mb-4 max-h-[40vh] overflow-auto rounded border border-gray-700">
+        <table className="w-full text-left text-xs text-gray-300">
+          <thead className="sticky top-0 bg-gray-900 text-gray-200">
+            <tr>
+              <th className="p-2">Designators</th>
+              <th className="p-2">Value</th>
+              <th className="p-2">Footprint</th>
+              <th className="p-2">LCSC Part</th>
+              <th className="p-2">Mfr Part</th>
+              <th className="p-2 text-right">Qty</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.slice(0, PREVIEW_LINES).map((line, i) => (
+              <tr key={i} className="border-t border-gray-700">
+                <td className="p-2">{line.designators.join(", ")}</td>
+                <td className="p-2">{line.value}</td>
+                <td className="p-2 text-gray-400">{line.footprint}</td>
+                <td className="p-2 font-mono">{line.lcscId || <span className="text-gray-500">—</span>}</td>
+                <td className="p-2">{line.manufactureId}</td>
+                <td className="p-2 text-right">{line.quantity}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {lines.length > PREVIEW_LINES && (
+          <p className="border-t border-gray-700 p-2 text-xs text-gray-500">
+            …and {lines.length - PREVIEW_LINES} more lines
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(lines)}
+          disabled={!canConfirm}
+          className={`rounded px-4 py-2 font-bold text-white ${canConfirm ? "bg-green-600 hover:bg-green-700" : "cursor-not-allowed bg-gray-600"}`}
+        >
+          {confirmLabel}
+        </button>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,417 @@
+import Moment from "moment"
+import { useEffect, useState } from "react"
+import {
+  createRevision,
+  diffRevisions,
+  groupByProject,
+  nextRevision,
+  revisionBom,
+  revisionLabel,
+  type BomLine,
+  type BomRevision,
+  type Placement,
+} from "./bomLibrary"
+import { readCsv, readCsvFile, type ParsedCsv } from "./csv"
+import BomImportDialog from "./BomImportDialog"
+import { projectFromFileName } from "./builds"
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import { availableQuantity, reservedQuantities, type Reservation } from "./reservations"
+import { deleteBom, loadBoms, saveBom } from "./storage"
+
+type BomLibraryDialogProps = {
+  rows: AggregatedRow[]
+  reservations: Reservation[]
+  onRun: (revision: BomRevision, multiplier: number) => void
+  onClose: () => void
+}
+
+type PendingImport = {
+  fileName: string
+  lines: BomLine[]
+  project: string
+  revision: string
+}
+
+const FIELD = "h-9 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
+
+const describePlacement = (placement: Placement | undefined): string =>
+  placement ? [placement.value, placement.footprint, placement.lcscId].filter(Boolean).join(" · ") : ""
+
+// Stored BOMs by project and revision. A revision can be run against the
+// stock there is now with any number of boards, or compared with another
+// revision of the same project.
+export default function BomLibraryDialog({ rows, reservations, onRun, onClose }: BomLibraryDialogProps) {
+  const [revisions, setRevisions] = useState<BomRevision[] | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string>("")
+  const [multiplier, setMultiplier] = useState<number>(1)
+  const [pending, setPending] = useState<PendingImport | null>(null)
+  const [importing, setImporting] = useState<{ fileName: string; csv: ParsedCsv } | null>(null)
+
+  useEffect(() => {
+    loadBoms()
+      .then(setRevisions)
+      .catch((error) => {
+        console.error("Failed to load the BOM library:", error)
+        setRevisions([])
+      })
+  }, [])
+
+  const projects = groupByProject(revisions || [])
+  const selected = (revisions || []).find((revision) => revision.id === selectedId) || projects[0]?.[1].at(-1)
+  const siblings = (revisions || []).filter(
+    (revision) => selected && revision.project === selected.project && revision.id !== selected.id
+  )
+  const compareWith = siblings.find((revision) => revision.id === compareId)
+
+  const pickFile = () => {
+    const input = document.createElement("input")
+    input.type = "file"
+    input.accept = ".csv,.tsv,.txt"
+    input.onchange = async () => {
+      const file = input.files?.[0]
+      if (!file) return
+      setImporting({ fileName: file.name, csv: readCsv(await readCsvFile(file)) })
+    }
+    input.click()
+  }
+
+  const imported = (fileName: string, lines: BomLine[]) => {
+    const project = projectFromFileName(fileName)
+    const previous = groupByProject(revisions || []).find(([name]) => name === project)?.[1].at(-1)
+    setImporting(null)
+    setPending({ fileName, lines, project, revision: nextRevision(previous?.revision) })
+  }
+
+  const savePending = () => {
+    if (!pending) return
+    const project = pending.project.trim()
+    const revisionName = pending.revision.trim()
+    if (!project) {
+      alert("Name the project first.")
+      return
+    }
+    if ((revisions || []).some((revision) => revision.project === project && revision.revision === revisionName)) {
+      alert(`${project} already has a revision "${revisionName}". Pick another name.`)
+      return
+    }
+
+    const revision = createRevision(project, revisionName, pending.fileName, pending.lines)
+    saveBom(revision)
+      .then(() => {
+        setRevisions((current) => [...(current || []), revision])
+        setSelectedId(revision.id)
+        setCompareId("")
+        setPending(null)
+      })
+      .catch((error) => alert(`Could not save the BOM.\n\n${error}`))
+  }
+
+  const remove = (revision: BomRevision) => {
+    if (!window.confirm(`Delete ${revisionLabel(revision)} from the library?`)) return
+    deleteBom(revision.id)
+      .then(() => {
+        setRevisions((current) => (current || []).filter((r) => r.id !== revision.id))
+        setSelectedId(null)
+        setCompareId("")
+      })
+      .catch((error) => alert(`Could not delete the BOM.\n\n${error}`))
+  }
+
+  const select = (revision: BomRevision) => {
+    setSelectedId(revision.id)
+    setCompareId("")
+  }
+
+  const rowsById = new Map(rows.map((row) => [row.lcscId, row]))
+  const reserved = reservedQuantities(reservations)
+  const shortCount = selected
+    ? revisionBom(selected).filter((line) => {
+        const row = rowsById.get(line.lcscId)
+        return !row || availableQuantity(row, reserved) < line.quantity * multiplier
+      }).length
+    : 0
+
+  return (
+    <Dialog title="BOM Library" onClose={onClose} width="max-w-6xl">
+      <div className="flex flex-col gap-4 md:flex-row">
+        <div className="md:w-64">
+          <button
+            onClick={pickFile}
+            className="mb-2 w-full rounded bg-blue-600 px-3 py-2 text-sm font-bold text-white hover:bg-blue-700"
+          >
+            Add BOM File…
+          </button>
+          {revisions === null ? (
+            <p className="text-sm text-gray-400">Loading…</p>
+          ) : projects.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              No BOMs stored yet. Add a BOM file to keep it here with its designators, values and footprints.
+            </p>
+          ) : (
+            <div className="max-h-[60vh] overflow-auto rounded border border-gray-700">
+              {projects.map(([project, list]) => (
+                <div key={project} className="border-b border-gray-700 px-3 py-2 text-xs">
+                  <span className="block font-bold text-gray-100">{project}</span>
+                  {list.map((revision) => (
+                    <button
+                      key={revision.id}
+                      onClick={() => select(revision)}
+                      className={`mt-1 block w-full rounded px-2 py-1 text-left ${revision.id === selected?.id && !pending ? "bg-gray-700" : "hover:bg-gray-700/50"}`}
+                    >
+                      <span className="text-gray-200">{revision.revision ? `rev ${revision.revision}` : "no revision"}</span>{" "}
+                      <span className="text-gray-500">{Moment(revision.savedAt).format("YYYY-MM-DD")}</span>
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="min-w-0 flex-1">
+          {pending ? (
+            <div>
+              <h3 className="mb-1 font-bold text-gray-100">Add {pending.fileName}</h3>
+              <p className="mb-4 text-sm text-gray-400">
+                {pending.lines.length} lines,{" "}
+                {pending.lines.reduce((sum, line) => sum + line.designators.length, 0)} designators.
+              </p>
+              <div className="mb-4 flex gap-3">
+                <label className="flex-1 text-xs text-gray-400">
+                  Project
+                  <input
+                    type="text"
+                    list="bom-projects"
+                    value={pending.project}
+                    onChange={(e) => setPending({ ...pending, project: e.target.value })}
+                    className={`${FIELD} mt-1 block w-full`}
+                    autoFocus
+                  />
+                  <datalist id="bom-projects">
+                    {projects.map(([project]) => (
+                      <option key={project} value={project} />
+                    ))}
+                  </datalist>
+                </label>
+                <label className="w-32 text-xs text-gray-400">
+                  Revision
+                  <input
+                    type="text"
+                    value={pending.revision}
+                    onChange={(e) => setPending({ ...pending, revision: e.target.value })}
+                    className={`${FIELD} mt-1 block w-full`}
+                  />
+                </label>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setPending(null)}
+                  className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={savePending}
+                  className="rounded bg-green-600 px-4 py-2 font-bold text-white hover:bg-green-700"
+                >
+                  Save to Library
+                </button>
+              </div>
+            </div>
+          ) : (
+            selected && (
+              <>
+                <div className="mb-3 flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-bold text-gray-100">{revisionLabel(selected)}</h3>
+                    <p className="text-xs text-gray-400">
+                      {selected.fileName} · saved {Moment(selected.savedAt).format("YYYY-MM-DD HH:mm")}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {siblings.length > 0 && (
+                      <select
+                        value={compareId}
+                        onChange={(e) => setCompareId(e.target.value)}
+                        className="h-8 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
+                      >
+                        <option value="">Compare with…</option>
+                        {siblings.map((revision) => (
+                          <option key={revision.id} value={revision.id}>
+                            {revision.revision ? `rev ${revision.revision}` : revision.fileName}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => remove(selected)}
+                      className="rounded bg-gray-700 px-3 py-1 text-sm text-red-400 hover:bg-gray-600"
+                    >
+                      Delete
+                    </button>
+                    <label className="flex items-center gap-1 text-sm text-gray-400">
+                      ×
+                      <input
+                        type="number"
+                        min="1"
+                        value={multiplier}
+                        onChange={(e) => setMultiplier(Math.max(1, parseInt(e.target.value) || 1))}
+                        className="w-16 rounded border border-gray-600 bg-gray-700 px-2 py-1 text-center text-gray-100"
+                      />
+                    </label>
+                    <button
+                      onClick={() => onRun(selected, multiplier)}
+                      className="rounded bg-blue-600 px-3 py-1 text-sm font-bold text-white hover:bg-blue-700"
+                    >
+                      Load as BOM
+                    </button>
+                  </div>
+                </div>
+
+                {compareWith ? (
+                  <RevisionDiffView before={compareWith} after={selected} />
+                ) : (
+                  <>
+                    <p className="mb-3 text-sm text-gray-200">
+                      {revisionBom(selected).length} parts for ×{multiplier}:{" "}
+                      {shortCount === 0 ? (
+                        <span className="text-green-400">stock covers every part</span>
+                      ) : (
+                        <span className="text-red-400">
+                          {shortCount} short or not in inventory
+                        </span>
+                      )}
+                    </p>
+                    <div className="max-h-[55vh] overflow-auto rounded border border-gray-700">
+                      <table className="w-full text-left text-xs text-gray-300">
+                        <thead className="sticky top-0 bg-gray-900 text-gray-200">
+                          <tr>
+                            <th className="p-2">Designators</th>
+                            <th className="p-2">Value</th>
+                            <th className="p-2">Footprint</th>
+                            <th className="p-2">LCSC Part</th>
+                            <th className="p-2 text-right">Qty</th>
+                            <th className="p-2 text-right">Available</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {selected.lines.map((line, i) => {
+                            const row = rowsById.get(line.lcscId)
+                            const available = row ? availableQuantity(row, reserved) : 0
+                            const short = line.lcscId !== "" && available < line.quantity * multiplier
+                            return (
+                              <tr key={i} className="border-t border-gray-700">
+                                <td className="p-2">{line.designators.join(", ")}</td>
+                                <td className="p-2">{line.value}</td>
+                                <td className="p-2 text-gray-400">{line.footprint}</td>
+                                <td className="p-2 font-mono">{line.lcscId || <span className="text-gray-500">—</span>}</td>
+                                <td className="p-2 text-right">{line.quantity}</td>
+                                <td className={`p-2 text-right ${short ? "text-red-400" : ""}`}>
+                                  {!line.lcscId ? "" : row ? available : "not in inventory"}
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                )}
+              </>
+            )
+          )}
+        </div>
+      </div>
+
+      {importing && (
+        <BomImportDialog
+          fileName={importing.fileName}
+          csv={importing.csv}
+          confirmLabel="Next"
+          requireLcscParts={false}
+          onConfirm={(lines) => imported(importing.fileName, lines)}
+          onClose={() => setImporting(null)}
+        />
+      )}
+    </Dialog>
+  )
+}
+
+const KIND_STYLE = {
+  added: "text-green-400",
+  removed: "text-red-400",
+  changed: "text-yellow-400",
+}
+
+function RevisionDiffView({ before, after }: { before: BomRevision; after: BomRevision }) {
+  const { placements, quantities } = diffRevisions(before, after)
+
+  if (placements.length === 0 && quantities.length === 0) {
+    return (
+      <p className="text-sm text-gray-400">
+        {revisionLabel(after)} places the same parts as rev {before.revision || before.fileName}.
+      </p>
+    )
+  }
+
+  return (
+    <div className="max-h-[55vh] overflow-auto">
+      <p className="mb-2 text-sm text-gray-200">
+        Changes from {before.revision ? `rev ${before.revision}` : before.fileName} to{" "}
+        {after.revision ? `rev ${after.revision}` : after.fileName}
+      </p>
+      {placements.length > 0 && (
+        <div className="mb-4 rounded border border-gray-700">
+          <table className="w-full text-left text-xs text-gray-300">
+            <thead className="bg-gray-900 text-gray-200">
+              <tr>
+                <th className="p-2">Designator</th>
+                <th className="p-2">Change</th>
+                <th className="p-2">Was</th>
+                <th className="p-2">Now</th>
+              </tr>
+            </thead>
+            <tbody>
+              {placements.map((change) => (
+                <tr key={change.designator} className="border-t border-gray-700">
+                  <td className="p-2 font-bold">{change.designator}</td>
+                  <td className={`p-2 ${KIND_STYLE[change.kind]}`}>{change.kind}</td>
+                  <td className="p-2 text-gray-400">{describePlacement(change.before)}</td>
+                  <td className="p-2">{describePlacement(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {quantities.length > 0 && (
+        <div className="rounded border border-gray-700">
+          <table className="w-full text-left text-xs text-gray-300">
+            <thead className="bg-gray-900 text-gray-200">
+              <tr>
+                <th className="p-2">LCSC Part</th>
+                <th className="p-2">Part</th>
+                <th className="p-2 text-right">Per board was</th>
+                <th className="p-2 text-right">Now</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quantities.map((change) => (
+                <tr key={change.lcscId} className="border-t border-gray-700">
+                  <td className="p-2 font-mono">{change.lcscId}</td>
+                  <td className="p-2">{change.label}</td>
+                  <td className="p-2 text-right text-gray-400">{change.before}</td>
+                  <td className={`p-2 text-right ${change.after > change.before ? "text-green-400" : "text-red-400"}`}>
+                    {change.after}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+import { useState } from "react"
+import type { BomLine } from "./bomLibrary"
+import Dialog from "./Dialog"
+import type { AggregatedRow, BOMErrorInfo } from "./inventory"
+import { formatLocationPath } from "./locations"
+import { groupPickItems, pickItems, pickListHtml, placementKeys, type PickGrouping } from "./pickList"
+
+type BomViewerProps = {
+  rows: AggregatedRow[]
+  missing: BOMErrorInfo[]
+  bomLines: BomLine[]
+  multiplier: number
+  bomFileName: string
+  placed: string[]
+  onPlacedChange: (placed: string[]) => void
+  onClose: () => void
+}
+
+// The loaded BOM part by part with its designators, grouped the way the parts
+// get picked. Designators are ticked off as they're placed; the ticks are kept
+// until the BOM is applied or cleared.
+export default function BomViewer({
+  rows,
+  missing,
+  bomLines,
+  multiplier,
+  bomFileName,
+  placed,
+  onPlacedChange,
+  onClose,
+}: BomViewerProps) {
+  const [grouping, setGrouping] = useState<PickGrouping>("location")
+  const [hidePlaced, setHidePlaced] = useState<boolean>(false)
+
+  const items = pickItems(rows, missing, bomLines, multiplier)
+  const placedSet = new Set(placed)
+  const allKeys = items.flatMap(placementKeys)
+  const placedCount = allKeys.filter((key) => placedSet.has(key)).length
+  const isDone = (keys: string[]) => keys.every((key) => placedSet.has(key))
+
+  const groups = groupPickItems(
+    hidePlaced ? items.filter((item) => !isDone(placementKeys(item))) : items,
+    grouping
+  )
+
+  const setPlaced = (keys: string[], value: boolean) => {
+    const next = new Set(placed)
+    keys.forEach((key) => (value ? next.add(key) : next.delete(key)))
+    onPlacedChange(Array.from(next))
+  }
+
+  const title = `${bomFileName || "BOM"} ×${multiplier}`
+
+  const print = () => {
+    const page = window.open("", "_blank")
+    if (!page) {
+      alert("The browser blocked the print window. Allow pop-ups for this site and try again.")
+      return
+    }
+    page.document.write(pickListHtml(`Pick list: ${title}`, groupPickItems(items, grouping)))
+    page.document.close()
+    page.focus()
+    page.print()
+  }
+
+  const clearTicks = () => {
+    if (placedCount > 0 && !window.confirm("Untick every placed designator?")) return
+    onPlacedChange([])
+  }
+
+  return (
+    <Dialog title={`BOM: ${title}`} onClose={onClose} width="max-w-6xl">
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-400">No BOM is loaded.</p>
+      ) : (
+        <>
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-gray-200">
+              {placedCount} of {allKeys.length} placed
+              {bomLines.length === 0 && (
+                <span className="text-gray-500"> · this BOM was loaded without designators</span>
+              )}
+            </p>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={grouping}
+                onChange={(e) => setGrouping(e.target.value as PickGrouping)}
+                className="h-8 rounded border border-gray-600 bg-gray-700 px-2 text-gray-100"
+              >
+                <option value="location">By storage location</option>
+                <option value="package">By package</option>
+              </select>
+              <label className="flex items-center gap-1 text-gray-300">
+                <input type="checkbox" checked={hidePlaced} onChange={(e) => setHidePlaced(e.target.checked)} />
+                Hide placed
+              </label>
+              <button onClick={clearTicks} className="rounded bg-gray-700 px-3 py-1 text-gray-200 hover:bg-gray-600">
+                Clear Ticks
+              </button>
+              <button onClick={print} className="rounded bg-blue-600 px-3 py-1 font-bold text-white hover:bg-blue-700">
+                Print Pick List
+              </button>
+            </div>
+          </div>
+
+          <div className="max-h-[60vh] overflow-auto rounded border border-gray-700">
+            <table className="w-full text-left text-xs text-gray-300">
+              <thead className="sticky top-0 bg-gray-900 text-gray-200">
+                <tr>
+                  <th className="p-2"></th>
+                  <th className="p-2">LCSC Part</th>
+                  <th className="p-2">Value</th>
+                  <th className="p-2">Package</th>
+                  <th className="p-2">Designators</th>
+                  <th className="p-2 text-right">Qty</th>
+                  <th className="p-2">Locations</th>
+                </tr>
+              </thead>
+              {groups.map((group) => (
+                <tbody key={group.title}>
+                  <tr className="border-t border-gray-700 bg-gray-900/60">
+                    <td colSpan={7} className="p-2 font-bold text-gray-200">
+                      {group.title}
+                    </td>
+                  </tr>
+                  {group.items.map((item) => {
+                    const keys = placementKeys(item)
+                    const done = isDone(keys)
+                    return (
+                      <tr
+                        key={item.lcscId || keys.join(",")}
+                        className={`border-t border-gray-700 ${done ? "text-gray-500" : ""}`}
+                      >
+                        <td className="p-2">
+                          <input type="checkbox" checked={done} onChange={(e) => setPlaced(keys, e.target.checked)} />
+                        </td>
+                        <td className="p-2">
+                          <span className="block font-mono">{item.lcscId || "—"}</span>
+                          <span className="text-gray-500">{item.manufactureId}</span>
+                        </td>
+                        <td className="p-2">{item.value}</td>
+                        <td className="p-2">{item.footprint}</td>
+                        <td className="p-2">
+                          {item.designators.map((designator) => (
+                            <button
+                              key={designator}
+                              onClick={() => setPlaced([designator], !placedSet.has(designator))}
+                              className={`mb-1 mr-1 rounded px-1.5 py-0.5 ${placedSet.has(designator) ? "bg-green-900 text-green-300 line-through" : "bg-gray-700 text-gray-200 hover:bg-gray-600"}`}
+                            >
+                              {designator}
+                            </button>
+                          ))}
+                        </td>
+                        <td className="p-2 text-right">
+                          {item.quantity}
+                          {item.onHand !== null && item.onHand < item.quantity && (
+                            <span className="block text-red-400">{item.onHand} on hand</span>
+                          )}
+                        </td>
+                        <td className="p-2">
+                          {item.locations
+                            .map((location) => `${formatLocationPath(location)} (${location.quantity})`)
+                            .join(", ")}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              ))}
+            </table>
+          </div>
+        </>
+      )}
+    </Dialog>
+  )
+}
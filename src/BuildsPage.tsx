@@ -0,0 +1,158 @@
+import Moment from "moment"
+import { useEffect, useState } from "react"
+import { buildLabel, type BuildRecord } from "./builds"
+import Dialog from "./Dialog"
+import { deleteBuild, loadBuilds } from "./storage"
+
+type BuildsPageProps = {
+  onReopen: (build: BuildRecord) => void
+  onClose: () => void
+}
+
+// Every applied BOM, newest first, with what each build took from stock and
+// cost. "Re-open BOM" loads the same BOM and multiplier again for another run.
+export default function BuildsPage({ onReopen, onClose }: BuildsPageProps) {
+  const [builds, setBuilds] = useState<BuildRecord[] | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [filter, setFilter] = useState<string>("")
+
+  useEffect(() => {
+    loadBuilds()
+      .then(setBuilds)
+      .catch((error) => {
+        console.error("Failed to load builds:", error)
+        setBuilds([])
+      })
+  }, [])
+
+  const query = filter.trim().toLowerCase()
+  const shown = (builds || []).filter(
+    (build) => !query || `${buildLabel(build)} ${build.bomFileName}`.toLowerCase().includes(query)
+  )
+  const selected = shown.find((build) => build.id === selectedId) || shown[0]
+
+  const remove = (build: BuildRecord) => {
+    if (!window.confirm(`Delete the record of ${buildLabel(build)}?\n\nStock isn't touched.`)) return
+    deleteBuild(build.id)
+      .then(() => setBuilds((current) => (current || []).filter((b) => b.id !== build.id)))
+      .catch((error) => alert(`Could not delete the build record.\n\n${error}`))
+  }
+
+  return (
+    <Dialog title="Builds" onClose={onClose} width="max-w-6xl">
+      {builds === null ? (
+        <p className="text-sm text-gray-400">Loading…</p>
+      ) : builds.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          No builds yet. Applying a BOM records one, with the parts it used and what they cost.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-4 md:flex-row">
+          <div className="md:w-72">
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter by project or BOM…"
+              className="mb-2 h-9 w-full rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
+            />
+            <div className="max-h-[60vh] overflow-auto rounded border border-gray-700">
+              {shown.map((build) => (
+                <button
+                  key={build.id}
+                  onClick={() => setSelectedId(build.id)}
+                  className={`block w-full border-b border-gray-700 px-3 py-2 text-left text-xs ${build.id === selected?.id ? "bg-gray-700" : "hover:bg-gray-700/50"}`}
+                >
+                  <span className="block font-bold text-gray-100">{buildLabel(build)}</span>
+                  <span className="text-gray-400">
+                    {Moment(build.date).format("YYYY-MM-DD HH:mm")} · ×{build.multiplier} · $
+                    {build.stockCost.toFixed(2)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {selected && (
+            <div className="min-w-0 flex-1">
+              <div className="mb-3 flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <h3 className="font-bold text-gray-100">{buildLabel(selected)}</h3>
+                  <p className="text-xs text-gray-400">
+                    {Moment(selected.date).format("YYYY-MM-DD HH:mm")} · ×{selected.multiplier} ·{" "}
+                    {selected.bomFileName || "no BOM file name"}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => remove(selected)}
+                    className="rounded bg-gray-700 px-3 py-1 text-sm text-red-400 hover:bg-gray-600"
+                  >
+                    Delete record
+                  </button>
+                  <button
+                    onClick={() => onReopen(selected)}
+                    className="rounded bg-blue-600 px-3 py-1 text-sm font-bold text-white hover:bg-blue-700"
+                  >
+                    Re-open BOM
+                  </button>
+                </div>
+              </div>
+
+              <p className="mb-3 text-sm text-gray-200">
+                Parts from stock: <span className="font-bold">${selected.stockCost.toFixed(2)}</span>
+                {selected.shortfallCost > 0 && (
+                  <>
+                    {" "}
+                    · short, est.: <span className="font-bold">${selected.shortfallCost.toFixed(2)}</span> · total{" "}
+                    <span className="font-bold">${(selected.stockCost + selected.shortfallCost).toFixed(2)}</span>
+                  </>
+                )}
+                {selected.multiplier > 1 && (
+                  <span className="text-gray-400">
+                    {" "}
+                    · ${((selected.stockCost + selected.shortfallCost) / selected.multiplier).toFixed(2)} per board
+                  </span>
+                )}
+              </p>
+
+              <div className="max-h-[55vh] overflow-auto rounded border border-gray-700">
+                <table className="w-full text-left text-xs text-gray-300">
+                  <thead className="sticky top-0 bg-gray-900 text-gray-200">
+                    <tr>
+                      <th className="p-2">LCSC Part</th>
+                      <th className="p-2">Mfr ID</th>
+                      <th className="p-2 text-right">Per board</th>
+                      <th className="p-2 text-right">Needed</th>
+                      <th className="p-2 text-right">Used</th>
+                      <th className="p-2 text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.lines.map((line) => (
+                      <tr key={line.lcscId} className="border-t border-gray-700">
+                        <td className="p-2 font-mono">{line.lcscId}</td>
+                        <td className="p-2">{line.manufactureId}</td>
+                        <td className="p-2 text-right">{line.perBoard}</td>
+                        <td className="p-2 text-right">{line.needed}</td>
+                        <td className={`p-2 text-right ${line.consumed < line.needed ? "text-red-400" : ""}`}>
+                          {line.missing ? "not in inventory" : line.consumed}
+                        </td>
+                        <td className="p-2 text-right">
+                          ${line.stockCost.toFixed(2)}
+                          {line.shortfallCost > 0 && (
+                            <span className="block text-gray-500">+ ${line.shortfallCost.toFixed(2)} short</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Dialog>
+  )
+}
@@ -0,0 +1,92 @@
+import { useState } from "react"
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import { EDITABLE_FIELDS, editValue, fieldLabel, parseEditValue, type EditableField } from "./partEdits"
+
+type BulkEditDialogProps = {
+  // The selected parts.
+  rows: AggregatedRow[]
+  onApply: (field: EditableField, value: string | number, note: string) => void
+  onClose: () => void
+}
+
+const FIELD = "h-9 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
+
+// Sets one field to the same value on every selected part, as one undo step.
+// Recounts and repricing go through the ledger, with the note as the reason.
+export default function BulkEditDialog({ rows, onApply, onClose }: BulkEditDialogProps) {
+  const [field, setField] = useState<EditableField>("manufacturer")
+  const [value, setValue] = useState<string>("")
+  const [note, setNote] = useState<string>("")
+
+  const parsed = parseEditValue(field, value)
+  const changing = parsed.error === undefined ? rows.filter((row) => editValue(row, field) !== String(parsed.value)).length : 0
+  const throughLedger = field === "quantity" || field === "unitPrice"
+
+  return (
+    <Dialog title={`Edit ${rows.length} part${rows.length === 1 ? "" : "s"}`} onClose={onClose} width="max-w-lg">
+      <div className="mb-4 flex gap-3">
+        <label className="w-40 text-xs text-gray-400">
+          Field
+          <select
+            value={field}
+            onChange={(e) => setField(e.target.value as EditableField)}
+            className={`${FIELD} mt-1 block w-full`}
+          >
+            {EDITABLE_FIELDS.filter((entry) => entry.bulk).map((entry) => (
+              <option key={entry.field} value={entry.field}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex-1 text-xs text-gray-400">
+          Set to
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={`${FIELD} mt-1 block w-full`}
+            autoFocus
+          />
+        </label>
+      </div>
+
+      {throughLedger && (
+        <label className="mb-4 block text-xs text-gray-400">
+          Note for the stock history
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={field === "quantity" ? "Stock count correction" : "e.g. Corrected from invoice"}
+            className={`${FIELD} mt-1 block w-full`}
+          />
+        </label>
+      )}
+
+      <p className={`mb-4 text-sm ${parsed.error !== undefined && value.trim() ? "text-red-400" : "text-gray-300"}`}>
+        {parsed.error !== undefined
+          ? value.trim()
+            ? parsed.error
+            : `Type the new ${fieldLabel(field).toLowerCase()}.`
+          : changing === rows.length
+            ? `Changes all ${rows.length}.`
+            : `Changes ${changing} of ${rows.length}; the rest already have it.`}
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+          Cancel
+        </button>
+        <button
+          onClick={() => parsed.error === undefined && onApply(field, parsed.value, note.trim())}
+          disabled={parsed.error !== undefined || changing === 0}
+          className={`rounded px-4 py-2 font-bold text-white ${parsed.error !== undefined || changing === 0 ? "cursor-not-allowed bg-gray-600" : "bg-green-600 hover:bg-green-700"}`}
+        >
+          Apply
+        </button>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,133 @@
+import { useState } from "react"
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import { biggestMovers, formatChange, spendOf, stockValueOf, valueBy, type ValueGroup } from "./priceStats"
+
+type CostDashboardProps = {
+  rows: AggregatedRow[]
+  onShowPart: (lcscId: string) => void
+  onClose: () => void
+}
+
+const TOP_GROUPS = 12
+const TOP_MOVERS = 15
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="rounded bg-gray-900 p-3">
+    <p className="text-xs text-gray-400">{label}</p>
+    <p className="text-lg font-bold text-gray-100">{value}</p>
+  </div>
+)
+
+const ValueBars = ({ groups, total }: { groups: ValueGroup[]; total: number }) => {
+  const largest = groups[0]?.value || 1
+  return (
+    <div className="space-y-1">
+      {groups.slice(0, TOP_GROUPS).map((group) => (
+        <div key={group.label} className="text-xs text-gray-300" title={`${group.parts} parts, ${group.quantity} pcs`}>
+          <div className="flex justify-between gap-2">
+            <span className="truncate">{group.label}</span>
+            <span className="whitespace-nowrap">
+              ${group.value.toFixed(2)}
+              <span className="text-gray-500"> · {total > 0 ? Math.round((group.value / total) * 100) : 0}%</span>
+            </span>
+          </div>
+          <div className="h-2 overflow-hidden rounded bg-gray-700">
+            <div className="h-full bg-blue-500" style={{ width: `${(group.value / largest) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+      {groups.length > TOP_GROUPS && (
+        <p className="pt-1 text-xs text-gray-500">…and {groups.length - TOP_GROUPS} more</p>
+      )}
+    </div>
+  )
+}
+
+// Where the money went: everything ever bought, what's on the shelf now and
+// who/what it's tied up in, and which parts got dearer or cheaper.
+export default function CostDashboard({ rows, onShowPart, onClose }: CostDashboardProps) {
+  const [groupBy, setGroupBy] = useState<"manufacturer" | "package">("manufacturer")
+
+  const totalSpend = rows.reduce((sum, row) => sum + spendOf(row), 0)
+  const stockValue = rows.reduce((sum, row) => sum + stockValueOf(row), 0)
+  const unpriced = rows.filter((row) => row.unitPrice === 0).length
+  const movers = biggestMovers(rows, TOP_MOVERS)
+
+  return (
+    <Dialog title="Cost dashboard" onClose={onClose} width="max-w-5xl">
+      <div className="mb-4 grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <Stat label="Total spent" value={`$${totalSpend.toFixed(2)}`} />
+        <Stat label="Stock value" value={`$${stockValue.toFixed(2)}`} />
+        <Stat label="Parts" value={`${rows.length}`} />
+        <Stat label="Unpriced parts" value={`${unpriced}`} />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <div className="mb-2 flex items-center justify-between">
+            <h3 className="text-sm font-bold text-gray-200">Stock value by</h3>
+            <div className="flex overflow-hidden rounded border border-gray-600 text-xs">
+              {(["manufacturer", "package"] as const).map((field) => (
+                <button
+                  key={field}
+                  onClick={() => setGroupBy(field)}
+                  className={`px-3 py-1 ${groupBy === field ? "bg-blue-600 text-white" : "bg-gray-700 text-gray-300 hover:bg-gray-600"}`}
+                >
+                  {field}
+                </button>
+              ))}
+            </div>
+          </div>
+          {stockValue > 0 ? (
+            <ValueBars groups={valueBy(rows, groupBy)} total={stockValue} />
+          ) : (
+            <p className="text-xs text-gray-500">Nothing in stock has a price.</p>
+          )}
+        </div>
+
+        <div>
+          <h3 className="mb-2 text-sm font-bold text-gray-200">Biggest price moves</h3>
+          {movers.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              No part has been bought at two different prices yet.
+            </p>
+          ) : (
+            <div className="max-h-[50vh] overflow-auto rounded border border-gray-700">
+              <table className="w-full text-left text-xs text-gray-300">
+                <thead className="sticky top-0 bg-gray-900 text-gray-200">
+                  <tr>
+                    <th className="p-2">LCSC Part</th>
+                    <th className="p-2 text-right">First</th>
+                    <th className="p-2 text-right">Latest</th>
+                    <th className="p-2 text-right">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {movers.map(({ row, change, first, last }) => (
+                    <tr key={row.lcscId} className="border-t border-gray-700">
+                      <td className="p-2">
+                        <button
+                          onClick={() => onShowPart(row.lcscId)}
+                          title={row.manufactureId}
+                          className="text-blue-400 underline hover:text-blue-300"
+                        >
+                          {row.lcscId}
+                        </button>
+                      </td>
+                      <td className="p-2 text-right">${first.toFixed(4)}</td>
+                      <td className="p-2 text-right">${last.toFixed(4)}</td>
+                      <td className={`p-2 text-right font-bold ${change > 0 ? "text-red-400" : "text-green-400"}`}>
+                        {formatChange(change)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </Dialog>
+  )
+}
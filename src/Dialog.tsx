@@ -0,0 +1,33 @@
+import type { ReactNode } from "react"
+
+type DialogProps = {
+  title: string
+  onClose: () => void
+  children: ReactNode
+  // Tailwind max-width class; the Add dialog's max-w-2xl suits most forms.
+  width?: string
+}
+
+// Shared overlay + panel for the app's modal dialogs. Clicking the backdrop or
+// the ✕ closes it; clicks inside the panel don't bubble out to the backdrop.
+export default function Dialog({ title, onClose, children, width = "max-w-2xl" }: DialogProps) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-black/70 p-4 py-10"
+      onClick={onClose}
+    >
+      <div
+        className={`w-full ${width} rounded-lg border border-gray-700 bg-gray-800 p-5`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-100">{title}</h2>
+          <button onClick={onClose} className="px-2 text-gray-400 hover:text-gray-200">
+            ✕
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  )
+}
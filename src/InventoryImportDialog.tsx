@@ -0,0 +1,156 @@
+import { useState } from "react"
+import type { ParsedCsv } from "./csv"
+import Dialog from "./Dialog"
+import type { ReorderThresholds, RowData } from "./inventory"
+import {
+  INVENTORY_FIELDS,
+  initialMapping,
+  mapInventoryRows,
+  type InventoryColumnMapping,
+  type InventoryField,
+  type SavedImportMapping,
+} from "./inventoryImport"
+import { formatLocations } from "./locations"
+
+type InventoryImportDialogProps = {
+  fileName: string
+  csv: ParsedCsv
+  combining: boolean
+  savedMappings: SavedImportMapping[]
+  onImport: (rows: (RowData & ReorderThresholds)[], mapping: InventoryColumnMapping, remember: boolean) => void
+  onClose: () => void
+}
+
+const PREVIEW_ROWS = 8
+const REJECTED_SHOWN = 50
+
+// The inventory CSV as it will be imported: which column feeds each field,
+// the first rows as parsed, and every row that will be left out and why —
+// before anything is written.
+export default function InventoryImportDialog({
+  fileName,
+  csv,
+  combining,
+  savedMappings,
+  onImport,
+  onClose,
+}: InventoryImportDialogProps) {
+  const [initial] = useState(() => initialMapping(csv.headers, savedMappings))
+  const [mapping, setMapping] = useState<InventoryColumnMapping>(initial.mapping)
+  const [remember, setRemember] = useState<boolean>(true)
+
+  const { rows, rejected } = mapInventoryRows(csv.records, mapping)
+  const missingRequired = INVENTORY_FIELDS.filter(({ field, required }) => required && !mapping[field])
+  const canImport = missingRequired.length === 0 && rows.length > 0
+
+  const setColumn = (field: InventoryField, header: string) => setMapping({ ...mapping, [field]: header })
+
+  return (
+    <Dialog title={`${combining ? "Combine" : "Import"} ${fileName}`} onClose={onClose} width="max-w-5xl">
+      <p className="mb-3 text-sm text-gray-300">
+        {csv.records.length} rows, columns: <span className="text-gray-400">{csv.headers.join(", ")}</span>
+      </p>
+      {initial.remembered && (
+        <p className="mb-3 text-xs text-gray-400">Using the mapping saved for {initial.remembered.source}.</p>
+      )}
+
+      <div className="mb-4 grid grid-cols-2 gap-3 md:grid-cols-5">
+        {INVENTORY_FIELDS.map(({ field, label, required }) => (
+          <label key={field} className="text-xs text-gray-400">
+            {label}
+            {required && " *"}
+            <select
+              value={mapping[field]}
+              onChange={(e) => setColumn(field, e.target.value)}
+              className={`mt-1 block h-9 w-full rounded border bg-gray-700 px-2 text-sm text-gray-100 ${
+                required && !mapping[field] ? "border-orange-500" : "border-gray-600"
+              }`}
+            >
+              <option value="">— none —</option>
+              {csv.headers.map((header) => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {missingRequired.length > 0 ? (
+        <p className="mb-4 text-sm text-orange-400">
+          Pick the column for {missingRequired.map(({ label }) => label).join(" and ")}.
+        </p>
+      ) : (
+        <>
+          <div className="mb-4 max-h-[30vh] overflow-auto rounded border border-gray-700">
+            <table className="w-full text-left text-xs text-gray-300">
+              <thead className="sticky top-0 bg-gray-900 text-gray-200">
+                <tr>
+                  <th className="p-2">LCSC Part</th>
+                  <th className="p-2">Mfr Part</th>
+                  <th className="p-2">Manufacturer</th>
+                  <th className="p-2">Package</th>
+                  <th className="p-2 text-right">Qty</th>
+                  <th className="p-2 text-right">Unit $</th>
+                  <th className="p-2">Locations</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i} className="border-t border-gray-700">
+                    <td className="p-2 font-mono">{row.lcscId}</td>
+                    <td className="p-2">{row.manufactureId}</td>
+                    <td className="p-2">{row.manufacturer}</td>
+                    <td className="p-2">{row.package}</td>
+                    <td className="p-2 text-right">{row.quantity}</td>
+                    <td className="p-2 text-right">{row.unitPrice ? row.unitPrice.toFixed(4) : ""}</td>
+                    <td className="p-2">{formatLocations(row.locations)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > PREVIEW_ROWS && (
+              <p className="border-t border-gray-700 p-2 text-xs text-gray-500">…and {rows.length - PREVIEW_ROWS} more rows</p>
+            )}
+          </div>
+
+          {rejected.length > 0 && (
+            <div className="mb-4">
+              <p className="mb-1 text-sm text-orange-400">
+                {rejected.length} row{rejected.length === 1 ? "" : "s"} will be left out:
+              </p>
+              <ul className="max-h-32 overflow-auto rounded border border-gray-700 p-2 text-xs text-gray-400">
+                {rejected.slice(0, REJECTED_SHOWN).map((row) => (
+                  <li key={row.line}>
+                    Line {row.line}: {row.reason}
+                  </li>
+                ))}
+                {rejected.length > REJECTED_SHOWN && <li>…and {rejected.length - REJECTED_SHOWN} more</li>}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+          Remember this mapping for files with these columns
+        </label>
+        <div className="flex gap-2">
+          <button onClick={onClose} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(rows, mapping, remember)}
+            disabled={!canImport}
+            className={`rounded px-4 py-2 font-bold text-white ${canImport ? "bg-green-600 hover:bg-green-700" : "cursor-not-allowed bg-gray-600"}`}
+          >
+            {combining ? "Combine" : "Import"} {rows.length} rows
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  )
+}
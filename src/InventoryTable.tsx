@@ -0,0 +1,636 @@
+import { memo, useEffect, useMemo, useRef, useState, type ReactNode, type RefObject } from "react"
+import Moment from "moment"
+import BulkEditDialog from "./BulkEditDialog"
+import type { AggregatedRow } from "./inventory"
+import { lcscProductUrl } from "./lcsc"
+import { formatLocationPath } from "./locations"
+import { EDITABLE_FIELDS, editValue, parseEditValue, type EditableField } from "./partEdits"
+import { formatThresholds, isBelowMinimum } from "./reorder"
+import { reservedQuantities, type Reservation } from "./reservations"
+import { sortIndicator, type SortField, type SortKey } from "./views"
+
+// Row callbacks, by LCSC ID.
+export type InventoryTableActions = {
+  onQuantityChange: (lcscId: string, value: string) => void
+  onEditLocations: (lcscId: string) => void
+  onShowHistory: (lcscId: string) => void
+  onShowReservations: () => void
+  onEditThresholds: (lcscId: string) => void
+  onShowPrices: (lcscId: string) => void
+  onDelete: (lcscId: string) => void
+  // A validated cell edit.
+  onEditCell: (lcscId: string, field: EditableField, value: string | number) => void
+  onBulkEdit: (lcscIds: string[], field: EditableField, value: string | number, note: string) => void
+}
+
+type InventoryTableProps = InventoryTableActions & {
+  // Filtered and sorted.
+  rows: AggregatedRow[]
+  multiplier: number
+  reservations: Reservation[]
+  sortKeys: SortKey[]
+  onSort: (field: SortField, additive: boolean) => void
+}
+
+const SORT_HINT = "Click to sort, Shift+click to add a tie-breaking column"
+const EDIT_HINT = "Double-click, Enter or start typing to edit; arrow keys move between cells"
+
+const COLUMNS: { label: string; width: string; field?: SortField }[] = [
+  { label: "LCSC ID", width: "w-[100px]", field: "lcscId" },
+  { label: "Mfr", width: "w-[120px]", field: "manufacturer" },
+  { label: "Mfr ID", width: "w-[200px]", field: "manufactureId" },
+  { label: "Package", width: "w-[170px]", field: "package" },
+  { label: "Location", width: "w-[150px]" },
+  { label: "On hand", width: "w-[80px]", field: "quantity" },
+  { label: "Reserved", width: "w-[80px]" },
+  { label: "Available", width: "w-[80px]" },
+  { label: "BOM Qty", width: "w-[100px]" },
+  { label: "Remaining", width: "w-[90px]" },
+  { label: "Min/Target", width: "w-[90px]" },
+  { label: "Unit $", width: "w-[100px]", field: "unitPrice" },
+  { label: "Total $", width: "w-[100px]" },
+  { label: "Description", width: "w-[610px]", field: "description" },
+]
+
+// Rows are a fixed height so the window can be worked out from the scroll
+// position alone; cells that could grow (locations, description) are clipped.
+const ROW_HEIGHT = 64
+// Rendered above and below the visible rows, so fast scrolling doesn't flash.
+const OVERSCAN = 10
+const SHOWN_LOCATIONS = 2
+
+// The cell being typed into.
+type CellEdit = {
+  lcscId: string
+  field: EditableField
+  draft: string
+  // What it started as; committing it unchanged changes nothing.
+  initial: string
+  error: string
+}
+
+// The table's own cell and selection handling, for rows and cells.
+type CellHandlers = {
+  activate: (lcscId: string, field: EditableField) => void
+  startEdit: (lcscId: string, field: EditableField, draft?: string) => void
+  move: (lcscId: string, field: EditableField, rowStep: number, fieldStep: number) => void
+  changeDraft: (draft: string) => void
+  // Moves on by `step` (rows, fields) when the edit is valid.
+  commit: (step?: [number, number]) => void
+  cancel: () => void
+  toggleSelected: (lcscId: string, extend: boolean) => void
+}
+
+const CELL_MOVES: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+}
+
+type EditableCellProps = {
+  lcscId: string
+  field: EditableField
+  active: boolean
+  // Only for the cell being edited.
+  edit: CellEdit | null
+  className: string
+  cells: RefObject<CellHandlers>
+  children: ReactNode
+}
+
+// A spreadsheet-style cell: focusable, edited in place, and left with the
+// arrow keys. Only the active cell is in the tab order.
+function EditableCell({ lcscId, field, active, edit, className, cells, children }: EditableCellProps) {
+  const cellRef = useRef<HTMLDivElement>(null)
+  const editing = edit !== null
+
+  // Follow the active cell, but not out of the search box or a dialog: only
+  // when focus is already in the table or nowhere.
+  useEffect(() => {
+    const cell = cellRef.current
+    if (!active || editing || !cell) return
+    const focused = document.activeElement
+    if (!focused || focused === document.body || cell.closest('[role="grid"]')?.contains(focused)) cell.focus()
+  }, [active, editing])
+
+  return (
+    <div
+      ref={cellRef}
+      role="gridcell"
+      tabIndex={active ? 0 : -1}
+      title={editing ? undefined : EDIT_HINT}
+      onClick={() => cells.current.activate(lcscId, field)}
+      onDoubleClick={() => cells.current.startEdit(lcscId, field)}
+      onKeyDown={(e) => {
+        if (editing || e.target !== e.currentTarget) return
+        const step = CELL_MOVES[e.key]
+        if (step) {
+          e.preventDefault()
+          cells.current.move(lcscId, field, ...step)
+        } else if (e.key === "Enter" || e.key === "F2") {
+          e.preventDefault()
+          cells.current.startEdit(lcscId, field)
+        } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          e.preventDefault()
+          cells.current.startEdit(lcscId, field, e.key)
+        }
+      }}
+      className={`${className} relative border-r border-gray-700 outline-none ${active ? "ring-2 ring-inset ring-blue-500" : ""}`}
+    >
+      {edit ? (
+        <>
+          <input
+            autoFocus
+            value={edit.draft}
+            onChange={(e) => cells.current.changeDraft(e.target.value)}
+            onBlur={() => cells.current.commit()}
+            onKeyDown={(e) => {
+              e.stopPropagation()
+              if (e.key === "Enter") {
+                e.preventDefault()
+                cells.current.commit([e.shiftKey ? -1 : 1, 0])
+              } else if (e.key === "Tab") {
+                e.preventDefault()
+                cells.current.commit([0, e.shiftKey ? -1 : 1])
+              } else if (e.key === "Escape") {
+                e.preventDefault()
+                cells.current.cancel()
+              }
+            }}
+            aria-invalid={edit.error ? true : undefined}
+            className={`w-full rounded border px-1 py-1 text-xs text-gray-100 bg-gray-700 ${edit.error ? "border-red-500" : "border-blue-500"}`}
+          />
+          {edit.error && (
+            <span className="absolute left-1 top-full z-10 -mt-2 whitespace-nowrap rounded bg-red-900 px-2 py-1 text-[10px] text-red-100">
+              {edit.error}
+            </span>
+          )}
+        </>
+      ) : (
+        children
+      )}
+    </div>
+  )
+}
+
+type InventoryRowProps = {
+  row: AggregatedRow
+  striped: boolean
+  multiplier: number
+  reservedQty: number
+  heldFor: string
+  selected: boolean
+  // Only for the row with the active cell.
+  activeField: EditableField | null
+  edit: CellEdit | null
+  actions: RefObject<InventoryTableActions>
+  cells: RefObject<CellHandlers>
+}
+
+// Memoized on its own props: typing a BOM quantity rerenders that row only.
+const InventoryRow = memo(function InventoryRow({
+  row,
+  striped,
+  multiplier,
+  reservedQty,
+  heldFor,
+  selected,
+  activeField,
+  edit,
+  actions,
+  cells,
+}: InventoryRowProps) {
+  const usedQty = (row.editedQuantity || 0) * multiplier
+  const availableQty = row.quantity - reservedQty
+  const remainingQty = availableQty - usedQty
+  const remainingCost = (row.quantity - usedQty) * row.unitPrice
+  const isLow = isBelowMinimum(row, multiplier)
+  const hiddenLocations = row.locations.length > SHOWN_LOCATIONS ? row.locations.length - 1 : 0
+  const cell = (field: EditableField) => ({
+    lcscId: row.lcscId,
+    field,
+    active: activeField === field,
+    edit: edit?.field === field ? edit : null,
+    cells,
+  })
+
+  return (
+    <div
+      role="row"
+      aria-selected={selected}
+      className={`flex border-b border-gray-700 ${selected ? "bg-blue-950" : isLow ? "bg-red-950" : striped ? "bg-gray-800" : "bg-gray-900"}`}
+      style={{ height: ROW_HEIGHT }}
+    >
+      <div className="w-[40px] border-r border-gray-700 flex items-center justify-center">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={(e) => cells.current.toggleSelected(row.lcscId, (e.nativeEvent as MouseEvent).shiftKey)}
+          title={`Select ${row.lcscId} for bulk editing (Shift+click selects a range)`}
+        />
+      </div>
+      <div className="w-[100px] px-3 py-1 text-xs border-r border-gray-700 flex flex-col justify-center">
+        <a
+          href={lcscProductUrl(row.lcscId)}
+          target="_blank"
+          rel="noreferrer"
+          title={
+            row.lcsc
+              ? `Open ${row.lcscId} on lcsc.com — ${row.lcsc.stock} in stock at LCSC as of ${Moment(row.lcsc.refreshedAt).format("YYYY-MM-DD")}`
+              : `Open ${row.lcscId} on lcsc.com`
+          }
+          className="text-blue-400 underline hover:text-blue-300"
+        >
+          {row.lcscId}
+        </a>
+        {row.lcsc?.discontinued && <span className="text-[10px] font-bold text-orange-400">DISCONTINUED</span>}
+        {row.lcsc?.datasheetUrl && (
+          <a
+            href={row.lcsc.datasheetUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="text-[10px] text-gray-400 underline hover:text-gray-200"
+          >
+            datasheet
+          </a>
+        )}
+      </div>
+      <EditableCell {...cell("manufacturer")} className="w-[120px] p-3 text-xs text-gray-300 flex items-center">
+        {row.manufacturer}
+      </EditableCell>
+      <EditableCell {...cell("manufactureId")} className="w-[200px] p-3 text-xs text-gray-300 flex items-center">
+        {row.manufactureId}
+      </EditableCell>
+      <EditableCell {...cell("package")} className="w-[170px] p-3 text-xs text-gray-300 flex items-center">
+        {row.package}
+      </EditableCell>
+      <div className="w-[150px] px-3 py-1 text-xs border-r border-gray-700 flex items-center overflow-hidden">
+        <button
+          onClick={() => actions.current.onEditLocations(row.lcscId)}
+          title={`Set where ${row.lcscId} is stored`}
+          className="w-full text-left hover:text-gray-100"
+        >
+          {row.locations.length > 0 ? (
+            <>
+              {row.locations.slice(0, hiddenLocations ? 1 : SHOWN_LOCATIONS).map((location) => (
+                <span key={formatLocationPath(location)} className="block truncate text-gray-300">
+                  {formatLocationPath(location)}
+                  {row.locations.length > 1 && <span className="text-gray-500"> ×{location.quantity}</span>}
+                </span>
+              ))}
+              {hiddenLocations > 0 && <span className="block text-gray-500">+{hiddenLocations} more</span>}
+            </>
+          ) : (
+            <span className="text-gray-500 italic">+ assign</span>
+          )}
+        </button>
+      </div>
+      <EditableCell
+        {...cell("quantity")}
+        className={`w-[80px] px-3 py-1 text-xs text-right flex flex-col items-end justify-center ${row.minQuantity && row.quantity < row.minQuantity ? "text-red-400 font-bold" : "text-gray-300"
+          }`}
+      >
+        {row.quantity}
+        <button
+          onClick={() => actions.current.onShowHistory(row.lcscId)}
+          title={`Show stock history for ${row.lcscId}`}
+          className="text-[10px] font-normal text-gray-400 underline hover:text-gray-200"
+        >
+          history
+        </button>
+      </EditableCell>
+      <div className="w-[80px] p-3 text-xs text-right text-gray-400 border-r border-gray-700 flex items-center justify-end">
+        {reservedQty > 0 ? (
+          <button
+            onClick={() => actions.current.onShowReservations()}
+            title={`Held for ${heldFor}`}
+            className="underline decoration-dotted hover:text-gray-100"
+          >
+            {reservedQty}
+          </button>
+        ) : (
+          "—"
+        )}
+      </div>
+      <div
+        className={`w-[80px] p-3 text-xs text-right border-r border-gray-700 flex items-center justify-end ${availableQty < 0 ? "text-red-400 font-bold" : "text-gray-300"}`}
+      >
+        {availableQty}
+      </div>
+      <div className="w-[100px] p-3 border-r border-gray-700 flex items-center">
+        <input
+          type="number"
+          value={row.editedQuantity || ""}
+          onChange={(e) => actions.current.onQuantityChange(row.lcscId, e.target.value)}
+          placeholder="0"
+          className={`w-full border rounded px-2 py-1 text-xs text-center ${(row.editedQuantity || 0) > 0
+              ? "border-orange-500 bg-orange-900 text-orange-200"
+              : "border-gray-600 bg-gray-700 text-gray-200"
+            }`}
+        />
+      </div>
+      <div
+        className={`w-[90px] p-3 text-xs text-center border-r border-gray-700 flex items-center justify-end ${(row.editedQuantity || 0) > 0 ? "text-orange-400 font-bold" : "text-gray-300"
+          }`}
+      >
+        {remainingQty}
+      </div>
+      <div className="w-[90px] p-3 text-xs border-r border-gray-700 flex items-center justify-end">
+        <button
+          onClick={() => actions.current.onEditThresholds(row.lcscId)}
+          title={`Set the minimum stock of ${row.lcscId}`}
+          className={`w-full text-right ${isLow ? "text-red-400 font-bold" : "text-gray-300"} hover:text-gray-100`}
+        >
+          {formatThresholds(row) || <span className="text-gray-500 italic font-normal">+ set</span>}
+        </button>
+      </div>
+      <EditableCell
+        {...cell("unitPrice")}
+        className="w-[100px] px-3 py-1 text-xs text-gray-300 text-right flex flex-col items-end justify-center"
+      >
+        ${row.unitPrice.toFixed(4)}
+        <button
+          onClick={() => actions.current.onShowPrices(row.lcscId)}
+          title={`Show price history for ${row.lcscId}`}
+          className="text-[10px] text-gray-400 underline hover:text-gray-200"
+        >
+          prices
+        </button>
+      </EditableCell>
+      <div
+        className={`w-[100px] p-3 text-xs text-right border-r border-gray-700 flex items-center justify-end ${(row.editedQuantity || 0) > 0 ? "text-orange-400 font-bold" : "text-gray-300"
+          }`}
+      >
+        ${remainingCost.toFixed(2)}
+      </div>
+      <EditableCell {...cell("description")} className="w-[610px] px-3 text-xs text-gray-300 flex items-center">
+        <span className="line-clamp-2">{row.description}</span>
+      </EditableCell>
+      <div className="w-[70px] p-3 flex items-center justify-center">
+        <button
+          onClick={() => actions.current.onDelete(row.lcscId)}
+          title={`Remove ${row.lcscId} from inventory`}
+          className="rounded px-2 py-1 text-xs text-red-400 hover:bg-red-900 hover:text-red-200"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  )
+})
+
+// The inventory table. Only the rows in (or near) the viewport are rendered —
+// the page scrolls as usual, and spacers stand in for the rest — so its cost
+// doesn't grow with the part count.
+export default function InventoryTable({
+  rows,
+  multiplier,
+  reservations,
+  sortKeys,
+  onSort,
+  ...actions
+}: InventoryTableProps) {
+  // Rows get the latest callbacks through a ref, so new closures from the
+  // parent don't count as changed props.
+  const actionsRef = useRef<InventoryTableActions>(actions)
+  useEffect(() => {
+    actionsRef.current = actions
+  })
+
+  const reserved = useMemo(() => reservedQuantities(reservations), [reservations])
+  const holders = useMemo(() => {
+    const names = new Map<string, string[]>()
+    for (const reservation of reservations) {
+      for (const line of reservation.lines) names.set(line.lcscId, [...(names.get(line.lcscId) || []), reservation.name])
+    }
+    return names
+  }, [reservations])
+
+  const bodyRef = useRef<HTMLDivElement>(null)
+  const [range, setRange] = useState<{ start: number; end: number }>({ start: 0, end: 2 * OVERSCAN })
+
+  // Rechecked after every render too: panels above the table (BOM shortages,
+  // search problems) move it without a scroll event.
+  const updateRangeRef = useRef<() => void>(() => {})
+  useEffect(() => {
+    updateRangeRef.current = () => {
+      const body = bodyRef.current
+      if (!body) return
+      const top = body.getBoundingClientRect().top
+      const start = Math.max(0, Math.floor(-top / ROW_HEIGHT) - OVERSCAN)
+      const end = Math.max(start, Math.ceil((window.innerHeight - top) / ROW_HEIGHT) + OVERSCAN)
+      setRange((previous) => (previous.start === start && previous.end === end ? previous : { start, end }))
+    }
+    updateRangeRef.current()
+  })
+
+  useEffect(() => {
+    const onScroll = () => updateRangeRef.current()
+    window.addEventListener("scroll", onScroll, { passive: true })
+    window.addEventListener("resize", onScroll)
+    return () => {
+      window.removeEventListener("scroll", onScroll)
+      window.removeEventListener("resize", onScroll)
+    }
+  }, [])
+
+  const start = Math.min(range.start, rows.length)
+  const end = Math.min(range.end, rows.length)
+  const positions = useMemo(() => new Map(rows.map((row, i) => [row.lcscId, i])), [rows])
+
+  // Brings a row into the window, so it's rendered and can take focus.
+  const scrollToRow = (index: number) => {
+    const body = bodyRef.current
+    if (!body) return
+    const top = body.getBoundingClientRect().top + index * ROW_HEIGHT
+    if (top < 0) window.scrollBy(0, top)
+    else if (top + ROW_HEIGHT > window.innerHeight) window.scrollBy(0, top + ROW_HEIGHT - window.innerHeight)
+  }
+
+  const [active, setActive] = useState<{ lcscId: string; field: EditableField } | null>(null)
+  const [edit, setEdit] = useState<CellEdit | null>(null)
+  // Also kept in a ref: an input's blur can follow the keypress that ended
+  // its edit before there's been a render.
+  const editRef = useRef<CellEdit | null>(null)
+  const changeEdit = (next: CellEdit | null) => {
+    editRef.current = next
+    setEdit(next)
+  }
+
+  const [selected, setSelected] = useState<Set<string>>(() => new Set())
+  // The last part clicked, where a Shift+click range starts.
+  const anchorRef = useRef<string | null>(null)
+  // Parts filtered out of view stay selected but aren't edited.
+  const selectedRows = useMemo(() => rows.filter((row) => selected.has(row.lcscId)), [rows, selected])
+  const [bulkEditing, setBulkEditing] = useState<boolean>(false)
+
+  const cellHandlers: CellHandlers = {
+    activate: (lcscId, field) => {
+      const current = editRef.current
+      if (current && (current.lcscId !== lcscId || current.field !== field)) changeEdit(null)
+      setActive({ lcscId, field })
+    },
+    startEdit: (lcscId, field, draft) => {
+      const row = rows[positions.get(lcscId) ?? -1]
+      if (!row) return
+      const initial = editValue(row, field)
+      setActive({ lcscId, field })
+      changeEdit({ lcscId, field, draft: draft ?? initial, initial, error: "" })
+    },
+    move: (lcscId, field, rowStep, fieldStep) => {
+      const index = positions.get(lcscId)
+      if (index === undefined) return
+      const next = Math.min(Math.max(index + rowStep, 0), rows.length - 1)
+      const column = EDITABLE_FIELDS.findIndex((entry) => entry.field === field)
+      const nextField = EDITABLE_FIELDS[Math.min(Math.max(column + fieldStep, 0), EDITABLE_FIELDS.length - 1)].field
+      scrollToRow(next)
+      setActive({ lcscId: rows[next].lcscId, field: nextField })
+    },
+    changeDraft: (draft) => {
+      if (editRef.current) changeEdit({ ...editRef.current, draft, error: "" })
+    },
+    commit: (step) => {
+      const current = editRef.current
+      if (!current) return
+      const parsed = parseEditValue(current.field, current.draft)
+      if (parsed.error !== undefined) {
+        changeEdit({ ...current, error: parsed.error })
+        return
+      }
+      changeEdit(null)
+      if (current.draft.trim() !== current.initial.trim()) {
+        actionsRef.current.onEditCell(current.lcscId, current.field, parsed.value)
+      }
+      if (step) cellHandlers.move(current.lcscId, current.field, ...step)
+    },
+    cancel: () => changeEdit(null),
+    toggleSelected: (lcscId, extend) => {
+      const on = !selected.has(lcscId)
+      const from = anchorRef.current === null ? undefined : positions.get(anchorRef.current)
+      const to = positions.get(lcscId)
+      const ids =
+        extend && from !== undefined && to !== undefined
+          ? rows.slice(Math.min(from, to), Math.max(from, to) + 1).map((row) => row.lcscId)
+          : [lcscId]
+      const next = new Set(selected)
+      for (const id of ids) {
+        if (on) next.add(id)
+        else next.delete(id)
+      }
+      setSelected(next)
+      anchorRef.current = lcscId
+    },
+  }
+  const cellsRef = useRef<CellHandlers>(cellHandlers)
+  useEffect(() => {
+    cellsRef.current = cellHandlers
+  })
+
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length
+
+  return (
+    <>
+      {selectedRows.length > 0 && (
+        <div className="mb-2 flex items-center gap-3 rounded bg-blue-950 px-3 py-2 text-sm text-gray-200">
+          <span>
+            {selectedRows.length} part{selectedRows.length === 1 ? "" : "s"} selected
+          </span>
+          <button
+            onClick={() => setBulkEditing(true)}
+            className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700"
+          >
+            Edit selected…
+          </button>
+          <button
+            onClick={() => setSelected(new Set())}
+            className="rounded bg-gray-700 px-3 py-1 text-gray-200 hover:bg-gray-600"
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {bulkEditing && (
+        <BulkEditDialog
+          rows={selectedRows}
+          onApply={(field, value, note) => {
+            actionsRef.current.onBulkEdit(
+              selectedRows.map((row) => row.lcscId),
+              field,
+              value,
+              note
+            )
+            setBulkEditing(false)
+          }}
+          onClose={() => setBulkEditing(false)}
+        />
+      )}
+
+      <div className="overflow-auto">
+        <div role="grid" className="inline-block min-w-full">
+          {/* Header */}
+          <div className="flex border-b border-gray-700 bg-gray-800 sticky top-0">
+            <div className="w-[40px] border-r border-gray-700 flex items-center justify-center">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                ref={(input) => {
+                  if (input) input.indeterminate = selectedRows.length > 0 && !allSelected
+                }}
+                onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map((row) => row.lcscId)))}
+                title="Select every part shown"
+              />
+            </div>
+            {COLUMNS.map(({ label, width, field }) =>
+              field ? (
+                <div
+                  key={label}
+                  onClick={(e) => onSort(field, e.shiftKey)}
+                  title={SORT_HINT}
+                  className={`${width} p-3 font-bold text-xs text-gray-200 cursor-pointer hover:bg-gray-700 border-r border-gray-700`}
+                >
+                  {label} {sortIndicator(sortKeys, field)}
+                </div>
+              ) : (
+                <div key={label} className={`${width} p-3 font-bold text-xs text-gray-200 border-r border-gray-700`}>
+                  {label}
+                </div>
+              )
+            )}
+            <div className="w-[70px] p-3 font-bold text-xs text-gray-200 text-center">Delete</div>
+          </div>
+
+          {/* Body */}
+          <div ref={bodyRef} className="bg-gray-900">
+            {rows.length > 0 ? (
+              <>
+                <div style={{ height: start * ROW_HEIGHT }} />
+                {rows.slice(start, end).map((row, i) => (
+                  <InventoryRow
+                    key={row.lcscId}
+                    row={row}
+                    striped={(start + i) % 2 === 0}
+                    multiplier={multiplier}
+                    reservedQty={reserved.get(row.lcscId) || 0}
+                    heldFor={(holders.get(row.lcscId) || []).join(", ")}
+                    selected={selected.has(row.lcscId)}
+                    activeField={active?.lcscId === row.lcscId ? active.field : null}
+                    edit={edit?.lcscId === row.lcscId ? edit : null}
+                    actions={actionsRef}
+                    cells={cellsRef}
+                  />
+                ))}
+                <div style={{ height: (rows.length - end) * ROW_HEIGHT }} />
+              </>
+            ) : (
+              <div className="p-10 text-center">
+                <p className="text-sm text-gray-400">No parts match your search</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,131 @@
+import Moment from "moment"
+import { cartLines, lcscCartCsv } from "./cart"
+import Dialog from "./Dialog"
+import type { AggregatedRow, BOMErrorInfo } from "./inventory"
+import { lcscProductUrl, priceForQuantity } from "./lcsc"
+import { roundToMinBuy } from "./reorder"
+import { useLcscParts } from "./useLcscParts"
+
+type LcscCartExportProps = {
+  rows: AggregatedRow[]
+  missing: BOMErrorInfo[]
+  multiplier: number
+  onClose: () => void
+}
+
+// BOM shortages plus reorder items as a file for LCSC's cart upload, priced
+// and snapped to minimum order quantities first so the total is known before
+// anything is uploaded.
+export default function LcscCartExport({ rows, missing, multiplier, onClose }: LcscCartExportProps) {
+  const needs = cartLines(rows, missing, multiplier)
+  const parts = useLcscParts(needs.map((line) => line.lcscId))
+
+  const lines = needs.map((line) => {
+    const part = parts[line.lcscId]
+    const lcsc = typeof part === "object" ? part : null
+    const quantity = roundToMinBuy(line.needed, lcsc?.minBuyNumber)
+    const tiers = lcsc?.priceTiers || []
+    const unitPrice = tiers.length > 0 ? priceForQuantity(tiers, quantity) : line.fallbackUnitPrice
+    const nextBreak = tiers.find((tier) => tier.quantity > quantity)
+    return { ...line, part, lcsc, quantity, unitPrice, lineTotal: quantity * unitPrice, nextBreak }
+  })
+  const orderTotal = lines.reduce((sum, line) => sum + line.lineTotal, 0)
+  const pending = lines.filter((line) => line.part === undefined).length
+  const unpriced = lines.filter((line) => line.unitPrice === 0).length
+
+  const download = () => {
+    const blob = new Blob([lcscCartCsv(lines)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `lcsc_cart_${Moment().format("HHmmDDMMYYYY")}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+    onClose()
+  }
+
+  return (
+    <Dialog title="LCSC cart file" onClose={onClose} width="max-w-5xl">
+      {lines.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Nothing to order: the loaded BOM{multiplier > 1 ? ` (×${multiplier})` : ""} has no shortages and nothing is
+          under its minimum.
+        </p>
+      ) : (
+        <>
+          <p className="mb-3 text-xs text-gray-400">
+            {lines.length} parts · quantities round up to LCSC's minimum order and are priced at the break they reach
+            {pending > 0 ? ` · looking up ${pending} on LCSC…` : ""}
+          </p>
+          <div className="max-h-[60vh] overflow-auto rounded border border-gray-700">
+            <table className="w-full text-left text-xs text-gray-300">
+              <thead className="sticky top-0 bg-gray-900 text-gray-200">
+                <tr>
+                  <th className="p-2">LCSC Part</th>
+                  <th className="p-2">Mfr ID</th>
+                  <th className="p-2">Why</th>
+                  <th className="p-2 text-right">Order</th>
+                  <th className="p-2 text-right">Unit $</th>
+                  <th className="p-2 text-right">Line $</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => (
+                  <tr key={line.lcscId} className="border-t border-gray-700">
+                    <td className="p-2">
+                      <a
+                        href={lcscProductUrl(line.lcscId)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-blue-400 underline hover:text-blue-300"
+                      >
+                        {line.lcscId}
+                      </a>
+                    </td>
+                    <td className="p-2">{line.manufactureId}</td>
+                    <td className="p-2">
+                      {line.shortage > 0 && <span className="block text-red-400">BOM short {line.shortage}</span>}
+                      {line.reorder > 0 && <span className="block text-yellow-400">reorder {line.reorder}</span>}
+                    </td>
+                    <td className="p-2 text-right font-bold">
+                      {line.quantity}
+                      {line.lcsc && line.lcsc.minBuyNumber > 1 && (
+                        <span className="block font-normal text-gray-500">min order {line.lcsc.minBuyNumber}</span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">
+                      ${line.unitPrice.toFixed(4)}
+                      {line.nextBreak && (
+                        <span className="block text-gray-500">
+                          {line.nextBreak.quantity}+ @ ${line.nextBreak.unitPrice.toFixed(4)}
+                        </span>
+                      )}
+                      {!line.lcsc && (
+                        <span
+                          className="block text-gray-500"
+                          title={typeof line.part === "string" ? line.part : undefined}
+                        >
+                          {line.part === undefined ? "looking up…" : line.unitPrice > 0 ? "last paid" : "no price"}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">${line.lineTotal.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-3 flex items-center justify-end gap-4">
+            <p className="text-sm text-gray-200">
+              Estimated order total: <span className="font-bold">${orderTotal.toFixed(2)}</span>
+              {unpriced > 0 && <span className="text-gray-400"> (+ {unpriced} unpriced)</span>}
+            </p>
+            <button onClick={download} className="rounded bg-green-600 px-4 py-2 font-bold text-white hover:bg-green-700">
+              Download cart CSV
+            </button>
+          </div>
+        </>
+      )}
+    </Dialog>
+  )
+}
@@ -0,0 +1,159 @@
+import { useState } from "react"
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import {
+  assignedQuantity,
+  formatLocationPath,
+  locationNameError,
+  mergeLocations,
+  parseLocationPath,
+  type PartLocation,
+} from "./locations"
+
+type LocationEditorProps = {
+  row: AggregatedRow
+  // Paths already used elsewhere, offered as suggestions.
+  knownPaths: string[]
+  onSave: (locations: PartLocation[]) => void
+  onClose: () => void
+}
+
+type DraftLocation = { cabinet: string; drawer: string; bin: string; quantity: string }
+
+const INPUT = "h-9 w-full rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100 placeholder-gray-400"
+
+export default function LocationEditor({ row, knownPaths, onSave, onClose }: LocationEditorProps) {
+  const [drafts, setDrafts] = useState<DraftLocation[]>(() =>
+    row.locations.length > 0
+      ? row.locations.map((location) => ({ ...location, quantity: String(location.quantity) }))
+      : [{ cabinet: "", drawer: "", bin: "", quantity: String(row.quantity) }]
+  )
+  const [error, setError] = useState<string>("")
+
+  const parsed: PartLocation[] = drafts.map((draft) => ({
+    cabinet: draft.cabinet.trim(),
+    drawer: draft.drawer.trim(),
+    bin: draft.bin.trim(),
+    quantity: parseInt(draft.quantity) || 0,
+  }))
+  const unassigned = row.quantity - assignedQuantity(parsed)
+
+  const updateDraft = (index: number, field: keyof DraftLocation, value: string) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, [field]: value } : draft)))
+  }
+
+  // Picking a suggested path fills all three levels at once.
+  const applyKnownPath = (index: number, path: string) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...parseLocationPath(path) } : draft)))
+  }
+
+  const save = () => {
+    if (parsed.some((location) => location.cabinet === "" && (location.drawer !== "" || location.bin !== ""))) {
+      setError("Every location needs a cabinet.")
+      return
+    }
+    const nameError = parsed.map(locationNameError).find((error) => error !== undefined)
+    if (nameError) {
+      setError(`${nameError}.`)
+      return
+    }
+    if (parsed.some((location) => location.quantity < 0)) {
+      setError("Quantities can't be negative.")
+      return
+    }
+    if (unassigned < 0) {
+      setError(`That's ${-unassigned} pcs more than the ${row.quantity} in stock.`)
+      return
+    }
+
+    onSave(mergeLocations(parsed.filter((location) => location.quantity > 0), []))
+  }
+
+  return (
+    <Dialog title={`Storage for ${row.lcscId}`} onClose={onClose}>
+      <p className="mb-3 text-xs text-gray-400">
+        {row.manufactureId} · {row.quantity} pcs in stock. Split it across as many bins as you like.
+      </p>
+
+      <div className="mb-1 grid grid-cols-[1fr_1fr_1fr_90px_32px] gap-2 text-xs font-bold text-gray-300">
+        <span>Cabinet</span>
+        <span>Drawer</span>
+        <span>Bin</span>
+        <span>Qty</span>
+        <span />
+      </div>
+      {drafts.map((draft, i) => (
+        <div key={i} className="mb-2 grid grid-cols-[1fr_1fr_1fr_90px_32px] gap-2">
+          <input
+            list="known-location-paths"
+            value={draft.cabinet}
+            onChange={(e) =>
+              knownPaths.includes(e.target.value) && e.target.value.includes("/")
+                ? applyKnownPath(i, e.target.value)
+                : updateDraft(i, "cabinet", e.target.value)
+            }
+            placeholder="e.g. A"
+            className={INPUT}
+          />
+          <input
+            value={draft.drawer}
+            onChange={(e) => updateDraft(i, "drawer", e.target.value)}
+            placeholder="e.g. 2"
+            className={INPUT}
+          />
+          <input
+            value={draft.bin}
+            onChange={(e) => updateDraft(i, "bin", e.target.value)}
+            placeholder="e.g. 5"
+            className={INPUT}
+          />
+          <input
+            type="number"
+            min="0"
+            value={draft.quantity}
+            onChange={(e) => updateDraft(i, "quantity", e.target.value)}
+            className={INPUT}
+          />
+          <button
+            onClick={() => setDrafts(drafts.filter((_, j) => j !== i))}
+            title="Remove this location"
+            className="rounded text-xs text-red-400 hover:bg-red-900 hover:text-red-200"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <datalist id="known-location-paths">
+        {knownPaths.map((path) => (
+          <option key={path} value={path} />
+        ))}
+      </datalist>
+
+      <button
+        onClick={() => setDrafts([...drafts, { cabinet: "", drawer: "", bin: "", quantity: String(Math.max(0, unassigned)) }])}
+        className="mt-1 rounded bg-gray-700 px-3 py-1 text-xs text-gray-200 hover:bg-gray-600"
+      >
+        + Another location
+      </button>
+
+      <p className={`mt-3 text-xs ${unassigned < 0 ? "text-red-400" : "text-gray-400"}`}>
+        {unassigned >= 0
+          ? `${unassigned} pcs not assigned to any location.`
+          : `Over by ${-unassigned} pcs.`}
+        {parsed.some((location) => location.cabinet !== "") &&
+          ` · ${parsed.filter((location) => location.cabinet !== "").map(formatLocationPath).join(", ")}`}
+      </p>
+
+      {error && <div className="mt-3 rounded bg-red-600 p-3 text-sm text-white">{error}</div>}
+
+      <div className="mt-5 flex justify-end gap-2">
+        <button onClick={onClose} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+          Cancel
+        </button>
+        <button onClick={save} className="rounded bg-green-600 px-4 py-2 font-bold text-white hover:bg-green-700">
+          Save Locations
+        </button>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,111 @@
+import { useState } from "react"
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import {
+  defaultChoice,
+  fieldValue,
+  MERGE_FIELD_LABELS,
+  type ConflictChoice,
+  type MergeConflict,
+  type MergeResult,
+} from "./merge"
+
+type MergeDialogProps = {
+  title: string
+  // Names for the two sides, e.g. "This inventory" / "laptop.csv".
+  oursLabel: string
+  theirsLabel: string
+  result: MergeResult
+  onApply: (choices: Record<string, ConflictChoice>) => void
+  onClose: () => void
+}
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  ours: "Keep mine",
+  theirs: "Take theirs",
+  combined: "Add both stock changes",
+}
+
+const describeSide = (conflict: MergeConflict, row: AggregatedRow | null) => {
+  if (!row) return <span className="text-red-400">deleted</span>
+  // A part deleted on one side: show what the other did to it.
+  const fields = conflict.fields.length > 0 ? conflict.fields : (["quantity"] as const)
+  return fields.map((field) => (
+    <div key={field}>
+      <span className="text-gray-500">{MERGE_FIELD_LABELS[field]}:</span> {fieldValue(row, field) || "—"}
+    </div>
+  ))
+}
+
+export default function MergeDialog({ title, oursLabel, theirsLabel, result, onApply, onClose }: MergeDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(() =>
+    Object.fromEntries(result.conflicts.map((conflict) => [conflict.lcscId, defaultChoice(conflict)]))
+  )
+
+  const { conflicts, fromTheirs, removed } = result
+
+  return (
+    <Dialog title={title} onClose={onClose} width="max-w-5xl">
+      <p className="mb-3 text-sm text-gray-300">
+        {fromTheirs.length} parts take changes from {theirsLabel} · {removed.length} parts removed there ·{" "}
+        {conflicts.length === 0
+          ? "no conflicts."
+          : `${conflicts.length} part${conflicts.length === 1 ? "" : "s"} changed on both sides — pick a version for each.`}
+      </p>
+
+      {conflicts.length > 0 && (
+        <div className="mb-4 max-h-[60vh] overflow-auto rounded border border-gray-700">
+          <table className="w-full text-left text-xs text-gray-300">
+            <thead className="sticky top-0 bg-gray-900 text-gray-200">
+              <tr>
+                <th className="p-2">LCSC Part</th>
+                <th className="p-2">Base</th>
+                <th className="p-2">{oursLabel}</th>
+                <th className="p-2">{theirsLabel}</th>
+                <th className="p-2">Use</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflicts.map((conflict) => {
+                const options: ConflictChoice[] = conflict.combined ? ["ours", "theirs", "combined"] : ["ours", "theirs"]
+                return (
+                  <tr key={conflict.lcscId} className="border-t border-gray-700 align-top">
+                    <td className="p-2 font-mono text-blue-300">{conflict.lcscId}</td>
+                    <td className="p-2 text-gray-400">
+                      {conflict.base ? describeSide(conflict, conflict.base) : <span>not there yet</span>}
+                    </td>
+                    <td className="p-2">{describeSide(conflict, conflict.ours)}</td>
+                    <td className="p-2">{describeSide(conflict, conflict.theirs)}</td>
+                    <td className="p-2">
+                      {options.map((option) => (
+                        <label key={option} className="flex items-center gap-2 whitespace-nowrap">
+                          <input
+                            type="radio"
+                            name={`merge-${conflict.lcscId}`}
+                            checked={choices[conflict.lcscId] === option}
+                            onChange={() => setChoices({ ...choices, [conflict.lcscId]: option })}
+                          />
+                          {CHOICE_LABELS[option]}
+                          {option === "combined" && conflict.combined ? ` (${conflict.combined.quantity} pcs)` : ""}
+                        </label>
+                      ))}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+          Cancel
+        </button>
+        <button onClick={() => onApply(choices)} className="rounded bg-green-600 px-4 py-2 font-bold text-white hover:bg-green-700">
+          Apply merge
+        </button>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,67 @@
+import { useState } from "react"
+import Dialog from "./Dialog"
+
+export type PickedFile = {
+  name: string
+  text: string
+}
+
+type MergeFilesDialogProps = {
+  onMerge: (base: PickedFile, other: PickedFile) => void
+  onClose: () => void
+}
+
+const FILE_INPUT =
+  "block w-full text-sm text-gray-300 file:mr-3 file:rounded file:border-0 file:bg-gray-700 file:px-3 file:py-2 file:text-gray-200 hover:file:bg-gray-600"
+
+const readPicked = async (input: HTMLInputElement): Promise<PickedFile | null> => {
+  const file = input.files?.[0]
+  return file ? { name: file.name, text: await file.text() } : null
+}
+
+// Step one of a three-way merge: the export both copies started from, and the
+// other machine's export. This inventory is the third side.
+export default function MergeFilesDialog({ onMerge, onClose }: MergeFilesDialogProps) {
+  const [base, setBase] = useState<PickedFile | null>(null)
+  const [other, setOther] = useState<PickedFile | null>(null)
+
+  return (
+    <Dialog title="Merge inventory CSV" onClose={onClose} width="max-w-xl">
+      <p className="mb-4 text-sm text-gray-400">
+        Unlike Combine CSV, this doesn't add the other copy's stock on top: only what changed on each side since the
+        common export is applied, and parts changed on both sides are listed for you to decide.
+      </p>
+
+      <label className="mb-1 block text-sm font-bold text-gray-200">Common base</label>
+      <p className="mb-2 text-xs text-gray-400">The export both copies were made from.</p>
+      <input
+        type="file"
+        accept=".csv"
+        onChange={async (e) => setBase(await readPicked(e.target))}
+        className={`${FILE_INPUT} mb-4`}
+      />
+
+      <label className="mb-1 block text-sm font-bold text-gray-200">Other copy</label>
+      <p className="mb-2 text-xs text-gray-400">A fresh export from the other machine.</p>
+      <input
+        type="file"
+        accept=".csv"
+        onChange={async (e) => setOther(await readPicked(e.target))}
+        className={`${FILE_INPUT} mb-5`}
+      />
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+          Cancel
+        </button>
+        <button
+          onClick={() => base && other && onMerge(base, other)}
+          disabled={!base || !other}
+          className={`rounded px-4 py-2 font-bold text-white ${base && other ? "bg-green-600 hover:bg-green-700" : "cursor-not-allowed bg-gray-600"}`}
+        >
+          Compare
+        </button>
+      </div>
+    </Dialog>
+  )
+}
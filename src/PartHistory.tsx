@@ -0,0 +1,117 @@
+import Moment from "moment"
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import { fallbackPrices, partHistory, replayLots, type MovementKind, type StockMovement } from "./ledger"
+
+type PartHistoryProps = {
+  lcscId: string
+  ledger: StockMovement[]
+  // For valuing movements recorded without a price.
+  rows: AggregatedRow[]
+  onClose: () => void
+}
+
+const KIND_STYLE: Record<MovementKind, string> = {
+  receive: "bg-green-900 text-green-300",
+  consume: "bg-orange-900 text-orange-300",
+  adjust: "bg-blue-900 text-blue-300",
+  delete: "bg-red-900 text-red-300",
+  revalue: "bg-purple-900 text-purple-300",
+}
+
+export default function PartHistory({ lcscId, ledger, rows, onClose }: PartHistoryProps) {
+  // Newest first: the question is usually "what happened to it lately".
+  const history = partHistory(ledger, lcscId).reverse()
+  const { lots, costs } = replayLots(
+    ledger.filter((movement) => movement.lcscId === lcscId),
+    fallbackPrices(rows.filter((row) => row.lcscId === lcscId))
+  )
+  const onHand = lots.get(lcscId) || []
+  const received = history.filter((m) => m.quantity > 0).reduce((sum, m) => sum + m.quantity, 0)
+  const consumed = history.filter((m) => m.kind === "consume").reduce((sum, m) => sum - m.quantity, 0)
+
+  return (
+    <Dialog title={`Stock history for ${lcscId}`} onClose={onClose} width="max-w-4xl">
+      {history.length === 0 ? (
+        <p className="text-sm text-gray-400">No stock movements recorded for {lcscId}.</p>
+      ) : (
+        <>
+          <p className="mb-3 text-xs text-gray-400">
+            {history.length} movements · {received} pcs in · {consumed} pcs used in builds · {history[0].balance} pcs
+            now
+          </p>
+          <div className="overflow-auto rounded border border-gray-700">
+            <table className="w-full text-left text-xs text-gray-300">
+              <thead className="bg-gray-900 text-gray-200">
+                <tr>
+                  <th className="p-2">When</th>
+                  <th className="p-2">Type</th>
+                  <th className="p-2 text-right">Change</th>
+                  <th className="p-2 text-right">Balance</th>
+                  <th className="p-2 text-right">Value</th>
+                  <th className="p-2">Reason</th>
+                  <th className="p-2">Source file</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((movement) => (
+                  <tr key={movement.id} className="border-t border-gray-700">
+                    <td className="whitespace-nowrap p-2">{Moment(movement.timestamp).format("YYYY-MM-DD HH:mm")}</td>
+                    <td className="p-2">
+                      <span className={`rounded px-2 py-0.5 ${KIND_STYLE[movement.kind]}`}>{movement.kind}</span>
+                    </td>
+                    <td
+                      className={`p-2 text-right font-bold ${movement.quantity >= 0 ? "text-green-400" : "text-orange-400"}`}
+                    >
+                      {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                    </td>
+                    <td className="p-2 text-right">{movement.balance}</td>
+                    <td className="p-2 text-right text-gray-400">
+                      {movement.quantity > 0 || movement.kind === "revalue"
+                        ? movement.unitPrice !== undefined && `@ $${movement.unitPrice.toFixed(4)}`
+                        : `$${(costs.get(movement.id) || 0).toFixed(2)}`}
+                    </td>
+                    <td className="p-2">{movement.reason}</td>
+                    <td className="p-2 text-gray-400">{movement.sourceFile || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {onHand.length > 0 && (
+            <>
+              <p className="mt-4 mb-2 text-sm font-bold text-gray-200">
+                On hand by lot (used oldest first)
+              </p>
+              <div className="overflow-auto rounded border border-gray-700">
+                <table className="w-full text-left text-xs text-gray-300">
+                  <thead className="bg-gray-900 text-gray-200">
+                    <tr>
+                      <th className="p-2">Received</th>
+                      <th className="p-2">From</th>
+                      <th className="p-2 text-right">Left</th>
+                      <th className="p-2 text-right">Unit $</th>
+                      <th className="p-2 text-right">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {onHand.map((lot, index) => (
+                      <tr key={index} className="border-t border-gray-700">
+                        <td className="whitespace-nowrap p-2">{Moment(lot.receivedAt).format("YYYY-MM-DD")}</td>
+                        <td className="p-2">{lot.reason}</td>
+                        <td className="p-2 text-right">{lot.quantity}</td>
+                        <td className="p-2 text-right">${lot.unitPrice.toFixed(4)}</td>
+                        <td className="p-2 text-right">${(lot.quantity * lot.unitPrice).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </Dialog>
+  )
+}
@@ -0,0 +1,138 @@
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import { lcscProductUrl, priceForQuantity } from "./lcsc"
+import PriceChart from "./PriceChart"
+import { formatChange, priceChange, pricedPurchases, spendOf } from "./priceStats"
+import { useLcscParts } from "./useLcscParts"
+
+type PartPricesProps = {
+  row: AggregatedRow
+  onClose: () => void
+}
+
+// What was paid for a part, purchase by purchase, against what LCSC charges
+// today. Today's price breaks are looked up when the panel opens; until then
+// (or if that fails) the ones saved by the last "Refresh from LCSC" stand in.
+export default function PartPrices({ row, onClose }: PartPricesProps) {
+  const live = useLcscParts([row.lcscId])[row.lcscId]
+  const tiers = (typeof live === "object" ? live.priceTiers : null) || row.lcsc?.priceTiers || []
+  const tiersSource =
+    typeof live === "object"
+      ? "LCSC now"
+      : row.lcsc
+        ? `LCSC on ${row.lcsc.refreshedAt.slice(0, 10)}`
+        : live === undefined
+          ? "looking up LCSC…"
+          : "LCSC prices unavailable"
+
+  const purchases = pricedPurchases(row)
+  const change = priceChange(row)
+  const paid = purchases.map((entry) => entry.unitPrice)
+  const last = purchases[purchases.length - 1]
+  const lcscAtLast = last && tiers.length > 0 ? priceForQuantity(tiers, last.quantity) : null
+
+  return (
+    <Dialog title={`Prices for ${row.lcscId}`} onClose={onClose} width="max-w-4xl">
+      <p className="mb-3 text-xs text-gray-400">
+        <a
+          href={lcscProductUrl(row.lcscId)}
+          target="_blank"
+          rel="noreferrer"
+          className="text-blue-400 underline hover:text-blue-300"
+        >
+          {row.manufactureId || row.lcscId}
+        </a>
+        {row.description ? ` · ${row.description}` : ""}
+      </p>
+
+      {purchases.length === 0 ? (
+        <p className="mb-3 text-sm text-gray-400">No priced purchases recorded for {row.lcscId}.</p>
+      ) : (
+        <>
+          <div className="mb-3 grid grid-cols-2 gap-2 text-sm sm:grid-cols-5">
+            {[
+              ["Blended", `$${row.unitPrice.toFixed(4)}`],
+              ["Lowest paid", `$${Math.min(...paid).toFixed(4)}`],
+              ["Highest paid", `$${Math.max(...paid).toFixed(4)}`],
+              ["Change", change === null ? "—" : formatChange(change)],
+              ["Total spent", `$${spendOf(row).toFixed(2)}`],
+            ].map(([label, value]) => (
+              <div key={label} className="rounded bg-gray-900 p-2">
+                <p className="text-xs text-gray-400">{label}</p>
+                <p className="font-bold text-gray-100">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="mb-3 rounded border border-gray-700 bg-gray-900 p-2">
+            <PriceChart purchases={purchases} tiers={tiers} />
+          </div>
+
+          {lcscAtLast !== null && (
+            <p className="mb-3 text-xs text-gray-300">
+              The last {last.quantity} pcs cost ${last.unitPrice.toFixed(4)} each; {tiersSource} charges $
+              {lcscAtLast.toFixed(4)} for that quantity (
+              <span className={lcscAtLast > last.unitPrice ? "text-red-400" : "text-green-400"}>
+                {formatChange(lcscAtLast / last.unitPrice - 1)}
+              </span>
+              ).
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-col gap-3 sm:flex-row">
+        {purchases.length > 0 && (
+          <div className="max-h-[40vh] flex-1 overflow-auto rounded border border-gray-700">
+            <table className="w-full text-left text-xs text-gray-300">
+              <thead className="sticky top-0 bg-gray-900 text-gray-200">
+                <tr>
+                  <th className="p-2">Purchase</th>
+                  <th className="p-2">Order</th>
+                  <th className="p-2 text-right">Qty</th>
+                  <th className="p-2 text-right">Unit $</th>
+                  <th className="p-2 text-right">Ext. $</th>
+                </tr>
+              </thead>
+              <tbody>
+                {purchases.map((entry, index) => (
+                  <tr key={index} className="border-t border-gray-700">
+                    <td className="p-2">{entry.date || `#${index + 1}`}</td>
+                    <td className="p-2">{entry.orderNumber || "—"}</td>
+                    <td className="p-2 text-right">{entry.quantity}</td>
+                    <td className="p-2 text-right">${entry.unitPrice.toFixed(4)}</td>
+                    <td className="p-2 text-right">${(entry.quantity * entry.unitPrice).toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div className="rounded border border-gray-700 sm:w-56">
+          <p className="bg-gray-900 p-2 text-xs font-bold text-gray-200">{tiersSource}</p>
+          {tiers.length === 0 ? (
+            <p className="p-2 text-xs text-gray-500" title={typeof live === "string" ? live : undefined}>
+              No price breaks
+            </p>
+          ) : (
+            <table className="w-full text-xs text-gray-300">
+              <tbody>
+                {tiers.map((tier) => (
+                  <tr key={tier.quantity} className="border-t border-gray-700">
+                    <td className="p-2">{tier.quantity}+</td>
+                    <td className="p-2 text-right">${tier.unitPrice.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+      {purchases.some((entry) => !entry.date) && (
+        <p className="mt-2 text-xs text-gray-500">
+          Undated purchases are numbered in the order they were recorded.
+        </p>
+      )}
+    </Dialog>
+  )
+}
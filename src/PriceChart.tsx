@@ -0,0 +1,97 @@
+import type { PriceHistoryEntry } from "./inventory"
+import { purchaseLabel } from "./priceStats"
+
+type PriceChartProps = {
+  purchases: PriceHistoryEntry[]
+  // LCSC's current price breaks, drawn across the chart for comparison.
+  tiers: { quantity: number; unitPrice: number }[]
+}
+
+const WIDTH = 640
+const HEIGHT = 240
+const PAD = { top: 16, right: 96, bottom: 36, left: 64 }
+const PLOT_W = WIDTH - PAD.left - PAD.right
+const PLOT_H = HEIGHT - PAD.top - PAD.bottom
+
+// Purchases left to right: a bar per purchase for the quantity bought (scaled
+// to the tallest), and a line through the unit price paid. LCSC's price breaks
+// are dashed lines against the same price axis, labelled on the right.
+export default function PriceChart({ purchases, tiers }: PriceChartProps) {
+  const prices = [...purchases.map((entry) => entry.unitPrice), ...tiers.map((tier) => tier.unitPrice)]
+  const maxPrice = Math.max(...prices) * 1.1 || 1
+  const maxQuantity = Math.max(...purchases.map((entry) => entry.quantity), 1)
+
+  const slot = PLOT_W / Math.max(purchases.length, 1)
+  const x = (index: number) => PAD.left + slot * (index + 0.5)
+  const y = (price: number) => PAD.top + PLOT_H - (price / maxPrice) * PLOT_H
+  const barHeight = (quantity: number) => (quantity / maxQuantity) * PLOT_H * 0.6
+  // Thin out the date labels so they don't run into each other.
+  const labelEvery = Math.ceil(purchases.length / 8)
+
+  const line = purchases.map((entry, index) => `${index === 0 ? "M" : "L"}${x(index)},${y(entry.unitPrice)}`).join(" ")
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Price history chart">
+      {[0, 0.5, 1].map((fraction) => (
+        <g key={fraction}>
+          <line
+            x1={PAD.left}
+            x2={PAD.left + PLOT_W}
+            y1={y(maxPrice * fraction)}
+            y2={y(maxPrice * fraction)}
+            className="stroke-gray-700"
+          />
+          <text x={PAD.left - 6} y={y(maxPrice * fraction) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+            ${(maxPrice * fraction).toFixed(4)}
+          </text>
+        </g>
+      ))}
+
+      {purchases.map((entry, index) => (
+        <g key={index}>
+          <rect
+            x={x(index) - Math.min(slot * 0.3, 16)}
+            width={Math.min(slot * 0.6, 32)}
+            y={PAD.top + PLOT_H - barHeight(entry.quantity)}
+            height={barHeight(entry.quantity)}
+            className="fill-blue-900"
+          >
+            <title>
+              {purchaseLabel(entry, index)}: {entry.quantity} pcs @ ${entry.unitPrice.toFixed(4)}
+            </title>
+          </rect>
+          {index % labelEvery === 0 && (
+            <text x={x(index)} y={HEIGHT - PAD.bottom + 14} textAnchor="middle" className="fill-gray-400 text-[10px]">
+              {purchaseLabel(entry, index)}
+            </text>
+          )}
+        </g>
+      ))}
+
+      {tiers.map((tier) => (
+        <g key={tier.quantity}>
+          <line
+            x1={PAD.left}
+            x2={PAD.left + PLOT_W}
+            y1={y(tier.unitPrice)}
+            y2={y(tier.unitPrice)}
+            strokeDasharray="4 3"
+            className="stroke-orange-500"
+          />
+          <text x={PAD.left + PLOT_W + 6} y={y(tier.unitPrice) + 4} className="fill-orange-400 text-[10px]">
+            {tier.quantity}+ ${tier.unitPrice.toFixed(4)}
+          </text>
+        </g>
+      ))}
+
+      <path d={line} fill="none" strokeWidth={2} className="stroke-green-400" />
+      {purchases.map((entry, index) => (
+        <circle key={index} cx={x(index)} cy={y(entry.unitPrice)} r={3.5} className="fill-green-400" />
+      ))}
+
+      <text x={PAD.left} y={HEIGHT - 4} className="fill-gray-500 text-[10px]">
+        bars: pcs bought (max {maxQuantity}) · green: unit price paid · dashed: LCSC now
+      </text>
+    </svg>
+  )
+}
@@ -0,0 +1,127 @@
+import { useState } from "react"
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import { alreadyReceived, type OrderLine, type ParsedOrder } from "./lcscOrder"
+
+export type ReceivedOrder = {
+  orderNumber: string
+  date: string
+  lines: OrderLine[]
+}
+
+type ReceiveOrderDialogProps = {
+  fileName: string
+  order: ParsedOrder
+  rows: AggregatedRow[]
+  onReceive: (received: ReceivedOrder) => void
+  onClose: () => void
+}
+
+const FIELD = "h-9 rounded border border-gray-600 bg-gray-700 px-2 text-sm text-gray-100"
+
+// Preview of an LCSC order before its stock goes in: what's new, what tops up
+// an existing part, and what looks already received.
+export default function ReceiveOrderDialog({ fileName, order, rows, onReceive, onClose }: ReceiveOrderDialogProps) {
+  const [orderNumber, setOrderNumber] = useState<string>(order.orderNumber)
+  const [date, setDate] = useState<string>(order.date)
+  const [excluded, setExcluded] = useState<Set<string>>(() => alreadyReceived(rows, order.orderNumber))
+
+  const rowsById = new Map(rows.map((row) => [row.lcscId, row]))
+  const duplicates = alreadyReceived(rows, orderNumber.trim())
+  const included = order.lines.filter((line) => !excluded.has(line.lcscId))
+  const total = included.reduce((sum, line) => sum + line.extendedPrice, 0)
+
+  const toggle = (lcscId: string) => {
+    const next = new Set(excluded)
+    if (next.has(lcscId)) next.delete(lcscId)
+    else next.add(lcscId)
+    setExcluded(next)
+  }
+
+  return (
+    <Dialog title={`Receive order from ${fileName}`} onClose={onClose} width="max-w-5xl">
+      <div className="mb-3 flex flex-wrap items-end gap-4">
+        <label className="text-xs text-gray-400">
+          Order number
+          <input
+            type="text"
+            value={orderNumber}
+            onChange={(e) => setOrderNumber(e.target.value)}
+            placeholder="e.g. WM2305120042"
+            className={`${FIELD} mt-1 block w-48`}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Order date
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={`${FIELD} mt-1 block`} />
+        </label>
+        <p className="text-xs text-gray-400">
+          {order.lines.length} lines{order.skipped > 0 ? ` (${order.skipped} non-part rows skipped)` : ""}
+        </p>
+      </div>
+
+      <div className="max-h-[55vh] overflow-auto rounded border border-gray-700">
+        <table className="w-full text-left text-xs text-gray-300">
+          <thead className="sticky top-0 bg-gray-900 text-gray-200">
+            <tr>
+              <th className="p-2"></th>
+              <th className="p-2">LCSC Part</th>
+              <th className="p-2">Mfr ID</th>
+              <th className="p-2">Customer #</th>
+              <th className="p-2 text-right">Qty</th>
+              <th className="p-2 text-right">Unit $</th>
+              <th className="p-2 text-right">Ext. $</th>
+              <th className="p-2">Effect</th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.lines.map((line) => {
+              const existing = rowsById.get(line.lcscId)
+              const isIncluded = !excluded.has(line.lcscId)
+              return (
+                <tr key={line.lcscId} className={`border-t border-gray-700 ${isIncluded ? "" : "text-gray-500"}`}>
+                  <td className="p-2">
+                    <input type="checkbox" checked={isIncluded} onChange={() => toggle(line.lcscId)} />
+                  </td>
+                  <td className="p-2 font-mono">{line.lcscId}</td>
+                  <td className="p-2">{line.manufactureId}</td>
+                  <td className="p-2">{line.customerNumber || "—"}</td>
+                  <td className="p-2 text-right">{line.quantity}</td>
+                  <td className="p-2 text-right">${line.unitPrice.toFixed(4)}</td>
+                  <td className="p-2 text-right">${line.extendedPrice.toFixed(2)}</td>
+                  <td className="p-2">
+                    {duplicates.has(line.lcscId) ? (
+                      <span className="text-orange-400">already received from this order</span>
+                    ) : existing ? (
+                      <span>
+                        +{line.quantity} → {existing.quantity + line.quantity}
+                      </span>
+                    ) : (
+                      <span className="text-green-400">new part</span>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex items-center justify-end gap-4">
+        <p className="text-sm text-gray-200">
+          {included.length} parts · <span className="font-bold">${total.toFixed(2)}</span>
+        </p>
+        <button onClick={onClose} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+          Cancel
+        </button>
+        <button
+          onClick={() => onReceive({ orderNumber: orderNumber.trim(), date, lines: included })}
+          disabled={included.length === 0}
+          className={`rounded px-4 py-2 font-bold text-white ${included.length > 0 ? "bg-green-600 hover:bg-green-700" : "cursor-not-allowed bg-gray-600"}`}
+        >
+          Receive {included.length} parts
+        </button>
+      </div>
+    </Dialog>
+  )
+}
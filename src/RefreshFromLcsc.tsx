@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from "react"
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import { lookupLcscParts } from "./lcsc"
+import { countFilled, emptyOutcome, recordResult, type RefreshOutcome } from "./lcscRefresh"
+
+type RefreshFromLcscProps = {
+  rows: AggregatedRow[]
+  onApply: (outcome: RefreshOutcome) => void
+  onClose: () => void
+}
+
+type RefreshRun = {
+  stopped: boolean
+  outcome: RefreshOutcome
+}
+
+const IdList = ({ ids, className }: { ids: string[]; className: string }) => (
+  <p className={`mb-3 max-h-24 overflow-auto font-mono text-xs ${className}`}>{ids.join(", ")}</p>
+)
+
+// Looks up every part in the inventory, then reports what it found before
+// anything is written: nothing changes until "Apply".
+export default function RefreshFromLcsc({ rows, onApply, onClose }: RefreshFromLcscProps) {
+  // Fixed at open, so parts added meanwhile don't restart the walk.
+  const [lcscIds] = useState<string[]>(() => rows.map((row) => row.lcscId))
+  // The current walk. Each effect run starts its own, and stopping one (its
+  // cleanup, or "Stop") never restarts it — StrictMode's second mount gets a
+  // fresh walk instead of reviving the first.
+  const runRef = useRef<RefreshRun>({ stopped: false, outcome: emptyOutcome() })
+  const [done, setDone] = useState<number>(0)
+  const [isRunning, setIsRunning] = useState<boolean>(true)
+
+  useEffect(() => {
+    const run: RefreshRun = { stopped: false, outcome: emptyOutcome() }
+    runRef.current = run
+    setDone(0)
+    setIsRunning(true)
+    lookupLcscParts(
+      lcscIds,
+      (lcscId, result) => {
+        if (runRef.current !== run) return
+        recordResult(run.outcome, lcscId, result)
+        setDone((count) => count + 1)
+      },
+      () => run.stopped
+    ).then(() => {
+      if (runRef.current === run) setIsRunning(false)
+    })
+
+    return () => {
+      run.stopped = true
+    }
+  }, [lcscIds])
+
+  const close = () => {
+    runRef.current.stopped = true
+    onClose()
+  }
+
+  const outcome = runRef.current.outcome
+  const found = Array.from(outcome.found.values())
+  const discontinued = found.filter((part) => part.discontinued).map((part) => part.lcscId)
+  const failed = Array.from(outcome.failed.keys())
+  const percent = lcscIds.length > 0 ? Math.round((done / lcscIds.length) * 100) : 100
+
+  return (
+    <Dialog title="Refresh from LCSC" onClose={close} width="max-w-xl">
+      <div className="mb-2 h-3 overflow-hidden rounded bg-gray-700">
+        <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="mb-4 text-xs text-gray-400">
+        {done} of {lcscIds.length} parts looked up
+        {isRunning ? "…" : runRef.current.stopped && done < lcscIds.length ? " (stopped)" : ""}
+      </p>
+
+      {!isRunning && (
+        <>
+          <p className="mb-3 text-sm text-gray-200">
+            Found {found.length} parts; {countFilled(rows, outcome.found)} get missing details filled in. Every found
+            part gets LCSC's current stock, price breaks, datasheet and image.
+          </p>
+          {discontinued.length > 0 && (
+            <>
+              <p className="text-sm font-bold text-orange-400">Discontinued ({discontinued.length})</p>
+              <IdList ids={discontinued} className="text-orange-300" />
+            </>
+          )}
+          {outcome.notListed.length > 0 && (
+            <>
+              <p className="text-sm font-bold text-red-400">No longer listed on LCSC ({outcome.notListed.length})</p>
+              <IdList ids={outcome.notListed} className="text-red-300" />
+            </>
+          )}
+          {failed.length > 0 && (
+            <>
+              <p className="text-sm font-bold text-red-400">Lookup failed — try again later ({failed.length})</p>
+              <IdList ids={failed.map((id) => `${id} (${outcome.failed.get(id)})`)} className="text-red-300" />
+            </>
+          )}
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {isRunning ? (
+          <button
+            onClick={() => (runRef.current.stopped = true)}
+            className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600"
+          >
+            Stop
+          </button>
+        ) : (
+          <>
+            <button onClick={close} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+              Close
+            </button>
+            <button
+              onClick={() => onApply(outcome)}
+              disabled={found.length === 0}
+              className={`rounded px-4 py-2 font-bold text-white ${found.length > 0 ? "bg-green-600 hover:bg-green-700" : "cursor-not-allowed bg-gray-600"}`}
+            >
+              Apply to {found.length} parts
+            </button>
+          </>
+        )}
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,109 @@
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import { lcscProductUrl, priceForQuantity } from "./lcsc"
+import { formatThresholds, isBelowMinimum, stockAfterBom, suggestedBuyQuantity } from "./reorder"
+import { useLcscParts } from "./useLcscParts"
+
+type ReorderListProps = {
+  rows: AggregatedRow[]
+  multiplier: number
+  onOrder: () => void
+  onClose: () => void
+}
+
+// Every part under its minimum, with what to buy. Order quantities and prices
+// need LCSC's current minimum order and price ladder, so each part is looked
+// up when the list opens; until then (or if that fails) the last price paid
+// stands in.
+export default function ReorderList({ rows, multiplier, onOrder, onClose }: ReorderListProps) {
+  const lowRows = rows.filter((row) => isBelowMinimum(row, multiplier))
+  const parts = useLcscParts(lowRows.map((row) => row.lcscId))
+
+  const lines = lowRows.map((row) => {
+    const part = parts[row.lcscId]
+    const lcsc = typeof part === "object" ? part : null
+    const buyQuantity = suggestedBuyQuantity(row, multiplier, lcsc?.minBuyNumber)
+    const unitPrice = lcsc && lcsc.priceTiers.length > 0 ? priceForQuantity(lcsc.priceTiers, buyQuantity) : row.unitPrice
+    return { row, part, lcsc, buyQuantity, unitPrice, lineTotal: buyQuantity * unitPrice }
+  })
+  const orderTotal = lines.reduce((sum, line) => sum + line.lineTotal, 0)
+  const pending = lines.filter((line) => line.part === undefined).length
+
+  return (
+    <Dialog title="Reorder list" onClose={onClose} width="max-w-5xl">
+      {lines.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Nothing is under its minimum{multiplier > 1 ? ` (BOM ×${multiplier} included)` : ""}. Set a part's minimum in
+          the Min/Target column.
+        </p>
+      ) : (
+        <>
+          <p className="mb-3 text-xs text-gray-400">
+            {lines.length} parts under their minimum · buy quantities refill to the target after the loaded BOM and round
+            up to LCSC's minimum order
+            {pending > 0 ? ` · looking up ${pending} on LCSC…` : ""}
+          </p>
+          <div className="max-h-[60vh] overflow-auto rounded border border-gray-700">
+            <table className="w-full text-left text-xs text-gray-300">
+              <thead className="sticky top-0 bg-gray-900 text-gray-200">
+                <tr>
+                  <th className="p-2">LCSC Part</th>
+                  <th className="p-2">Mfr ID</th>
+                  <th className="p-2 text-right">On hand</th>
+                  <th className="p-2 text-right">After BOM</th>
+                  <th className="p-2 text-right">Min/Target</th>
+                  <th className="p-2 text-right">Buy</th>
+                  <th className="p-2 text-right">Unit $</th>
+                  <th className="p-2 text-right">Line $</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map(({ row, part, lcsc, buyQuantity, unitPrice, lineTotal }) => (
+                  <tr key={row.lcscId} className="border-t border-gray-700">
+                    <td className="p-2">
+                      <a
+                        href={lcscProductUrl(row.lcscId)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-blue-400 underline hover:text-blue-300"
+                      >
+                        {row.lcscId}
+                      </a>
+                    </td>
+                    <td className="p-2">{row.manufactureId}</td>
+                    <td className="p-2 text-right">{row.quantity}</td>
+                    <td className="p-2 text-right">{stockAfterBom(row, multiplier)}</td>
+                    <td className="p-2 text-right">{formatThresholds(row)}</td>
+                    <td className="p-2 text-right font-bold text-yellow-400">
+                      {buyQuantity}
+                      {lcsc && lcsc.minBuyNumber > 1 && (
+                        <span className="block font-normal text-gray-500">min order {lcsc.minBuyNumber}</span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">
+                      ${unitPrice.toFixed(4)}
+                      {!lcsc && (
+                        <span className="block text-gray-500" title={typeof part === "string" ? part : undefined}>
+                          {part === undefined ? "looking up…" : "last paid"}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">${lineTotal.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-3 flex items-center justify-end gap-4">
+            <p className="text-sm text-gray-200">
+              Estimated order total: <span className="font-bold">${orderTotal.toFixed(2)}</span>
+            </p>
+            <button onClick={onOrder} className="rounded bg-green-600 px-4 py-2 font-bold text-white hover:bg-green-700">
+              LCSC cart file…
+            </button>
+          </div>
+        </>
+      )}
+    </Dialog>
+  )
+}
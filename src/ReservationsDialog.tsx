@@ -0,0 +1,106 @@
+import Moment from "moment"
+import Dialog from "./Dialog"
+import type { AggregatedRow } from "./inventory"
+import { reservationShortages, type Reservation } from "./reservations"
+
+type ReservationsDialogProps = {
+  reservations: Reservation[]
+  rows: AggregatedRow[]
+  onChange: (reservations: Reservation[]) => void
+  onLoad: (reservation: Reservation) => void
+  onClose: () => void
+}
+
+// Every open reservation, with which of its parts the stock can't cover once
+// all the others have theirs. Loading one as the BOM releases it, ready to
+// apply or change.
+export default function ReservationsDialog({ reservations, rows, onChange, onLoad, onClose }: ReservationsDialogProps) {
+  const short = new Set(reservationShortages(rows, reservations, () => 0).map((shortage) => shortage.lcscId))
+
+  const setMultiplier = (id: string, multiplier: number) =>
+    onChange(reservations.map((reservation) => (reservation.id === id ? { ...reservation, multiplier } : reservation)))
+
+  const release = (reservation: Reservation) => {
+    if (!window.confirm(`Release "${reservation.name}"?\n\nIts parts count as available again.`)) return
+    onChange(reservations.filter((r) => r.id !== reservation.id))
+  }
+
+  return (
+    <Dialog title="Reservations" onClose={onClose} width="max-w-4xl">
+      {reservations.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Nothing is reserved. Load a BOM, then use "Reserve This BOM…" to hold its parts for a planned build.
+        </p>
+      ) : (
+        <div className="max-h-[60vh] overflow-auto rounded border border-gray-700">
+          <table className="w-full text-left text-xs text-gray-300">
+            <thead className="sticky top-0 bg-gray-900 text-gray-200">
+              <tr>
+                <th className="p-2">Build</th>
+                <th className="p-2">Reserved</th>
+                <th className="p-2 text-right">Boards</th>
+                <th className="p-2 text-right">Parts</th>
+                <th className="p-2 text-right">Pcs</th>
+                <th className="p-2">Short</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {reservations.map((reservation) => {
+                const shortIds = reservation.lines.filter((line) => short.has(line.lcscId)).map((line) => line.lcscId)
+                const pcs = reservation.lines.reduce((sum, line) => sum + line.quantity * reservation.multiplier, 0)
+                return (
+                  <tr key={reservation.id} className="border-t border-gray-700">
+                    <td className="p-2">
+                      <span className="block font-bold text-gray-100">{reservation.name}</span>
+                      {reservation.bomFileName && <span className="text-gray-500">{reservation.bomFileName}</span>}
+                    </td>
+                    <td className="whitespace-nowrap p-2">{Moment(reservation.createdAt).format("YYYY-MM-DD")}</td>
+                    <td className="p-2 text-right">
+                      <input
+                        type="number"
+                        min="1"
+                        value={reservation.multiplier}
+                        onChange={(e) => setMultiplier(reservation.id, Math.max(1, parseInt(e.target.value) || 1))}
+                        className="w-16 rounded border border-gray-600 bg-gray-700 px-2 py-1 text-center text-gray-100"
+                      />
+                    </td>
+                    <td className="p-2 text-right">{reservation.lines.length}</td>
+                    <td className="p-2 text-right">{pcs}</td>
+                    <td className="p-2">
+                      {shortIds.length === 0 ? (
+                        <span className="text-green-400">covered</span>
+                      ) : (
+                        <span className="text-red-400" title={shortIds.join(", ")}>
+                          {shortIds.length} part{shortIds.length === 1 ? "" : "s"}
+                        </span>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap p-2 text-right">
+                      <button
+                        onClick={() => onLoad(reservation)}
+                        className="mr-2 rounded bg-blue-600 px-2 py-1 font-bold text-white hover:bg-blue-700"
+                      >
+                        Load as BOM
+                      </button>
+                      <button
+                        onClick={() => release(reservation)}
+                        className="rounded bg-gray-700 px-2 py-1 text-red-400 hover:bg-gray-600"
+                      >
+                        Release
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="mt-3 text-xs text-gray-500">
+        Reserved stock stays on hand until the BOM is applied; it just stops counting as available. Shortages count
+        every reservation together.
+      </p>
+    </Dialog>
+  )
+}
@@ -0,0 +1,164 @@
+import { useState } from "react"
+import type { BomLine } from "./bomLibrary"
+import Dialog from "./Dialog"
+import type { AggregatedRow, BOMErrorInfo } from "./inventory"
+import { reservedQuantities, type Reservation } from "./reservations"
+import {
+  approvedFor,
+  bomShortages,
+  describeAttributes,
+  suggestSubstitutes,
+  type ApprovedSubstitution,
+} from "./substitutes"
+
+export type SubstitutionChoice = {
+  original: string
+  substitute: string
+}
+
+type SubstitutesDialogProps = {
+  rows: AggregatedRow[]
+  missing: BOMErrorInfo[]
+  bomLines: BomLine[]
+  multiplier: number
+  reservations: Reservation[]
+  project: string
+  approved: ApprovedSubstitution[]
+  onSubstitute: (choices: SubstitutionChoice[], remember: boolean) => void
+  onForget: (original: string) => void
+  onClose: () => void
+}
+
+const SHOWN_SUBSTITUTES = 5
+
+// The loaded BOM's shortages, each with the in-stock parts that could take
+// its place. Using one moves the whole line onto it before the BOM is applied.
+export default function SubstitutesDialog({
+  rows,
+  missing,
+  bomLines,
+  multiplier,
+  reservations,
+  project,
+  approved,
+  onSubstitute,
+  onForget,
+  onClose,
+}: SubstitutesDialogProps) {
+  const [remember, setRemember] = useState<boolean>(true)
+
+  const reserved = reservedQuantities(reservations)
+  const shortages = bomShortages(rows, missing, bomLines, multiplier, reserved).map((shortage) => ({
+    shortage,
+    substitutes: suggestSubstitutes(
+      shortage,
+      rows,
+      multiplier,
+      reserved,
+      approvedFor(approved, project, shortage.lcscId)
+    ),
+  }))
+  const approvedChoices: SubstitutionChoice[] = shortages
+    .filter(({ substitutes }) => substitutes[0]?.approved)
+    .map(({ shortage, substitutes }) => ({ original: shortage.lcscId, substitute: substitutes[0].row.lcscId }))
+
+  return (
+    <Dialog title={`Substitutes for ${project || "the loaded BOM"} ×${multiplier}`} onClose={onClose} width="max-w-5xl">
+      {shortages.length === 0 ? (
+        <p className="mb-4 text-sm text-gray-300">Available stock covers every part of the loaded BOM.</p>
+      ) : (
+        <p className="mb-4 text-sm text-gray-300">
+          {shortages.length} part{shortages.length === 1 ? "" : "s"} short. Substitutes have the same value and package,
+          ratings at least as good, and enough spare stock for the whole line.
+        </p>
+      )}
+
+      <div className="mb-4 max-h-[60vh] space-y-3 overflow-auto">
+        {shortages.map(({ shortage, substitutes }) => {
+          const matchedOn = describeAttributes(shortage.attributes)
+          return (
+            <div key={shortage.lcscId} className="rounded border border-gray-700 p-3">
+              <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
+                <p className="text-sm text-gray-100">
+                  <span className="font-mono">{shortage.lcscId}</span> {shortage.manufactureId}
+                  <span className="text-gray-400">
+                    {" "}
+                    · needs {shortage.needed}, {shortage.available} available
+                  </span>
+                </p>
+                <p className="text-xs text-gray-400">{matchedOn && `Matched on ${matchedOn}`}</p>
+              </div>
+
+              {substitutes.length === 0 ? (
+                <p className="text-xs text-gray-500">
+                  {shortage.attributes.value === undefined || !shortage.attributes.package
+                    ? "No value and package to match on."
+                    : "Nothing in stock matches."}
+                </p>
+              ) : (
+                <table className="w-full text-left text-xs text-gray-300">
+                  <tbody>
+                    {substitutes.slice(0, SHOWN_SUBSTITUTES).map(({ row, spare, approved: isApproved, notes }) => (
+                      <tr key={row.lcscId} className="border-t border-gray-700">
+                        <td className="p-2 font-mono">{row.lcscId}</td>
+                        <td className="p-2">
+                          {row.manufactureId}
+                          {row.manufacturer && <span className="text-gray-500"> · {row.manufacturer}</span>}
+                        </td>
+                        <td className="p-2 text-gray-400">{row.description}</td>
+                        <td className="p-2 text-right">{spare} spare</td>
+                        <td className="p-2 text-gray-400">
+                          {isApproved && (
+                            <span className="mr-2 rounded bg-green-900 px-1 text-green-300">
+                              approved
+                              <button
+                                onClick={() => onForget(shortage.lcscId)}
+                                className="ml-1 text-green-500 hover:text-green-200"
+                                title="Forget this approval"
+                              >
+                                ✕
+                              </button>
+                            </span>
+                          )}
+                          {notes.join(", ")}
+                        </td>
+                        <td className="p-2 text-right">
+                          <button
+                            onClick={() => onSubstitute([{ original: shortage.lcscId, substitute: row.lcscId }], remember)}
+                            className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700"
+                          >
+                            Use
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+          Remember the substitutes used for {project || "this BOM"}
+        </label>
+        <div className="flex gap-2">
+          <button onClick={onClose} className="rounded bg-gray-700 px-4 py-2 text-gray-200 hover:bg-gray-600">
+            Close
+          </button>
+          {approvedChoices.length > 0 && (
+            <button
+              onClick={() => onSubstitute(approvedChoices, false)}
+              className="rounded bg-green-600 px-4 py-2 font-bold text-white hover:bg-green-700"
+            >
+              Use {approvedChoices.length} approved
+            </button>
+          )}
+        </div>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,50 @@
+import Moment from "moment"
+import Dialog from "./Dialog"
+import type { UndoHistory } from "./undo"
+
+type UndoHistoryPanelProps = {
+  history: UndoHistory
+  onJump: (index: number) => void
+  onClose: () => void
+}
+
+export default function UndoHistoryPanel({ history, onJump, onClose }: UndoHistoryPanelProps) {
+  // Newest at the top, with the index kept so jumps address the real step.
+  const steps = history.steps.map((step, index) => ({ step, index })).reverse()
+
+  return (
+    <Dialog title="Edit History" onClose={onClose}>
+      <p className="mb-3 text-xs text-gray-400">
+        Click any step to go back (or forward) to the inventory as it was right after it. Stock changes made by
+        jumping are recorded in the ledger like any other.
+      </p>
+      {steps.length === 0 ? (
+        <p className="text-sm text-gray-400">Nothing recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700 rounded border border-gray-700">
+          {steps.map(({ step, index }) => {
+            const isCurrent = index === history.position
+            const isUndone = index > history.position
+
+            return (
+              <li key={step.id}>
+                <button
+                  onClick={() => onJump(index)}
+                  disabled={isCurrent}
+                  className={`flex w-full items-center gap-3 px-3 py-2 text-left text-sm ${isCurrent ? "bg-green-900 text-green-200" : "hover:bg-gray-700"
+                    } ${isUndone ? "text-gray-500 line-through" : "text-gray-200"}`}
+                >
+                  <span className="w-32 shrink-0 text-xs text-gray-400">
+                    {Moment(step.timestamp).format("MMM D, HH:mm:ss")}
+                  </span>
+                  <span className="flex-1">{step.label}</span>
+                  {isCurrent && <span className="text-xs font-bold">current</span>}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </Dialog>
+  )
+}
@@ -0,0 +1,170 @@
+import type { BomLine } from "./bomLibrary"
+import { findHeader, normalizeHeader, readCsv } from "./csv"
+import { isValidLcscId, normalizeLcscId } from "./lcsc"
+
+// The BOM exports this app knows, each with the columns it writes. The format
+// is picked from the header row; anything else goes through the column mapper
+// in BomImportDialog, starting from whatever header names look familiar.
+
+export type BomField = "designator" | "value" | "footprint" | "lcscId" | "manufactureId" | "quantity" | "dnp"
+
+// Field → header as it appears in the file; "" when the file has no such column.
+export type BomColumnMapping = Record<BomField, string>
+
+export type BomFormat = {
+  id: string
+  name: string
+  // Header names per field, in order of preference.
+  columns: Record<BomField, string[]>
+  detect: (headers: Set<string>) => boolean
+}
+
+export const BOM_FIELDS: { field: BomField; label: string }[] = [
+  { field: "designator", label: "Designators" },
+  { field: "value", label: "Value" },
+  { field: "footprint", label: "Footprint" },
+  { field: "lcscId", label: "LCSC part" },
+  { field: "manufactureId", label: "Manufacturer part" },
+  { field: "quantity", label: "Quantity" },
+  { field: "dnp", label: "Do not populate" },
+]
+
+const LCSC_COLUMNS = ["LCSC Part #", "LCSC Part", "LCSC Part Number", "LCSC", "LCSC#", "JLCPCB Part #"]
+
+const has = (headers: Set<string>, ...names: string[]) => names.some((name) => headers.has(name.toLowerCase()))
+
+export const BOM_FORMATS: BomFormat[] = [
+  {
+    // Standard and Pro both name the supplier's part number "Supplier Part".
+    id: "easyeda",
+    name: "EasyEDA / EasyEDA Pro",
+    columns: {
+      designator: ["Designator"],
+      value: ["Value", "Comment", "Name"],
+      footprint: ["Footprint", "Package"],
+      lcscId: ["Supplier Part", "LCSC Part #", "LCSC"],
+      manufactureId: ["Manufacturer Part"],
+      quantity: ["Quantity"],
+      dnp: [],
+    },
+    detect: (headers) => has(headers, "Supplier Part", "Manufacturer Part") && has(headers, "Designator"),
+  },
+  {
+    id: "altium",
+    name: "Altium",
+    columns: {
+      designator: ["Designator"],
+      value: ["Comment", "Value"],
+      footprint: ["Footprint"],
+      lcscId: [...LCSC_COLUMNS, "Supplier Part Number 1"],
+      manufactureId: ["Manufacturer Part Number 1", "Manufacturer Part Number"],
+      quantity: ["Quantity"],
+      dnp: [],
+    },
+    detect: (headers) => has(headers, "LibRef", "Manufacturer Part Number 1", "Supplier Part Number 1"),
+  },
+  {
+    // What JLCPCB's assembly service takes: Comment, Designator, Footprint and
+    // the part number. KiCad's JLCPCB fabrication plugins write the same, with
+    // "Value" and "Quantity" added.
+    id: "jlcpcb",
+    name: "JLCPCB assembly BOM",
+    columns: {
+      designator: ["Designator"],
+      value: ["Comment", "Value"],
+      footprint: ["Footprint"],
+      lcscId: LCSC_COLUMNS,
+      manufactureId: ["MPN", "Manufacturer Part Number"],
+      quantity: ["Quantity", "Qty"],
+      dnp: [],
+    },
+    detect: (headers) => has(headers, "Designator") && has(headers, "Footprint") && has(headers, ...LCSC_COLUMNS),
+  },
+  {
+    // Schematic editor → Export BOM, and the older "grouped by value" script.
+    id: "kicad",
+    name: "KiCad",
+    columns: {
+      designator: ["Refs", "Reference", "Ref", "References"],
+      value: ["Value"],
+      footprint: ["Footprint"],
+      lcscId: LCSC_COLUMNS,
+      manufactureId: ["MPN", "Manufacturer_Part_Number", "Manufacturer Part Number"],
+      quantity: ["Qty", "Quantity", "Qnty"],
+      dnp: ["DNP"],
+    },
+    detect: (headers) => has(headers, "Refs", "Reference", "Ref") && has(headers, "Value"),
+  },
+]
+
+// Header names worth guessing at when no format matched.
+const GUESSES: Record<BomField, string[]> = {
+  designator: ["Designator", "Designators", "Reference", "References", "Refs", "Ref"],
+  value: ["Value", "Comment", "Name"],
+  footprint: ["Footprint", "Package"],
+  lcscId: [...LCSC_COLUMNS, "Supplier Part"],
+  manufactureId: ["Manufacturer Part Number", "Manufacture Part Number", "Manufacturer Part", "MPN"],
+  quantity: ["Quantity", "Qty", "Qnty"],
+  dnp: ["DNP"],
+}
+
+export const detectBomFormat = (headers: string[]): BomFormat | null => {
+  const normalized = new Set(headers.map(normalizeHeader))
+  return BOM_FORMATS.find((format) => format.detect(normalized)) || null
+}
+
+// Each field's column in this file: the format's own name for it, or for an
+// unknown format the first familiar-looking header.
+export const columnMapping = (headers: string[], format: BomFormat | null): BomColumnMapping => {
+  const candidates = format ? format.columns : GUESSES
+  return Object.fromEntries(
+    BOM_FIELDS.map(({ field }) => [field, findHeader(headers, ...candidates[field])])
+  ) as BomColumnMapping
+}
+
+const splitDesignators = (raw: string): string[] => raw.split(/[\s,;]+/).filter(Boolean)
+
+const isDnp = (raw: string): boolean => /^(dnp|dnf|yes|y|true|1|x)$/i.test(raw.trim())
+
+export type MappedBom = {
+  lines: BomLine[]
+  // Lines marked do-not-populate, left out.
+  dnpCount: number
+}
+
+export const mapBomLines = (records: Record<string, string>[], mapping: BomColumnMapping): MappedBom => {
+  const cell = (record: Record<string, string>, field: BomField) =>
+    mapping[field] ? String(record[mapping[field]] ?? "").trim() : ""
+  const lines: BomLine[] = []
+  let dnpCount = 0
+
+  for (const record of records) {
+    if (isDnp(cell(record, "dnp"))) {
+      dnpCount++
+      continue
+    }
+
+    const designators = splitDesignators(cell(record, "designator"))
+    const value = cell(record, "value")
+    const lcscId = normalizeLcscId(cell(record, "lcscId"))
+    if (designators.length === 0 && !value && !lcscId) continue
+
+    lines.push({
+      designators,
+      value,
+      footprint: cell(record, "footprint"),
+      // Anything else in the column (EasyEDA's other suppliers, "N/A") isn't ours to match.
+      lcscId: isValidLcscId(lcscId) ? lcscId : "",
+      manufactureId: cell(record, "manufactureId"),
+      quantity: parseInt(cell(record, "quantity").replace(/,/g, "")) || designators.length,
+    })
+  }
+  return { lines, dnpCount }
+}
+
+// For files already known to be BOMs, without asking: the detected format,
+// else the guessed columns.
+export const parseBomFile = (content: string): BomLine[] => {
+  const { headers, records } = readCsv(content)
+  return mapBomLines(records, columnMapping(headers, detectBomFormat(headers))).lines
+}
@@ -0,0 +1,156 @@
+import { newId } from "./ids"
+import type { BOMData } from "./inventory"
+
+// BOMs kept in the app by project and revision, line for line as they came
+// out of the EDA tool — designators, values and footprints included — so a
+// board can be built again, or compared with its previous spin, without
+// finding the file.
+
+// One line of a BOM file. A line usually places one part at several
+// designators ("C10, C12").
+export type BomLine = {
+  designators: string[]
+  value: string
+  footprint: string
+  // Blank for lines not sourced from LCSC: test points, DNP parts…
+  lcscId: string
+  manufactureId: string
+  quantity: number
+}
+
+export type BomRevision = {
+  id: string
+  project: string
+  revision: string
+  fileName: string
+  savedAt: string
+  lines: BomLine[]
+}
+
+export const createRevision = (project: string, revision: string, fileName: string, lines: BomLine[]): BomRevision => ({
+  id: newId(),
+  project: project.trim(),
+  revision: revision.trim(),
+  fileName,
+  savedAt: new Date().toISOString(),
+  lines,
+})
+
+// Per board, one entry per LCSC part, ready for `loadBomLines`. Lines with
+// no LCSC part can't be matched against stock and are left out.
+export const bomTotals = (lines: BomLine[]): BOMData[] => {
+  const totals = new Map<string, BOMData>()
+  for (const line of lines) {
+    if (!line.lcscId) continue
+    const existing = totals.get(line.lcscId)
+    if (existing) {
+      existing.quantity += line.quantity
+    } else {
+      totals.set(line.lcscId, {
+        lcscId: line.lcscId,
+        manufactureId: line.manufactureId || line.value || line.designators.join(", "),
+        quantity: line.quantity,
+      })
+    }
+  }
+  return Array.from(totals.values())
+}
+
+export const revisionBom = (revision: BomRevision): BOMData[] => bomTotals(revision.lines)
+
+export const revisionLabel = (revision: BomRevision): string =>
+  [revision.project || revision.fileName, revision.revision && `rev ${revision.revision}`].filter(Boolean).join(" ")
+
+// Revisions grouped by project, projects by name and revisions oldest first.
+export const groupByProject = (revisions: BomRevision[]): [string, BomRevision[]][] => {
+  const projects = new Map<string, BomRevision[]>()
+  for (const revision of revisions) {
+    projects.set(revision.project, [...(projects.get(revision.project) || []), revision])
+  }
+  return Array.from(projects.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([project, list]) => [project, list.sort((a, b) => a.savedAt.localeCompare(b.savedAt))])
+}
+
+// "A" → "B", "v2" → "v3"; the suggestion for a project's next revision.
+export const nextRevision = (previous: string | undefined): string => {
+  if (!previous) return "A"
+  const number = previous.match(/^(.*?)(\d+)$/)
+  if (number) return `${number[1]}${parseInt(number[2]) + 1}`
+  if (/^[A-Y]$/i.test(previous)) return String.fromCharCode(previous.charCodeAt(0) + 1)
+  return ""
+}
+
+// What sits at one designator.
+export type Placement = {
+  lcscId: string
+  value: string
+  footprint: string
+}
+
+export type PlacementChange = {
+  designator: string
+  kind: "added" | "removed" | "changed"
+  before?: Placement
+  after?: Placement
+}
+
+export type QuantityChange = {
+  lcscId: string
+  label: string
+  before: number
+  after: number
+}
+
+export type RevisionDiff = {
+  placements: PlacementChange[]
+  quantities: QuantityChange[]
+}
+
+// Lines without designators are keyed by what they place instead, so a BOM
+// exported without the column still diffs by part.
+const placementsOf = (revision: BomRevision): Map<string, Placement> => {
+  const placements = new Map<string, Placement>()
+  for (const line of revision.lines) {
+    const placement = { lcscId: line.lcscId, value: line.value, footprint: line.footprint }
+    const keys = line.designators.length > 0 ? line.designators : [line.lcscId || line.value]
+    keys.forEach((key) => placements.set(key, placement))
+  }
+  return placements
+}
+
+const samePlacement = (a: Placement, b: Placement): boolean =>
+  a.lcscId === b.lcscId && a.value === b.value && a.footprint === b.footprint
+
+// R1, R2, R10 rather than R1, R10, R2.
+export const compareDesignators = (a: string, b: string): number => a.localeCompare(b, undefined, { numeric: true })
+
+export const diffRevisions = (before: BomRevision, after: BomRevision): RevisionDiff => {
+  const old = placementsOf(before)
+  const next = placementsOf(after)
+  const placements: PlacementChange[] = []
+
+  for (const designator of new Set([...old.keys(), ...next.keys()])) {
+    const was = old.get(designator)
+    const is = next.get(designator)
+    if (!was && is) placements.push({ designator, kind: "added", after: is })
+    else if (was && !is) placements.push({ designator, kind: "removed", before: was })
+    else if (was && is && !samePlacement(was, is)) placements.push({ designator, kind: "changed", before: was, after: is })
+  }
+  placements.sort((a, b) => compareDesignators(a.designator, b.designator))
+
+  const oldBom = new Map(revisionBom(before).map((line) => [line.lcscId, line]))
+  const newBom = new Map(revisionBom(after).map((line) => [line.lcscId, line]))
+  const quantities: QuantityChange[] = []
+  for (const lcscId of new Set([...oldBom.keys(), ...newBom.keys()])) {
+    const was = oldBom.get(lcscId)?.quantity || 0
+    const is = newBom.get(lcscId)?.quantity || 0
+    if (was !== is) {
+      const label = newBom.get(lcscId)?.manufactureId || oldBom.get(lcscId)?.manufactureId || ""
+      quantities.push({ lcscId, label, before: was, after: is })
+    }
+  }
+  quantities.sort((a, b) => a.lcscId.localeCompare(b.lcscId, undefined, { numeric: true }))
+
+  return { placements, quantities }
+}
@@ -0,0 +1,130 @@
+import { newId } from "./ids"
+import type { AggregatedRow, BOMData, BOMErrorInfo } from "./inventory"
+import { priceForQuantity } from "./lcsc"
+import type { StockMovement } from "./ledger"
+
+// A record of one applied BOM: what was built, what it took from stock and
+// what that cost. Stock used is costed from the lots it came out of (oldest
+// first, see `replayLots`); anything the inventory couldn't cover is priced
+// at LCSC's break for the quantity short, or the last price paid.
+
+export type BuildLine = {
+  lcscId: string
+  manufactureId: string
+  perBoard: number
+  // perBoard × multiplier.
+  needed: number
+  consumed: number
+  // What the consumed stock cost.
+  stockCost: number
+  // Estimated price of needed − consumed; 0 when nothing was short.
+  shortfallCost: number
+  // Not in inventory at all when the BOM was applied.
+  missing?: boolean
+}
+
+export type BuildRecord = {
+  id: string
+  project: string
+  revision: string
+  multiplier: number
+  date: string
+  bomFileName: string
+  lines: BuildLine[]
+  stockCost: number
+  shortfallCost: number
+  // The ledger entries the build made, to find it from a part's history.
+  movementIds: string[]
+}
+
+export type BuildDetails = {
+  project: string
+  revision: string
+}
+
+// The price to expect for `quantity` more of a part: LCSC's break for that
+// quantity if the last refresh saved the ladder, else the current unit price.
+const shortfallPrice = (row: AggregatedRow | undefined, quantity: number): number => {
+  const tiers = row?.lcsc?.priceTiers || []
+  return tiers.length > 0 ? priceForQuantity(tiers, quantity) : row?.unitPrice || 0
+}
+
+export const createBuildRecord = (
+  { project, revision }: BuildDetails,
+  {
+    rows,
+    missing,
+    multiplier,
+    bomFileName,
+    movements,
+    costs,
+  }: {
+    // Inventory as it was before the build.
+    rows: AggregatedRow[]
+    missing: BOMErrorInfo[]
+    multiplier: number
+    bomFileName: string
+    movements: StockMovement[]
+    costs: Map<string, number>
+  }
+): BuildRecord => {
+  const consumedBy = new Map(movements.map((movement) => [movement.lcscId, movement]))
+
+  const lines: BuildLine[] = rows
+    .filter((row) => (row.editedQuantity || 0) > 0)
+    .map((row) => {
+      const perBoard = row.editedQuantity || 0
+      const needed = perBoard * multiplier
+      const movement = consumedBy.get(row.lcscId)
+      const consumed = movement ? -movement.quantity : 0
+      const short = needed - consumed
+      return {
+        lcscId: row.lcscId,
+        manufactureId: row.manufactureId,
+        perBoard,
+        needed,
+        consumed,
+        stockCost: movement ? costs.get(movement.id) || 0 : 0,
+        shortfallCost: short > 0 ? short * shortfallPrice(row, short) : 0,
+      }
+    })
+
+  for (const part of missing) {
+    const perBoard = part.quantity || 0
+    lines.push({
+      lcscId: part.lcscId,
+      manufactureId: part.manufactureId,
+      perBoard,
+      needed: perBoard * multiplier,
+      consumed: 0,
+      stockCost: 0,
+      shortfallCost: 0,
+      missing: true,
+    })
+  }
+
+  return {
+    id: newId(),
+    project: project.trim(),
+    revision: revision.trim(),
+    multiplier,
+    date: new Date().toISOString(),
+    bomFileName,
+    lines,
+    stockCost: lines.reduce((sum, line) => sum + line.stockCost, 0),
+    shortfallCost: lines.reduce((sum, line) => sum + line.shortfallCost, 0),
+    movementIds: movements.map((movement) => movement.id),
+  }
+}
+
+// The BOM as it was loaded for this build, per board.
+export const buildBom = (build: BuildRecord): BOMData[] =>
+  build.lines.map((line) => ({ lcscId: line.lcscId, manufactureId: line.manufactureId, quantity: line.perBoard }))
+
+export const buildLabel = (build: BuildRecord): string =>
+  [build.project || build.bomFileName || "Untitled build", build.revision && `rev ${build.revision}`]
+    .filter(Boolean)
+    .join(" ")
+
+// "board_v2.csv" → "board_v2", as the default project name.
+export const projectFromFileName = (bomFileName: string): string => bomFileName.replace(/\.[^.]+$/, "").trim()
@@ -0,0 +1,53 @@
+import type { AggregatedRow, BOMErrorInfo } from "./inventory"
+import { isBelowMinimum, reorderNeed } from "./reorder"
+
+// One part to buy. `shortage` is what the loaded BOM lacks, `reorder` what it
+// takes to get back to the part's target; the order covers the larger.
+export type CartLine = {
+  lcscId: string
+  manufactureId: string
+  shortage: number
+  reorder: number
+  needed: number
+  // Last price paid, for when LCSC can't be reached. 0 for parts never stocked.
+  fallbackUnitPrice: number
+}
+
+export const cartLines = (rows: AggregatedRow[], missing: BOMErrorInfo[], multiplier: number): CartLine[] => {
+  const lines: CartLine[] = []
+
+  for (const row of rows) {
+    const shortage = Math.max(0, (row.editedQuantity || 0) * multiplier - row.quantity)
+    const reorder = isBelowMinimum(row, multiplier) ? reorderNeed(row, multiplier) : 0
+    if (shortage === 0 && reorder === 0) continue
+
+    lines.push({
+      lcscId: row.lcscId,
+      manufactureId: row.manufactureId,
+      shortage,
+      reorder,
+      needed: Math.max(shortage, reorder),
+      fallbackUnitPrice: row.unitPrice,
+    })
+  }
+
+  // BOM parts that aren't in the inventory at all.
+  for (const comp of missing) {
+    const shortage = (comp.quantity || 0) * multiplier
+    if (shortage === 0) continue
+    lines.push({
+      lcscId: comp.lcscId,
+      manufactureId: comp.manufactureId,
+      shortage,
+      reorder: 0,
+      needed: shortage,
+      fallbackUnitPrice: 0,
+    })
+  }
+
+  return lines
+}
+
+// The two columns LCSC's BOM tool / cart upload maps automatically.
+export const lcscCartCsv = (items: { lcscId: string; quantity: number }[]): string =>
+  ["LCSC Part Number,Quantity", ...items.map((item) => `${item.lcscId},${item.quantity}`)].join("\n")
@@ -0,0 +1,45 @@
+import Papa from "papaparse"
+
+// Column names vary by exporter — KiCad and EasyEDA write "LCSC Part #" and
+// "Quantity", this app's own export writes "LCSC Part" and "Qty". Match on
+// any of the known spellings, case-insensitively, and tolerate the UTF-8 BOM
+// that lands on the first header of a KiCad/Excel export.
+export const normalizeHeader = (header: string): string => header.replace(/^\uFEFF/, "").trim().toLowerCase()
+
+export const pickColumn = (row: Record<string, unknown>, ...names: string[]): string => {
+  for (const name of names) {
+    const key = Object.keys(row).find((k) => normalizeHeader(k) === name.toLowerCase())
+    if (key && row[key] != null && String(row[key]).trim() !== "") {
+      return String(row[key]).trim()
+    }
+  }
+  return ""
+}
+
+// The first of `names` that the file has, as spelled in the file; "" if none.
+export const findHeader = (headers: string[], ...names: string[]): string => {
+  for (const name of names) {
+    const header = headers.find((h) => normalizeHeader(h) === name.toLowerCase())
+    if (header !== undefined) return header
+  }
+  return ""
+}
+
+// A CSV file's header row and records, for the import dialogs to map.
+export type ParsedCsv = {
+  headers: string[]
+  records: Record<string, string>[]
+}
+
+export const readCsv = (content: string): ParsedCsv => {
+  const results = Papa.parse<Record<string, string>>(content, { header: true, skipEmptyLines: true })
+  return { headers: (results.meta.fields || []).filter((header) => header.trim() !== ""), records: results.data }
+}
+
+// EasyEDA writes its BOM as UTF-16 with tabs; everything else is UTF-8.
+export const readCsvFile = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder("utf-16le").decode(bytes)
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes)
+  return new TextDecoder("utf-8").decode(bytes)
+}
@@ -0,0 +1,4 @@
+// IDs for the records the app makes in the browser, like ledger movements.
+// Not crypto.randomUUID(): that needs a secure context, and the droplet
+// deploy is served over plain HTTP.
+export const newId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
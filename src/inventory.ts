@@ -0,0 +1,62 @@
+import type { PartLocation } from "./locations"
+
+export type RowData = {
+  lcscId: string
+  manufactureId: string
+  manufacturer: string
+  package: string
+  quantity: number
+  description: string
+  unitPrice: number
+  locations: PartLocation[]
+}
+
+export type BOMData = {
+  lcscId: string
+  manufactureId: string
+  quantity: number
+}
+
+export type BOMErrorInfo = {
+  lcscId: string
+  manufactureId: string
+  reason: string
+  quantity?: number
+}
+
+// Reorder levels (see src/reorder.ts). Unset means nobody asked for the part
+// to be kept in stock.
+export type ReorderThresholds = {
+  minQuantity?: number
+  // Buy back up to this when under the minimum; defaults to the minimum.
+  targetQuantity?: number
+}
+
+// One purchase of a part. Stock received from an LCSC order export also
+// records which order and when.
+export type PriceHistoryEntry = {
+  quantity: number
+  unitPrice: number
+  orderNumber?: string
+  date?: string
+}
+
+// LCSC's catalogue entry as of the last "Refresh from LCSC".
+export type LcscSnapshot = {
+  stock: number
+  minBuyNumber: number
+  // Same shape as LcscPriceTier in src/lcsc.ts, which this file can't import:
+  // the server type-checks it without Vite's client types.
+  priceTiers: { quantity: number; unitPrice: number }[]
+  datasheetUrl: string
+  imageUrl: string
+  discontinued: boolean
+  refreshedAt: string
+}
+
+export type AggregatedRow = RowData & ReorderThresholds & {
+  priceHistory: PriceHistoryEntry[]
+  totalCost: number
+  editedQuantity?: number
+  lcsc?: LcscSnapshot
+}
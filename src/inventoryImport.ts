@@ -0,0 +1,151 @@
+import { findHeader, normalizeHeader, type ParsedCsv } from "./csv"
+import type { ReorderThresholds, RowData } from "./inventory"
+import { isValidLcscId, normalizeLcscId } from "./lcsc"
+import { locationsError, parseLocations } from "./locations"
+
+// Inventory CSVs mapped column by column. This app's own export maps itself;
+// other sources (another distributor's order history, a spreadsheet) are
+// mapped once in InventoryImportDialog and recognised by their header row
+// the next time.
+
+export type InventoryField =
+  | "lcscId"
+  | "manufactureId"
+  | "manufacturer"
+  | "package"
+  | "description"
+  | "quantity"
+  | "unitPrice"
+  | "locations"
+  | "minQuantity"
+  | "targetQuantity"
+
+// Field → header as spelled in the file; "" when it isn't imported.
+export type InventoryColumnMapping = Record<InventoryField, string>
+
+export const INVENTORY_FIELDS: { field: InventoryField; label: string; required?: boolean; names: string[] }[] = [
+  { field: "lcscId", label: "LCSC part", required: true, names: ["LCSC Part Number", "LCSC Part #", "LCSC Part", "LCSC"] },
+  { field: "quantity", label: "Quantity", required: true, names: ["Quantity", "Qty"] },
+  { field: "manufactureId", label: "Manufacturer part", names: ["Manufacture Part Number", "Manufacturer Part Number", "MPN"] },
+  { field: "manufacturer", label: "Manufacturer", names: ["Manufacturer", "Mfr"] },
+  { field: "package", label: "Package", names: ["Package", "Footprint"] },
+  { field: "description", label: "Description", names: ["Description", "Value"] },
+  { field: "unitPrice", label: "Unit price", names: ["Unit Price($)", "Unit Price"] },
+  { field: "locations", label: "Locations", names: ["Location", "Locations", "Storage Location"] },
+  { field: "minQuantity", label: "Min qty", names: ["Min Qty", "Minimum"] },
+  { field: "targetQuantity", label: "Target qty", names: ["Target Qty", "Target"] },
+]
+
+// A mapping kept for the next file with the same columns.
+export type SavedImportMapping = {
+  signature: string
+  // The file it was first made for, to name the source.
+  source: string
+  mapping: InventoryColumnMapping
+}
+
+// Files from one source share a header row, whatever their order or case.
+export const headerSignature = (headers: string[]): string =>
+  headers
+    .map(normalizeHeader)
+    .sort()
+    .join("|")
+
+export const guessMapping = (headers: string[]): InventoryColumnMapping =>
+  Object.fromEntries(
+    INVENTORY_FIELDS.map(({ field, names }) => [field, findHeader(headers, ...names)])
+  ) as InventoryColumnMapping
+
+// The mapping saved for this header row, else what the column names suggest.
+export const initialMapping = (
+  headers: string[],
+  saved: SavedImportMapping[]
+): { mapping: InventoryColumnMapping; remembered?: SavedImportMapping } => {
+  const remembered = saved.find((entry) => entry.signature === headerSignature(headers))
+  return remembered ? { mapping: remembered.mapping, remembered } : { mapping: guessMapping(headers) }
+}
+
+export const rememberMapping = (
+  saved: SavedImportMapping[],
+  headers: string[],
+  source: string,
+  mapping: InventoryColumnMapping
+): SavedImportMapping[] => {
+  const signature = headerSignature(headers)
+  const previous = saved.find((entry) => entry.signature === signature)
+  return [
+    ...saved.filter((entry) => entry.signature !== signature),
+    { signature, source: previous?.source || source, mapping },
+  ]
+}
+
+export type RejectedRow = {
+  // As a spreadsheet would number it, the header being line 1.
+  line: number
+  reason: string
+}
+
+export type MappedInventory = {
+  rows: (RowData & ReorderThresholds)[]
+  rejected: RejectedRow[]
+}
+
+const parseCount = (raw: string): number | null => {
+  const cleaned = raw.replace(/,/g, "").trim()
+  return /^\d+$/.test(cleaned) ? parseInt(cleaned) : null
+}
+
+const parsePrice = (raw: string): number => parseFloat(raw.replace(/[$,\s]/g, "")) || 0
+
+export const mapInventoryRows = (records: Record<string, string>[], mapping: InventoryColumnMapping): MappedInventory => {
+  const rows: (RowData & ReorderThresholds)[] = []
+  const rejected: RejectedRow[] = []
+
+  records.forEach((record, index) => {
+    const cell = (field: InventoryField) => (mapping[field] ? String(record[mapping[field]] ?? "").trim() : "")
+    const line = index + 2
+
+    const rawId = cell("lcscId")
+    const lcscId = normalizeLcscId(rawId)
+    if (!rawId) {
+      rejected.push({ line, reason: "no LCSC part number" })
+      return
+    }
+    if (!isValidLcscId(lcscId)) {
+      rejected.push({ line, reason: `"${rawId}" isn't an LCSC part number` })
+      return
+    }
+
+    const rawQuantity = cell("quantity")
+    const quantity = parseCount(rawQuantity)
+    if (quantity === null) {
+      rejected.push({ line, reason: rawQuantity ? `quantity "${rawQuantity}" isn't a number` : "no quantity" })
+      return
+    }
+
+    const locationError = locationsError(cell("locations"))
+    if (locationError) {
+      rejected.push({ line, reason: `locations: ${locationError}` })
+      return
+    }
+
+    rows.push({
+      lcscId,
+      manufactureId: cell("manufactureId"),
+      manufacturer: cell("manufacturer"),
+      package: cell("package"),
+      quantity,
+      description: cell("description"),
+      unitPrice: parsePrice(cell("unitPrice")),
+      locations: parseLocations(cell("locations"), quantity),
+      minQuantity: parseCount(cell("minQuantity")) || undefined,
+      targetQuantity: parseCount(cell("targetQuantity")) || undefined,
+    })
+  })
+
+  return { rows, rejected }
+}
+
+// For this app's own files (the 3-way merge), which need no mapping.
+export const parseInventoryFile = ({ headers, records }: ParsedCsv): MappedInventory =>
+  mapInventoryRows(records, guessMapping(headers))
@@ -14,8 +14,13 @@ export type LcscPart = {
   datasheetUrl: string
   imageUrl: string
   priceTiers: LcscPriceTier[]
+  // LCSC still lists it, but as end-of-life.
+  discontinued: boolean
 }
 
+// LCSC has no product under that number (any more).
+export class LcscPartNotFound extends Error {}
+
 type LcscDetailResult = {
   productCode?: string
   productModel?: string
@@ -28,6 +33,7 @@ type LcscDetailResult = {
   minBuyNumber?: number
   pdfUrl?: string
   productImages?: string[]
+  productCycle?: string
   productPriceList?: { ladder?: number; usdPrice?: number; productPrice?: string }[]
 }
 
@@ -66,17 +72,16 @@ export const priceForQuantity = (tiers: LcscPriceTier[], quantity: number): numb
 // "/components-inventory/" on the droplet; Vite always gives it a trailing slash.
 const DETAIL_ENDPOINT = `${import.meta.env.BASE_URL}api/lcsc-detail`
 
-export const fetchLcscPart = async (lcscId: string): Promise<LcscPart> => {
-  const response = await fetch(`${DETAIL_ENDPOINT}?productCode=${encodeURIComponent(lcscId)}`)
-  const payload = await response.json().catch(() => null)
+// The proxy answers 429 when we look up too much too fast; wait as long as it
+// says and try again, a couple of times.
+const RATE_LIMIT_RETRIES = 2
 
-  if (!response.ok) {
-    throw new Error(payload?.error || `LCSC lookup failed (HTTP ${response.status})`)
-  }
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
-  const result: LcscDetailResult | null = payload?.result
+const toLcscPart = (lcscId: string, payload: { result?: LcscDetailResult | null } | null): LcscPart => {
+  const result = payload?.result
   if (!result?.productCode) {
-    throw new Error(`No LCSC part found for ${lcscId}`)
+    throw new LcscPartNotFound(`No LCSC part found for ${lcscId}`)
   }
 
   return {
@@ -94,5 +99,107 @@ export const fetchLcscPart = async (lcscId: string): Promise<LcscPart> => {
     datasheetUrl: result.pdfUrl || "",
     imageUrl: result.productImages?.[0] || "",
     priceTiers: toPriceTiers(result),
+    discontinued: /discontinu|obsolete|eol/i.test(result.productCycle || ""),
+  }
+}
+
+const fetchWithRetry = async (url: string, init?: RequestInit): Promise<Response> => {
+  let response = await fetch(url, init)
+  for (let retry = 0; response.status === 429 && retry < RATE_LIMIT_RETRIES; retry++) {
+    await sleep((parseInt(response.headers.get("retry-after") || "") || 1) * 1000)
+    response = await fetch(url, init)
+  }
+  return response
+}
+
+export const fetchLcscPart = async (lcscId: string): Promise<LcscPart> => {
+  const response = await fetchWithRetry(`${DETAIL_ENDPOINT}?productCode=${encodeURIComponent(lcscId)}`)
+  const payload = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    throw new Error(payload?.error || `LCSC lookup failed (HTTP ${response.status})`)
+  }
+
+  return toLcscPart(lcscId, payload)
+}
+
+// Part numbers per batch request. The proxy takes up to 50, but it also caps
+// the upstream attempts per request, so smaller batches lose fewer parts to
+// the cap when LCSC needs retries.
+const BATCH_SIZE = 20
+
+type BatchResult = {
+  productCode: string
+  payload?: { result?: LcscDetailResult | null }
+  error?: string
+  // The proxy ran out of upstream lookups for the request before this part.
+  retryable?: boolean
+}
+
+// A part to ask for again in a later batch.
+class LcscRetryLater extends Error {}
+
+const fetchBatch = async (lcscIds: string[]): Promise<Map<string, LcscPart | Error>> => {
+  const parts = new Map<string, LcscPart | Error>()
+  const valid = lcscIds.filter((lcscId) => isValidLcscId(lcscId))
+  for (const lcscId of lcscIds) {
+    if (!isValidLcscId(lcscId)) parts.set(lcscId, new Error(`${lcscId} is not an LCSC part number`))
+  }
+  if (valid.length === 0) return parts
+
+  try {
+    const response = await fetchWithRetry(DETAIL_ENDPOINT, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ productCodes: valid }),
+    })
+    const payload = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(payload?.error || `LCSC lookup failed (HTTP ${response.status})`)
+    }
+
+    const results = new Map<string, BatchResult>(
+      ((payload?.results || []) as BatchResult[]).map((result) => [result.productCode, result])
+    )
+    for (const lcscId of valid) {
+      const result = results.get(lcscId)
+      try {
+        if (!result) throw new Error("LCSC lookup returned nothing for this part")
+        if (result.error) throw result.retryable ? new LcscRetryLater(result.error) : new Error(result.error)
+        parts.set(lcscId, toLcscPart(lcscId, result.payload || null))
+      } catch (error) {
+        parts.set(lcscId, error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+  } catch (error) {
+    // The whole request failed, so every part in it did.
+    const failure = error instanceof Error ? error : new Error(String(error))
+    for (const lcscId of valid) parts.set(lcscId, failure)
+  }
+  return parts
+}
+
+// Looks up many parts through the proxy's batch endpoint, a batch at a time,
+// reporting each as it lands. Each part gets its details or why it couldn't
+// be looked up (LcscPartNotFound when LCSC has no such part), so one bad
+// number doesn't sink the rest. Parts the proxy had no lookups left for go
+// round again; stops starting new batches once `shouldStop` says so.
+export const lookupLcscParts = async (
+  lcscIds: string[],
+  onResult: (lcscId: string, result: LcscPart | Error) => void,
+  shouldStop: () => boolean = () => false
+): Promise<void> => {
+  const queue = Array.from(new Set(lcscIds))
+  while (queue.length > 0 && !shouldStop()) {
+    const batch = queue.splice(0, BATCH_SIZE)
+    const parts = await fetchBatch(batch)
+    if (shouldStop()) return
+
+    // A batch that got nowhere would only go round forever.
+    const progressed = Array.from(parts.values()).some((part) => !(part instanceof LcscRetryLater))
+    for (const [lcscId, part] of parts) {
+      if (part instanceof LcscRetryLater && progressed) queue.push(lcscId)
+      else onResult(lcscId, part)
+    }
   }
 }
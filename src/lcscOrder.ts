@@ -0,0 +1,92 @@
+import Moment from "moment"
+import Papa from "papaparse"
+import { pickColumn } from "./csv"
+import type { AggregatedRow } from "./inventory"
+import { normalizeLcscId } from "./lcsc"
+
+// One line of an LCSC order-detail / invoice export.
+export type OrderLine = {
+  lcscId: string
+  manufactureId: string
+  manufacturer: string
+  package: string
+  description: string
+  customerNumber: string
+  quantity: number
+  unitPrice: number
+  extendedPrice: number
+}
+
+export type ParsedOrder = {
+  // Blank when neither the file's columns nor its name carry them.
+  orderNumber: string
+  date: string
+  lines: OrderLine[]
+  skipped: number
+}
+
+// LCSC order numbers look like WM2305120042; the export is usually named
+// after the order.
+const ORDER_NUMBER_PATTERN = /([A-Z]{1,3}\d{8,})/
+
+// YYYY-MM-DD, which is what <input type="date"> wants.
+const normalizeDate = (raw: string): string => {
+  if (!raw) return ""
+  const parsed = Moment(raw, ["YYYY-MM-DD HH:mm:ss", "YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY", "YYYY/MM/DD"])
+  return parsed.isValid() ? parsed.format("YYYY-MM-DD") : ""
+}
+
+const parsePrice = (raw: string): number => parseFloat(raw.replace(/[$,\s]/g, "")) || 0
+
+export const parseLcscOrder = (content: string, fileName: string): ParsedOrder => {
+  const results = Papa.parse<Record<string, unknown>>(content, { header: true, skipEmptyLines: true })
+  const lines: OrderLine[] = []
+  let orderNumber = ""
+  let date = ""
+  let skipped = 0
+
+  for (const row of results.data) {
+    const lcscId = normalizeLcscId(pickColumn(row, "LCSC Part Number", "LCSC Part #", "LCSC Part", "LCSC#", "LCSC"))
+    const quantity = parseInt(pickColumn(row, "Order Qty.", "Order Qty", "Quantity", "Qty").replace(/,/g, "")) || 0
+    if (!/^C\d+$/.test(lcscId) || quantity <= 0) {
+      // Invoices end with shipping/total rows that aren't parts.
+      skipped++
+      continue
+    }
+
+    const extendedPrice = parsePrice(pickColumn(row, "Order Price($)", "Ext.Price($)", "Extended Price($)", "Extended Price", "Order Price"))
+    const unitPrice = parsePrice(pickColumn(row, "Unit Price($)", "Unit Price")) || extendedPrice / quantity
+
+    lines.push({
+      lcscId,
+      manufactureId: pickColumn(row, "Manufacture Part Number", "Manufacturer Part Number", "MPN"),
+      manufacturer: pickColumn(row, "Manufacturer", "Mfr"),
+      package: pickColumn(row, "Package", "Footprint"),
+      description: pickColumn(row, "Description"),
+      customerNumber: pickColumn(row, "Customer NO.", "Customer No", "Customer #", "Customer Part Number"),
+      quantity,
+      unitPrice,
+      extendedPrice: extendedPrice || unitPrice * quantity,
+    })
+    orderNumber ||= pickColumn(row, "Order Number", "Order No.", "Order NO.", "Order #", "Order No")
+    date ||= normalizeDate(pickColumn(row, "Order Date", "Order Time", "Date"))
+  }
+
+  return {
+    orderNumber: orderNumber || fileName.toUpperCase().match(ORDER_NUMBER_PATTERN)?.[1] || "",
+    date,
+    lines,
+    skipped,
+  }
+}
+
+// Parts that already have a purchase from this order — receiving the same
+// export twice would double the stock.
+export const alreadyReceived = (rows: AggregatedRow[], orderNumber: string): Set<string> =>
+  new Set(
+    orderNumber
+      ? rows
+          .filter((row) => row.priceHistory.some((entry) => entry.orderNumber === orderNumber))
+          .map((row) => row.lcscId)
+      : []
+  )
@@ -0,0 +1,58 @@
+import type { AggregatedRow } from "./inventory"
+import { LcscPartNotFound, type LcscPart } from "./lcsc"
+
+// What a "Refresh from LCSC" pass found, per part.
+export type RefreshOutcome = {
+  found: Map<string, LcscPart>
+  // Lookup failed (network, throttling); worth retrying later.
+  failed: Map<string, string>
+  // LCSC no longer lists the part at all.
+  notListed: string[]
+}
+
+export const emptyOutcome = (): RefreshOutcome => ({ found: new Map(), failed: new Map(), notListed: [] })
+
+export const recordResult = (outcome: RefreshOutcome, lcscId: string, result: LcscPart | Error) => {
+  if (result instanceof LcscPartNotFound) outcome.notListed.push(lcscId)
+  else if (result instanceof Error) outcome.failed.set(lcscId, result.message)
+  else outcome.found.set(lcscId, result)
+}
+
+// Stores LCSC's current stock, prices and links on each row, and fills in
+// catalogue fields the row is missing. Fields already set are left alone —
+// they may have been corrected by hand.
+export const applyRefresh = (rows: AggregatedRow[], found: Map<string, LcscPart>, refreshedAt: string): AggregatedRow[] =>
+  rows.map((row) => {
+    const part = found.get(row.lcscId)
+    if (!part) return row
+
+    return {
+      ...row,
+      manufactureId: row.manufactureId || part.manufactureId,
+      manufacturer: row.manufacturer || part.manufacturer,
+      package: row.package || part.package,
+      description: row.description || part.description,
+      lcsc: {
+        stock: part.stock,
+        minBuyNumber: part.minBuyNumber,
+        priceTiers: part.priceTiers,
+        datasheetUrl: part.datasheetUrl,
+        imageUrl: part.imageUrl,
+        discontinued: part.discontinued,
+        refreshedAt,
+      },
+    }
+  })
+
+// How many rows the refresh would fill a blank catalogue field on.
+export const countFilled = (rows: AggregatedRow[], found: Map<string, LcscPart>): number =>
+  rows.filter((row) => {
+    const part = found.get(row.lcscId)
+    return (
+      part &&
+      ((!row.manufactureId && part.manufactureId) ||
+        (!row.manufacturer && part.manufacturer) ||
+        (!row.package && part.package) ||
+        (!row.description && part.description))
+    )
+  }).length
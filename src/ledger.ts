@@ -0,0 +1,296 @@
+import { newId } from "./ids"
+import type { AggregatedRow } from "./inventory"
+
+// receive: new stock came in (manual add, combined CSV)
+// consume: used up by an applied BOM
+// adjust:  set to a counted/imported figure, or a correction
+// delete:  part removed from inventory, whatever was left written off
+// revalue: a corrected unit price for the stock on hand; quantity is always 0
+export type MovementKind = "receive" | "consume" | "adjust" | "delete" | "revalue"
+
+// One line of the append-only stock ledger. `quantity` is the signed change,
+// so a part's stock is simply the sum of its movements.
+export type StockMovement = {
+  id: string
+  lcscId: string
+  kind: MovementKind
+  quantity: number
+  timestamp: string
+  reason: string
+  sourceFile?: string
+  unitPrice?: number
+  // Set on an undo: the id of the movement this one cancels.
+  reverses?: string
+}
+
+export type MovementDetails = {
+  reason: string
+  sourceFile?: string
+  unitPrice?: number
+  timestamp?: string
+  reverses?: string
+}
+
+export const createMovement = (
+  lcscId: string,
+  kind: MovementKind,
+  quantity: number,
+  { reason, sourceFile, unitPrice, timestamp, reverses }: MovementDetails
+): StockMovement => ({
+  id: newId(),
+  lcscId,
+  kind,
+  quantity,
+  timestamp: timestamp || new Date().toISOString(),
+  reason,
+  ...(sourceFile ? { sourceFile } : {}),
+  ...(unitPrice !== undefined ? { unitPrice } : {}),
+  ...(reverses ? { reverses } : {}),
+})
+
+// Stock still on the shelf from one incoming movement, valued at what it
+// cost then.
+export type StockLot = {
+  quantity: number
+  unitPrice: number
+  receivedAt: string
+  reason: string
+}
+
+export type LotReplay = {
+  lots: Map<string, StockLot[]>
+  // What each outgoing movement's stock cost, by movement id.
+  costs: Map<string, number>
+}
+
+// Incoming movements recorded before they carried a price (opening balances,
+// recounts) are valued at the part's average purchase price. It comes from
+// `priceHistory` rather than `unitPrice` because `unitPrice` is itself derived
+// from the lots.
+export const fallbackPrices = (rows: AggregatedRow[]): Map<string, number> =>
+  new Map(
+    rows.map((row) => {
+      const bought = row.priceHistory.reduce((sum, entry) => sum + entry.quantity, 0)
+      const paid = row.priceHistory.reduce((sum, entry) => sum + entry.quantity * entry.unitPrice, 0)
+      return [row.lcscId, bought > 0 ? paid / bought : row.unitPrice]
+    })
+  )
+
+// What one movement did to a part's lots — the signed change to each lot it
+// touched and to what's owed, and the price each lot had before it was
+// revalued — so that reversing the movement can put back exactly that.
+type LotEffect = {
+  lots: { lot: StockLot; quantity: number }[]
+  owed: number
+  prices: { lot: StockLot; unitPrice: number }[]
+}
+
+// Replays the ledger first-in, first-out: every incoming movement is a lot,
+// and stock going out (builds, write-offs, downward recounts) is taken from
+// the oldest lots first. Stock taken that wasn't there is owed, and the next
+// incoming stock pays it back before becoming a lot — the same floor at zero
+// the quantities have. A revaluation reprices every lot still on hand.
+//
+// A reversal (an undo) puts back what the movement it reverses did: an
+// undone build returns its stock to the lots it came from, at their price.
+// Whatever can't go back exactly — stock from an undone receipt that's been
+// used since — moves the ordinary way.
+export const replayLots = (ledger: StockMovement[], prices: Map<string, number>): LotReplay => {
+  const lots = new Map<string, StockLot[]>()
+  const owed = new Map<string, number>()
+  const costs = new Map<string, number>()
+  const effects = new Map<string, LotEffect>()
+  const inOrder = [...ledger].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+  for (const movement of inOrder) {
+    const { lcscId } = movement
+    // Emptied lots stay in the list, in case a reversal refills them.
+    const partLots = lots.get(lcscId) || []
+    lots.set(lcscId, partLots)
+
+    const effect: LotEffect = { lots: [], owed: 0, prices: [] }
+    const change = (lot: StockLot, quantity: number) => {
+      lot.quantity += quantity
+      effect.lots.push({ lot, quantity })
+    }
+    const changeOwed = (quantity: number) => {
+      owed.set(lcscId, (owed.get(lcscId) || 0) + quantity)
+      effect.owed += quantity
+    }
+    const reprice = (lot: StockLot, unitPrice: number) => {
+      effect.prices.push({ lot, unitPrice: lot.unitPrice })
+      lot.unitPrice = unitPrice
+    }
+    const receive = (quantity: number) => {
+      const repaid = Math.min(owed.get(lcscId) || 0, quantity)
+      changeOwed(-repaid)
+      if (quantity > repaid) {
+        const lot: StockLot = {
+          quantity: 0,
+          unitPrice: movement.unitPrice ?? prices.get(lcscId) ?? 0,
+          receivedAt: movement.timestamp,
+          reason: movement.reason,
+        }
+        partLots.push(lot)
+        change(lot, quantity - repaid)
+      }
+    }
+    const take = (quantity: number) => {
+      let remaining = quantity
+      for (const lot of partLots) {
+        const taken = Math.min(remaining, lot.quantity)
+        if (taken > 0) change(lot, -taken)
+        remaining -= taken
+      }
+      changeOwed(remaining)
+    }
+
+    const reversed = movement.reverses !== undefined ? effects.get(movement.reverses) : undefined
+    if (reversed) {
+      // Signed stock that couldn't go back where it came from.
+      let leftover = 0
+      for (const { lot, quantity } of reversed.lots) {
+        const back = quantity > 0 ? -Math.min(quantity, lot.quantity) : -quantity
+        if (back !== 0) change(lot, back)
+        leftover -= quantity + back
+      }
+      if (reversed.owed > 0) {
+        const cleared = Math.min(reversed.owed, owed.get(lcscId) || 0)
+        changeOwed(-cleared)
+        leftover += reversed.owed - cleared
+      } else if (reversed.owed < 0) {
+        changeOwed(-reversed.owed)
+      }
+      reversed.prices.forEach(({ lot, unitPrice }) => reprice(lot, unitPrice))
+      if (leftover > 0) receive(leftover)
+      else if (leftover < 0) take(-leftover)
+    } else if (movement.kind === "revalue") {
+      const { unitPrice } = movement
+      if (unitPrice !== undefined) partLots.filter((lot) => lot.quantity > 0).forEach((lot) => reprice(lot, unitPrice))
+    } else if (movement.quantity > 0) {
+      receive(movement.quantity)
+    } else if (movement.quantity < 0) {
+      take(-movement.quantity)
+    }
+
+    effects.set(movement.id, effect)
+    if (movement.quantity < 0) {
+      const cost = effect.lots.reduce((sum, { lot, quantity }) => (quantity < 0 ? sum - quantity * lot.unitPrice : sum), 0)
+      costs.set(movement.id, cost)
+    }
+  }
+
+  return {
+    lots: new Map(Array.from(lots, ([lcscId, partLots]) => [lcscId, partLots.filter((lot) => lot.quantity > 0)])),
+    costs,
+  }
+}
+
+// Quantities are never trusted from the rows themselves — they are whatever
+// the ledger adds up to. Nor is the value: `unitPrice` and `totalCost` are
+// those of the lots still on hand. A part with nothing left keeps its last
+// price, so it still reads sensibly in the table.
+export const applyLedger = (rows: AggregatedRow[], ledger: StockMovement[]): AggregatedRow[] => {
+  const { lots } = replayLots(ledger, fallbackPrices(rows))
+  return rows.map((row) => {
+    const partLots = lots.get(row.lcscId) || []
+    const quantity = partLots.reduce((sum, lot) => sum + lot.quantity, 0)
+    const totalCost = partLots.reduce((sum, lot) => sum + lot.quantity * lot.unitPrice, 0)
+    const unitPrice = quantity > 0 ? totalCost / quantity : row.unitPrice
+    return quantity === row.quantity && totalCost === row.totalCost && unitPrice === row.unitPrice
+      ? row
+      : { ...row, quantity, totalCost, unitPrice }
+  })
+}
+
+// Movements that take every part from its quantity in `before` to its
+// quantity in `after` — for imports that replace the inventory wholesale.
+// Parts missing from `after` are written off. Stock
+// that goes up is priced at the row's unit price, as a new lot.
+export const movementsBetween = (
+  before: AggregatedRow[],
+  after: AggregatedRow[],
+  details: MovementDetails
+): StockMovement[] => {
+  const afterById = new Map(after.map((row) => [row.lcscId, row]))
+  const beforeIds = new Set(before.map((row) => row.lcscId))
+  const movements: StockMovement[] = []
+
+  for (const row of before) {
+    const next = afterById.get(row.lcscId)
+    if (!next) {
+      if (row.quantity !== 0) movements.push(createMovement(row.lcscId, "delete", -row.quantity, details))
+    } else if (next.quantity !== row.quantity) {
+      const price = next.quantity > row.quantity ? { unitPrice: next.unitPrice } : {}
+      movements.push(createMovement(row.lcscId, "adjust", next.quantity - row.quantity, { ...details, ...price }))
+    }
+  }
+
+  for (const row of after) {
+    if (!beforeIds.has(row.lcscId) && row.quantity !== 0) {
+      movements.push(createMovement(row.lcscId, "adjust", row.quantity, { ...details, unitPrice: row.unitPrice }))
+    }
+  }
+
+  return movements
+}
+
+// Undo and redo. A movement undone and then redone is a chain — the
+// original, its reversal, that reversal's reversal — so each of `ids` is
+// reversed at the newest link of its chain, and only where that's needed:
+// where it's in effect when undoing, where it's been cancelled when redoing.
+// A reversal never sorts before what it reverses, whatever this browser's
+// clock says.
+export const reversalsOf = (
+  ledger: StockMovement[],
+  ids: string[],
+  undo: boolean,
+  reason: string
+): StockMovement[] => {
+  const byId = new Map(ledger.map((movement) => [movement.id, movement]))
+  const reversedBy = new Map(
+    ledger.flatMap((movement) => (movement.reverses ? [[movement.reverses, movement] as const] : []))
+  )
+  const now = new Date().toISOString()
+  const reversals: StockMovement[] = []
+
+  for (const id of ids) {
+    let latest = byId.get(id)
+    if (!latest) continue
+    let inEffect = true
+    for (let next = reversedBy.get(latest.id); next; next = reversedBy.get(latest.id)) {
+      latest = next
+      inEffect = !inEffect
+    }
+    if (inEffect !== undo) continue
+    reversals.push(
+      createMovement(latest.lcscId, latest.kind, -latest.quantity || 0, {
+        reason,
+        reverses: latest.id,
+        timestamp: latest.timestamp > now ? latest.timestamp : now,
+      })
+    )
+  }
+
+  return reversals
+}
+
+// Inventories saved before the ledger existed only have quantities. Record
+// each as an opening balance so the ledger reproduces them exactly.
+export const openingBalances = (rows: AggregatedRow[]): StockMovement[] =>
+  movementsBetween([], rows, { reason: "Opening balance" })
+
+// Oldest first, each with the stock level it left behind.
+export const partHistory = (
+  ledger: StockMovement[],
+  lcscId: string
+): (StockMovement & { balance: number })[] => {
+  let balance = 0
+  return ledger
+    .filter((movement) => movement.lcscId === lcscId)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map((movement) => {
+      balance += movement.quantity
+      return { ...movement, balance }
+    })
+}
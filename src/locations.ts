@@ -0,0 +1,157 @@
+// Where a part physically lives: cabinet → drawer → bin. Any level below the
+// cabinet may be left empty ("just somewhere in cabinet B").
+export type PartLocation = {
+  cabinet: string
+  drawer: string
+  bin: string
+  quantity: number
+}
+
+// Filter value for parts with no location at all.
+export const UNASSIGNED_LOCATION = "__unassigned__"
+
+const PATH_SEPARATOR = "/"
+
+export const formatLocationPath = (location: Pick<PartLocation, "cabinet" | "drawer" | "bin">): string => {
+  const levels = [location.cabinet, location.drawer, location.bin].map((level) => level.trim())
+  while (levels.length > 0 && levels[levels.length - 1] === "") levels.pop()
+  return levels.join(PATH_SEPARATOR)
+}
+
+export const parseLocationPath = (path: string): Omit<PartLocation, "quantity"> => {
+  const [cabinet = "", drawer = "", bin = ""] = path.split(PATH_SEPARATOR).map((level) => level.trim())
+  return { cabinet, drawer, bin }
+}
+
+// The CSV form below and the location filter spell locations out with these,
+// so a cabinet, drawer or bin can't have them in its name.
+const RESERVED_CHARACTERS = /[;=/]/
+
+// Why the names can't be stored, if they can't.
+export const locationNameError = (location: Omit<PartLocation, "quantity">): string | undefined =>
+  [location.cabinet, location.drawer, location.bin].some((level) => RESERVED_CHARACTERS.test(level))
+    ? "Cabinet, drawer and bin names can't contain ;, = or /"
+    : undefined
+
+// The same for a typed "cabinet/drawer/bin".
+export const locationPathError = (path: string): string | undefined =>
+  path.split(PATH_SEPARATOR).length > 3
+    ? `"${path.trim()}" has more levels than cabinet/drawer/bin`
+    : locationNameError(parseLocationPath(path))
+
+// The same for a whole CSV cell, before parseLocations reads it — which would
+// otherwise split a name wherever it has one of those characters.
+export const locationsError = (text: string): string | undefined => {
+  for (const entry of text.split(";").map((entry) => entry.trim())) {
+    if (entry === "") continue
+    const [path, ...quantities] = entry.split("=")
+    if (quantities.length > 1) return `"${entry}" has more than one "="`
+    if (quantities.length === 1 && !/^\d+$/.test(quantities[0].trim())) {
+      return `"${entry}" needs a whole number of pieces after the "="`
+    }
+    const error = locationPathError(path)
+    if (error) return error
+  }
+  return undefined
+}
+
+// CSV form is "A/2/5=60; B/1=40". An entry without "=N" takes whatever part of
+// `totalQuantity` the other entries leave over, so a backup with a single
+// "A/2/5" keeps the whole stock in that bin.
+export const parseLocations = (text: string, totalQuantity: number): PartLocation[] => {
+  const entries = text
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "")
+    .map((entry) => {
+      const [path, qty] = entry.split("=")
+      const quantity = qty === undefined ? null : parseInt(qty.trim())
+      return { ...parseLocationPath(path), quantity: quantity !== null && !isNaN(quantity) ? quantity : null }
+    })
+    .filter((entry) => entry.cabinet !== "")
+
+  const counted = entries.reduce((sum, entry) => sum + (entry.quantity ?? 0), 0)
+  let leftover = Math.max(0, totalQuantity - counted)
+
+  const locations = entries.map((entry) => {
+    if (entry.quantity !== null) return { ...entry, quantity: entry.quantity }
+    const quantity = leftover
+    leftover = 0
+    return { ...entry, quantity }
+  })
+
+  return mergeLocations(locations, [])
+}
+
+export const formatLocations = (locations: PartLocation[]): string =>
+  locations.map((location) => `${formatLocationPath(location)}=${location.quantity}`).join("; ")
+
+// Sums quantities per path, so the same bin named in two imports is one entry.
+export const mergeLocations = (a: PartLocation[], b: PartLocation[]): PartLocation[] => {
+  const byPath = new Map<string, PartLocation>()
+
+  for (const location of [...a, ...b]) {
+    const path = formatLocationPath(location)
+    if (path === "") continue
+
+    const existing = byPath.get(path)
+    if (existing) {
+      existing.quantity += location.quantity
+    } else {
+      byPath.set(path, { ...parseLocationPath(path), quantity: location.quantity })
+    }
+  }
+
+  return Array.from(byPath.values())
+}
+
+// Adds `quantity` pcs to the bin at `path`, e.g. when a new bag is put away.
+export const addToLocation = (locations: PartLocation[], path: string, quantity: number): PartLocation[] =>
+  path.trim() === "" ? locations : mergeLocations(locations, [{ ...parseLocationPath(path), quantity }])
+
+export const assignedQuantity = (locations: PartLocation[]): number =>
+  locations.reduce((sum, location) => sum + location.quantity, 0)
+
+// Stock only ever shrinks through the total (Apply BOM and friends don't know
+// which bin was picked from), so take the excess out of the last-listed bins
+// first and drop any that end up empty.
+export const fitLocationsToQuantity = (locations: PartLocation[], quantity: number): PartLocation[] => {
+  let excess = assignedQuantity(locations) - quantity
+  if (excess <= 0) return locations
+
+  const fitted = locations.map((location) => ({ ...location }))
+  for (let i = fitted.length - 1; i >= 0 && excess > 0; i--) {
+    const taken = Math.min(fitted[i].quantity, excess)
+    fitted[i].quantity -= taken
+    excess -= taken
+  }
+
+  return fitted.filter((location) => location.quantity > 0)
+}
+
+// Every cabinet, cabinet/drawer and cabinet/drawer/bin in use, so the filter
+// can narrow to a whole cabinet as well as a single bin.
+export const locationFilterOptions = (allLocations: PartLocation[][]): string[] => {
+  const paths = new Set<string>()
+
+  for (const locations of allLocations) {
+    for (const location of locations) {
+      const levels = formatLocationPath(location).split(PATH_SEPARATOR)
+      for (let depth = 1; depth <= levels.length; depth++) {
+        paths.add(levels.slice(0, depth).join(PATH_SEPARATOR))
+      }
+    }
+  }
+
+  return Array.from(paths).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+}
+
+export const matchesLocationFilter = (locations: PartLocation[], filter: string): boolean => {
+  if (filter === "") return true
+  if (filter === UNASSIGNED_LOCATION) return locations.length === 0
+
+  return locations.some((location) => {
+    const path = formatLocationPath(location)
+    return path === filter || path.startsWith(`${filter}${PATH_SEPARATOR}`)
+  })
+}
@@ -0,0 +1,210 @@
+import type { AggregatedRow } from "./inventory"
+import { formatLocations } from "./locations"
+
+// Three-way merge of inventory copies that diverged from a common base: two
+// laptops' exported CSVs, or two tabs writing the same IndexedDB. Each part's
+// fields are compared against the base, so a change made on only one side is
+// taken as-is, and only parts changed differently on both sides need a person.
+
+export type MergeField =
+  | "quantity"
+  | "manufactureId"
+  | "manufacturer"
+  | "package"
+  | "description"
+  | "unitPrice"
+  | "locations"
+  | "minQuantity"
+  | "targetQuantity"
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  quantity: "Qty",
+  manufactureId: "Part number",
+  manufacturer: "Manufacturer",
+  package: "Package",
+  description: "Description",
+  unitPrice: "Unit price",
+  locations: "Location",
+  minQuantity: "Min qty",
+  targetQuantity: "Target qty",
+}
+
+const MERGE_FIELDS = Object.keys(MERGE_FIELD_LABELS) as MergeField[]
+
+// ours:     keep this copy's version of the part
+// theirs:   take the other copy's
+// combined: both stock changes added onto the base, other fields auto-merged
+export type ConflictChoice = "ours" | "theirs" | "combined"
+
+export type MergeConflict = {
+  lcscId: string
+  base: AggregatedRow | null
+  // null when that side deleted the part.
+  ours: AggregatedRow | null
+  theirs: AggregatedRow | null
+  // Fields changed differently on both sides. Empty when one side deleted a
+  // part the other edited.
+  fields: MergeField[]
+  // Only when both sides still have the part.
+  combined: AggregatedRow | null
+}
+
+export type MergeResult = {
+  // Conflicted parts are left at our version until resolved.
+  rows: AggregatedRow[]
+  conflicts: MergeConflict[]
+  // Parts where the other side's change was taken automatically.
+  fromTheirs: string[]
+  // Parts deleted on the other side and unchanged on ours.
+  removed: string[]
+}
+
+// Compared the way a CSV round trip leaves them — the export writes prices to
+// four decimals and locations as text.
+export const fieldValue = (row: AggregatedRow, field: MergeField): string => {
+  switch (field) {
+    case "unitPrice":
+      return row.unitPrice.toFixed(4)
+    case "locations":
+      return formatLocations(row.locations)
+    default:
+      return String(row[field] ?? "")
+  }
+}
+
+const sameField = (a: AggregatedRow, b: AggregatedRow, field: MergeField) => fieldValue(a, field) === fieldValue(b, field)
+
+const changedFields = (from: AggregatedRow, to: AggregatedRow): MergeField[] =>
+  MERGE_FIELDS.filter((field) => !sameField(from, to, field))
+
+const copyField = (target: AggregatedRow, source: AggregatedRow, field: MergeField): AggregatedRow => {
+  switch (field) {
+    case "unitPrice":
+      // The price history is what the unit price was averaged from.
+      return { ...target, unitPrice: source.unitPrice, priceHistory: source.priceHistory }
+    case "locations":
+      return { ...target, locations: source.locations }
+    default:
+      return { ...target, [field]: source[field] }
+  }
+}
+
+const withTotalCost = (row: AggregatedRow): AggregatedRow => ({ ...row, totalCost: row.quantity * row.unitPrice })
+
+// Both sides' stock changes, applied on top of the base. A part added on both
+// sides has a base of zero, so the two receipts add up.
+const combineRows = (base: AggregatedRow | null, ours: AggregatedRow, theirs: AggregatedRow): AggregatedRow => {
+  let combined = ours
+  for (const field of MERGE_FIELDS) {
+    if (field !== "quantity" && base && sameField(base, ours, field) && !sameField(base, theirs, field)) {
+      combined = copyField(combined, theirs, field)
+    }
+  }
+  const baseQuantity = base ? base.quantity : 0
+  const quantity = Math.max(0, ours.quantity + theirs.quantity - baseQuantity)
+  return withTotalCost({ ...combined, quantity })
+}
+
+export const threeWayMerge = (
+  base: AggregatedRow[],
+  ours: AggregatedRow[],
+  theirs: AggregatedRow[]
+): MergeResult => {
+  const baseById = new Map(base.map((row) => [row.lcscId, row]))
+  const oursById = new Map(ours.map((row) => [row.lcscId, row]))
+  const theirsById = new Map(theirs.map((row) => [row.lcscId, row]))
+
+  const result: MergeResult = { rows: [], conflicts: [], fromTheirs: [], removed: [] }
+  const ids = [...oursById.keys(), ...[...theirsById.keys()].filter((id) => !oursById.has(id))]
+
+  for (const lcscId of ids) {
+    const b = baseById.get(lcscId) || null
+    const o = oursById.get(lcscId) || null
+    const t = theirsById.get(lcscId) || null
+
+    if (o && !t) {
+      // Never existed on their side, or they deleted it.
+      if (!b) {
+        result.rows.push(o)
+      } else if (changedFields(b, o).length === 0) {
+        result.removed.push(lcscId)
+      } else {
+        result.conflicts.push({ lcscId, base: b, ours: o, theirs: null, fields: [], combined: null })
+        result.rows.push(o)
+      }
+      continue
+    }
+
+    if (!o && t) {
+      if (!b) {
+        result.rows.push(t)
+        result.fromTheirs.push(lcscId)
+      } else if (changedFields(b, t).length > 0) {
+        result.conflicts.push({ lcscId, base: b, ours: null, theirs: t, fields: [], combined: null })
+      }
+      // Otherwise we deleted it and they didn't touch it: stays deleted.
+      continue
+    }
+
+    if (!o || !t) continue
+
+    let merged = o
+    const conflicting: MergeField[] = []
+    for (const field of MERGE_FIELDS) {
+      if (sameField(o, t, field)) continue
+
+      const oursChanged = !b || !sameField(b, o, field)
+      const theirsChanged = !b || !sameField(b, t, field)
+      if (oursChanged && theirsChanged) {
+        conflicting.push(field)
+      } else if (theirsChanged) {
+        merged = copyField(merged, t, field)
+      }
+    }
+
+    if (conflicting.length > 0) {
+      result.conflicts.push({ lcscId, base: b, ours: o, theirs: t, fields: conflicting, combined: combineRows(b, o, t) })
+      result.rows.push(o)
+    } else if (merged !== o) {
+      result.rows.push(withTotalCost(merged))
+      result.fromTheirs.push(lcscId)
+    } else {
+      result.rows.push(o)
+    }
+  }
+
+  return result
+}
+
+export const defaultChoice = (conflict: MergeConflict): ConflictChoice =>
+  conflict.combined && conflict.fields.includes("quantity") ? "combined" : "ours"
+
+// Puts each conflicted part into `rows` as chosen — `rows` being the merge
+// result, or whatever the inventory has become since the merge was computed.
+// BOM scratch quantities always stay this copy's.
+export const applyResolutions = (
+  rows: AggregatedRow[],
+  conflicts: MergeConflict[],
+  choices: Record<string, ConflictChoice>
+): AggregatedRow[] => {
+  const resolved = new Map<string, AggregatedRow | null>()
+  for (const conflict of conflicts) {
+    const choice = choices[conflict.lcscId] || defaultChoice(conflict)
+    const chosen =
+      choice === "theirs" ? conflict.theirs : choice === "combined" && conflict.combined ? conflict.combined : conflict.ours
+    resolved.set(conflict.lcscId, chosen)
+  }
+
+  const kept = rows
+    .filter((row) => !resolved.has(row.lcscId) || resolved.get(row.lcscId))
+    .map((row) => {
+      const chosen = resolved.get(row.lcscId)
+      return chosen && chosen !== row ? { ...chosen, editedQuantity: row.editedQuantity || 0 } : row
+    })
+  const keptIds = new Set(kept.map((row) => row.lcscId))
+  const added = Array.from(resolved.values()).filter(
+    (row): row is AggregatedRow => row !== null && !keptIds.has(row.lcscId)
+  )
+
+  return [...kept, ...added.map((row) => ({ ...row, editedQuantity: 0 }))]
+}
@@ -0,0 +1,387 @@
+import type { AggregatedRow } from "./inventory"
+import { formatLocationPath } from "./locations"
+
+// Structured attributes read out of part descriptions, so passives can be
+// searched by what they are: LCSC writes "100nF 50V X7R ±10% 0603 Multilayer
+// Ceramic Capacitors MLCC" and "10kΩ ±1% 100mW 0603 Chip Resistor", and most
+// other sources are close enough.
+
+export type PartCategory =
+  | "capacitor"
+  | "resistor"
+  | "inductor"
+  | "ferrite"
+  | "led"
+  | "diode"
+  | "transistor"
+  | "crystal"
+  | "connector"
+  | "fuse"
+  | "ic"
+  | "other"
+
+export type ValueUnit = "F" | "Ω" | "H" | "Hz"
+
+export type PartAttributes = {
+  category: PartCategory
+  // In base units: farads, ohms, henries, hertz.
+  value?: number
+  unit?: ValueUnit
+  // Percent.
+  tolerance?: number
+  voltage?: number
+  current?: number
+  power?: number
+  dielectric?: string
+  package?: string
+}
+
+const SI_PREFIXES: Record<string, number> = {
+  p: 1e-12,
+  n: 1e-9,
+  u: 1e-6,
+  µ: 1e-6,
+  μ: 1e-6,
+  m: 1e-3,
+  "": 1,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  G: 1e9,
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`
+const PREFIX = "([pnuµμmkKMG]?)"
+
+const quantityPatterns = new Map<string, RegExp>()
+
+// Every "<number><prefix><unit>" in the text, in base units.
+const quantities = (text: string, unit: string): number[] => {
+  let pattern = quantityPatterns.get(unit)
+  if (!pattern) {
+    pattern = new RegExp(`${NUMBER}\\s*${PREFIX}(?:${unit})(?![a-zA-Z])`, "g")
+    quantityPatterns.set(unit, pattern)
+  }
+  return Array.from(text.matchAll(pattern)).map((match) => parseFloat(match[1]) * SI_PREFIXES[match[2]])
+}
+
+const CATEGORY_WORDS: [PartCategory, RegExp][] = [
+  ["ferrite", /ferrite bead/i],
+  ["capacitor", /capacitor|\bMLCC\b|\bcap\b/i],
+  ["resistor", /resistor|\bres\b/i],
+  ["inductor", /inductor|choke/i],
+  ["led", /\bLEDs?\b|light emitting/i],
+  ["diode", /diode|rectifier|schottky|\bTVS\b|zener/i],
+  ["transistor", /transistor|MOSFET|\bBJT\b/i],
+  ["crystal", /crystal|oscillator|resonator/i],
+  ["connector", /connector|header|socket|terminal|\bUSB\b/i],
+  ["fuse", /fuse/i],
+  ["ic", /\bIC\b|regulator|amplifier|microcontroller|\bMCU\b|driver|converter|interface|sensor|memory|\bLDO\b/i],
+]
+
+// Imperial chip sizes, also when EDA libraries prefix them ("C0603", "R_0805").
+const CHIP_SIZE = /(?:^|[^\d])(01005|0201|0402|0603|0805|1206|1210|1812|2010|2220|2512)(?!\d)/
+const PACKAGE = /\b((?:SOT|SOD|SOIC|SOP|SSOP|TSSOP|MSOP|QFN|DFN|QFP|LQFP|TQFP|BGA|TO|SMA|SMB|SMC|DO)-?\d+[A-Z0-9-]*)\b/i
+
+export const normalizePackage = (raw: string): string => {
+  const chip = raw.match(CHIP_SIZE)
+  if (chip) return chip[1]
+  return raw.trim().toUpperCase()
+}
+
+const DIELECTRIC = /\b(C0G|NP0|NPO|X5R|X6S|X7R|X7S|X7T|X8R|Y5V|Z5U)\b/i
+
+export const normalizeDielectric = (raw: string): string => {
+  const upper = raw.toUpperCase()
+  return upper === "NP0" || upper === "NPO" ? "C0G" : upper
+}
+
+const largest = (values: number[]): number | undefined => (values.length > 0 ? Math.max(...values) : undefined)
+
+// 4k7 → 4700, 4R7 → 4.7, 2M2 → 2200000: resistor codes in values and MPNs.
+const rkmValue = (text: string): number | undefined => {
+  const match = text.match(/(?:^|\s)(\d+)([RkKM])(\d+)(?:\s|$)/)
+  if (!match) return undefined
+  const multiplier = match[2] === "R" ? 1 : SI_PREFIXES[match[2]]
+  return parseFloat(`${match[1]}.${match[3]}`) * multiplier
+}
+
+export const parseAttributes = (row: Pick<AggregatedRow, "description" | "package">): PartAttributes => {
+  const text = row.description
+
+  const capacitance = quantities(text, "F")[0]
+  const resistance = quantities(text, "Ω|ohms?|Ohms?")[0] ?? rkmValue(text)
+  const inductance = quantities(text, "H")[0]
+  const frequency = quantities(text, "Hz")[0]
+
+  let category = CATEGORY_WORDS.find(([, pattern]) => pattern.test(text))?.[0]
+  if (!category) {
+    if (capacitance !== undefined) category = "capacitor"
+    else if (resistance !== undefined) category = "resistor"
+    else if (inductance !== undefined) category = "inductor"
+    else category = "other"
+  }
+
+  let value: number | undefined
+  let unit: ValueUnit | undefined
+  if (category === "capacitor" && capacitance !== undefined) [value, unit] = [capacitance, "F"]
+  else if ((category === "resistor" || category === "ferrite") && resistance !== undefined) [value, unit] = [resistance, "Ω"]
+  else if (category === "inductor" && inductance !== undefined) [value, unit] = [inductance, "H"]
+  else if (category === "crystal" && frequency !== undefined) [value, unit] = [frequency, "Hz"]
+
+  const tolerance = text.match(/±\s*(\d+(?:\.\d+)?)\s*%/)
+  const dielectric = text.match(DIELECTRIC)
+  const packageText = row.package || text.match(CHIP_SIZE)?.[1] || text.match(PACKAGE)?.[1] || ""
+
+  // Power ratings are also written as fractions: "1/4W".
+  const fractionWatts = text.match(/(\d+)\/(\d+)\s*W(?![a-zA-Z])/)
+
+  return {
+    category,
+    value,
+    unit,
+    tolerance: tolerance ? parseFloat(tolerance[1]) : undefined,
+    voltage: largest(quantities(text, "V")),
+    current: largest(quantities(text, "A")),
+    power: fractionWatts ? parseInt(fractionWatts[1]) / parseInt(fractionWatts[2]) : largest(quantities(text, "W")),
+    dielectric: dielectric ? normalizeDielectric(dielectric[1]) : undefined,
+    package: packageText ? normalizePackage(packageText) : undefined,
+  }
+}
+
+// Rows are replaced rather than changed in place, so a row object's
+// attributes never go stale: across 10k parts, only the edited ones re-parse.
+const parsedRows = new WeakMap<Pick<AggregatedRow, "description" | "package">, PartAttributes>()
+
+export const attributesOf = (row: Pick<AggregatedRow, "description" | "package">): PartAttributes => {
+  let attributes = parsedRows.get(row)
+  if (!attributes) {
+    attributes = parseAttributes(row)
+    parsedRows.set(row, attributes)
+  }
+  return attributes
+}
+
+const UNIT = /^(?:F|H|Hz|Ω|ohms?|R|V|A|W|%)?$/i
+
+// "10n", "4.7uF", "4k7", "100" → base units; null when it isn't a number.
+// Units are read in any case, prefixes only in theirs (m is milli, M mega), so
+// "10N" is an unknown prefix — reported through `problem` — not a plain 10.
+export const parseSi = (text: string, problem: (message: string) => void = () => {}): number | null => {
+  const rkm = rkmValue(text)
+  if (rkm !== undefined) return rkm
+  const match = text.trim().match(new RegExp(`^${NUMBER}\\s*(.*)$`))
+  if (!match) return null
+  const [, number, suffix] = match
+  if (UNIT.test(suffix)) return parseFloat(number)
+
+  const prefix = suffix[0]
+  if (!UNIT.test(suffix.slice(1))) return null
+  if (SI_PREFIXES[prefix] === undefined) {
+    problem(`Unknown prefix "${prefix}" in "${text.trim()}" (prefixes go by case: p n u m k M G)`)
+    return null
+  }
+  return parseFloat(number) * SI_PREFIXES[prefix]
+}
+
+export const CATEGORY_LABELS: Record<PartCategory, string> = {
+  capacitor: "Capacitors",
+  resistor: "Resistors",
+  inductor: "Inductors",
+  ferrite: "Ferrite beads",
+  led: "LEDs",
+  diode: "Diodes",
+  transistor: "Transistors",
+  crystal: "Crystals",
+  connector: "Connectors",
+  fuse: "Fuses",
+  ic: "ICs",
+  other: "Other",
+}
+
+// How many parts have each value of an attribute, most common first.
+export const facetCounts = (attributes: PartAttributes[], pick: (attributes: PartAttributes) => string | undefined) => {
+  const counts = new Map<string, number>()
+  for (const entry of attributes) {
+    const value = pick(entry)
+    if (value) counts.set(value, (counts.get(value) || 0) + 1)
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], undefined, { numeric: true }))
+}
+
+// The facet selects above the table; "" leaves a facet open.
+export type PartFacets = {
+  category: string
+  package: string
+  dielectric: string
+}
+
+export const NO_FACETS: PartFacets = { category: "", package: "", dielectric: "" }
+
+export const hasFacets = (facets: PartFacets): boolean => Boolean(facets.category || facets.package || facets.dielectric)
+
+export const matchesFacets = (attributes: PartAttributes, facets: PartFacets): boolean =>
+  (!facets.category || attributes.category === facets.category) &&
+  (!facets.package || attributes.package === facets.package) &&
+  (!facets.dielectric || attributes.dielectric === facets.dielectric)
+
+// Search box filters: `key:value`, `key:lo..hi` and `key>=n`, combined by
+// the query language in src/query.ts.
+//
+//   cap:10n..220n pkg:0603 v>=25     res:4k7 tol<=1     diel:x7r stock<100
+
+type NumericKey = {
+  read: (row: AggregatedRow, attributes: PartAttributes) => number | undefined
+}
+
+const valueIn = (unit: ValueUnit) => (_row: AggregatedRow, attributes: PartAttributes) =>
+  attributes.unit === unit ? attributes.value : undefined
+
+const NUMERIC_KEYS: Record<string, NumericKey> = {
+  cap: { read: valueIn("F") },
+  res: { read: valueIn("Ω") },
+  ind: { read: valueIn("H") },
+  freq: { read: valueIn("Hz") },
+  v: { read: (_row, attributes) => attributes.voltage },
+  a: { read: (_row, attributes) => attributes.current },
+  w: { read: (_row, attributes) => attributes.power },
+  tol: { read: (_row, attributes) => attributes.tolerance },
+  stock: { read: (row) => row.quantity },
+  price: { read: (row) => row.unitPrice },
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  c: "cap",
+  r: "res",
+  l: "ind",
+  volt: "v",
+  voltage: "v",
+  amp: "a",
+  current: "a",
+  power: "w",
+  tolerance: "tol",
+  qty: "stock",
+  quantity: "stock",
+  pkg: "package",
+  diel: "dielectric",
+  type: "category",
+  cat: "category",
+  manufacturer: "mfr",
+  part: "mpn",
+  description: "desc",
+  location: "loc",
+}
+
+const TEXT_KEYS: Record<string, (row: AggregatedRow, attributes: PartAttributes, wanted: string) => boolean> = {
+  package: (row, attributes, wanted) =>
+    attributes.package === normalizePackage(wanted) || row.package.toLowerCase().includes(wanted.toLowerCase()),
+  dielectric: (_row, attributes, wanted) => attributes.dielectric === normalizeDielectric(wanted),
+  category: (_row, attributes, wanted) =>
+    attributes.category.startsWith(wanted.toLowerCase()) ||
+    CATEGORY_LABELS[attributes.category].toLowerCase().startsWith(wanted.toLowerCase()),
+  mfr: (row, _attributes, wanted) => row.manufacturer.toLowerCase().includes(wanted.toLowerCase()),
+  mpn: (row, _attributes, wanted) => row.manufactureId.toLowerCase().includes(wanted.toLowerCase()),
+  lcsc: (row, _attributes, wanted) => row.lcscId.toLowerCase().includes(wanted.toLowerCase()),
+  desc: (row, _attributes, wanted) => row.description.toLowerCase().includes(wanted.toLowerCase()),
+  loc: (row, _attributes, wanted) =>
+    row.locations.some((location) => formatLocationPath(location).toLowerCase().includes(wanted.toLowerCase())),
+}
+
+export type PartFilter = (row: AggregatedRow, attributes: PartAttributes) => boolean
+
+// Equal within rounding: 100n is 1.0000000000000001e-7 once multiplied out.
+const EPSILON = 1e-9
+export const near = (a: number, b: number) => Math.abs(a - b) <= Math.abs(b) * EPSILON
+
+const DISPLAY_PREFIXES: [number, string][] = [
+  [1e9, "G"],
+  [1e6, "M"],
+  [1e3, "k"],
+  [1, ""],
+  [1e-3, "m"],
+  [1e-6, "µ"],
+  [1e-9, "n"],
+  [1e-12, "p"],
+]
+
+// 1e-7, "F" → "100nF".
+export const formatSi = (value: number, unit: string): string => {
+  const [scale, prefix] =
+    DISPLAY_PREFIXES.find(([scale]) => Math.abs(value) >= scale * (1 - EPSILON)) || DISPLAY_PREFIXES[DISPLAY_PREFIXES.length - 1]
+  return `${parseFloat((value / scale).toPrecision(3))}${prefix}${unit}`
+}
+
+const compare = (operator: string, actual: number, wanted: number): boolean => {
+  if (operator === ">=") return actual > wanted || near(actual, wanted)
+  if (operator === "<=") return actual < wanted || near(actual, wanted)
+  if (operator === ">") return actual > wanted && !near(actual, wanted)
+  if (operator === "<") return actual < wanted && !near(actual, wanted)
+  return near(actual, wanted)
+}
+
+// One `key…` token as a filter; undefined when the key isn't one we know, so
+// the token is searched as text instead. Problems are reported through `problem`.
+export const parseFilter = (token: string, problem: (message: string) => void): PartFilter | undefined => {
+  const match = token.match(/^([a-z]+)(>=|<=|>|<|=|:)(.*)$/i)
+  if (!match) return undefined
+
+  const key = KEY_ALIASES[match[1].toLowerCase()] || match[1].toLowerCase()
+  const [, , operator, argument] = match
+
+  const numeric = NUMERIC_KEYS[key]
+  if (numeric) {
+    // parseSi explains an unknown prefix itself; anything else unreadable gets
+    // the general message.
+    let explained = false
+    const readValue = (text: string) =>
+      parseSi(text, (message) => {
+        explained = true
+        problem(message)
+      })
+
+    const range = argument.match(/^(.*)\.\.(.*)$/)
+    if (range && operator === ":") {
+      const min = range[1] ? readValue(range[1]) : -Infinity
+      const max = range[2] ? readValue(range[2]) : Infinity
+      if (min === null || max === null) {
+        if (!explained) problem(`Can't read the range in "${token}"`)
+        return () => false
+      }
+      return (row, attributes) => {
+        const actual = numeric.read(row, attributes)
+        return actual !== undefined && compare(">=", actual, min) && compare("<=", actual, max)
+      }
+    }
+
+    const wanted = readValue(argument)
+    if (wanted === null) {
+      if (!explained) problem(`Can't read "${argument}" in "${token}" as a number`)
+      return () => false
+    }
+    return (row, attributes) => {
+      const actual = numeric.read(row, attributes)
+      return actual !== undefined && compare(operator, actual, wanted)
+    }
+  }
+
+  const text = TEXT_KEYS[key]
+  if (text) {
+    if (operator !== ":" && operator !== "=") {
+      problem(`"${match[1]}" takes a value, not a comparison: ${match[1]}:…`)
+      return () => false
+    }
+    return (row, attributes) => text(row, attributes, argument)
+  }
+
+  return undefined
+}
+
+export const matchesText = (row: AggregatedRow, term: string): boolean => {
+  const query = term.toLowerCase()
+  return (
+    row.lcscId.toLowerCase().includes(query) ||
+    row.manufactureId.toLowerCase().includes(query) ||
+    row.manufacturer.toLowerCase().includes(query) ||
+    row.description.toLowerCase().includes(query)
+  )
+}
@@ -0,0 +1,96 @@
+import type { AggregatedRow } from "./inventory"
+import { createMovement, type StockMovement } from "./ledger"
+
+// Corrections typed into the table. Part details are written onto the row;
+// on-hand counts and unit prices are the ledger's (see applyLedger), so those
+// become movements instead and show up in the part's stock history.
+
+export type EditableField = "manufacturer" | "manufactureId" | "package" | "quantity" | "unitPrice" | "description"
+
+// In table column order, which is also the order arrow keys move through.
+export const EDITABLE_FIELDS: { field: EditableField; label: string; bulk: boolean }[] = [
+  { field: "manufacturer", label: "Manufacturer", bulk: true },
+  { field: "manufactureId", label: "Mfr part number", bulk: false },
+  { field: "package", label: "Package", bulk: true },
+  { field: "quantity", label: "On hand", bulk: true },
+  { field: "unitPrice", label: "Unit price", bulk: true },
+  { field: "description", label: "Description", bulk: true },
+]
+
+export const fieldLabel = (field: EditableField): string =>
+  EDITABLE_FIELDS.find((entry) => entry.field === field)?.label || field
+
+export type PartEdit = {
+  lcscId: string
+  field: EditableField
+  value: string | number
+}
+
+// What the cell editor starts with.
+export const editValue = (row: AggregatedRow, field: EditableField): string => {
+  if (field === "unitPrice") return String(parseFloat(row.unitPrice.toFixed(4)))
+  return String(row[field])
+}
+
+// The typed text as the field's value, or why it can't be.
+export const parseEditValue = (
+  field: EditableField,
+  raw: string
+): { value: string | number; error?: undefined } | { error: string } => {
+  const text = raw.trim()
+  if (field === "quantity") {
+    if (!/^\d+$/.test(text.replace(/,/g, ""))) return { error: "On hand must be a whole number of pieces, 0 or more" }
+    return { value: parseInt(text.replace(/,/g, "")) }
+  }
+  if (field === "unitPrice") {
+    const price = text.replace(/^\$/, "")
+    if (!/^(\d+(\.\d*)?|\.\d+)$/.test(price)) return { error: "Unit price must be a number, 0 or more" }
+    return { value: parseFloat(price) }
+  }
+  if (field === "manufactureId" && !text) return { error: "The manufacturer part number can't be empty" }
+  return { value: text }
+}
+
+const money = (value: number) => `$${parseFloat(value.toFixed(4))}`
+
+// The edited rows, and the movements that carry the stock and price changes.
+// A recount is an adjustment by the difference, with `note` as its reason. A
+// new unit price revalues what's on hand at that price, so later builds cost
+// it correctly; the quantity is left alone.
+export const applyPartEdits = (
+  rows: AggregatedRow[],
+  edits: PartEdit[],
+  note: string
+): { rows: AggregatedRow[]; movements: StockMovement[] } => {
+  const byId = new Map(edits.map((edit) => [edit.lcscId, edit]))
+  const movements: StockMovement[] = []
+
+  const edited = rows.map((row) => {
+    const edit = byId.get(row.lcscId)
+    if (!edit) return row
+
+    if (edit.field === "quantity") {
+      const change = Number(edit.value) - row.quantity
+      if (change !== 0) {
+        const price = change > 0 ? { unitPrice: row.unitPrice } : {}
+        movements.push(createMovement(row.lcscId, "adjust", change, { reason: note || "Stock count correction", ...price }))
+      }
+      return row
+    }
+
+    if (edit.field === "unitPrice") {
+      const unitPrice = Number(edit.value)
+      if (Math.abs(unitPrice - row.unitPrice) < 1e-9) return row
+      if (row.quantity > 0) {
+        const reason = `Revalued at ${money(unitPrice)} (was ${money(row.unitPrice)})${note ? `: ${note}` : ""}`
+        movements.push(createMovement(row.lcscId, "revalue", 0, { reason, unitPrice }))
+      }
+      // With nothing on hand the row's own price is the one shown.
+      return { ...row, unitPrice }
+    }
+
+    return row[edit.field] === edit.value ? row : { ...row, [edit.field]: edit.value }
+  })
+
+  return { rows: edited, movements }
+}
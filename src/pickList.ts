@@ -0,0 +1,170 @@
+import { compareDesignators, type BomLine } from "./bomLibrary"
+import type { AggregatedRow, BOMErrorInfo } from "./inventory"
+import { formatLocationPath, type PartLocation } from "./locations"
+
+// The loaded BOM part by part with its designators, for kitting and for
+// ticking placements off at the bench. The scratch column only holds summed
+// quantities; the designators come from the lines the BOM was loaded with,
+// when it was loaded from a file or the BOM library.
+
+export type PickItem = {
+  // Blank for lines with no LCSC part, which are still placed by hand.
+  lcscId: string
+  manufactureId: string
+  value: string
+  footprint: string
+  designators: string[]
+  // For the whole run: per board × multiplier.
+  quantity: number
+  // null when the part isn't in inventory.
+  onHand: number | null
+  locations: PartLocation[]
+}
+
+export type PickGroup = {
+  title: string
+  items: PickItem[]
+}
+
+export type PickGrouping = "location" | "package"
+
+const NO_LOCATION = "No location"
+const NOT_STOCKED = "Not in inventory"
+const UNSOURCED = "No LCSC part"
+
+export const pickItems = (
+  rows: AggregatedRow[],
+  missing: BOMErrorInfo[],
+  bomLines: BomLine[],
+  multiplier: number
+): PickItem[] => {
+  const linesByPart = new Map<string, BomLine[]>()
+  for (const line of bomLines) {
+    linesByPart.set(line.lcscId, [...(linesByPart.get(line.lcscId) || []), line])
+  }
+
+  const item = (
+    lcscId: string,
+    manufactureId: string,
+    perBoard: number,
+    row: AggregatedRow | undefined
+  ): PickItem => {
+    const lines = linesByPart.get(lcscId) || []
+    return {
+      lcscId,
+      manufactureId,
+      value: lines[0]?.value || "",
+      footprint: lines[0]?.footprint || row?.package || "",
+      designators: lines.flatMap((line) => line.designators).sort(compareDesignators),
+      quantity: perBoard * multiplier,
+      onHand: row ? row.quantity : null,
+      locations: row ? [...row.locations].sort((a, b) => b.quantity - a.quantity) : [],
+    }
+  }
+
+  const items = [
+    ...rows
+      .filter((row) => (row.editedQuantity || 0) > 0)
+      .map((row) => item(row.lcscId, row.manufactureId, row.editedQuantity || 0, row)),
+    ...missing.map((part) => item(part.lcscId, part.manufactureId, part.quantity || 0, undefined)),
+  ]
+
+  const unsourced = bomLines
+    .filter((line) => !line.lcscId)
+    .map((line) => ({
+      lcscId: "",
+      manufactureId: line.manufactureId,
+      value: line.value,
+      footprint: line.footprint,
+      designators: [...line.designators].sort(compareDesignators),
+      quantity: line.quantity * multiplier,
+      onHand: null,
+      locations: [],
+    }))
+
+  return [...items, ...unsourced]
+}
+
+const groupTitle = (item: PickItem, by: PickGrouping): string => {
+  if (!item.lcscId) return UNSOURCED
+  if (item.onHand === null) return NOT_STOCKED
+  if (by === "package") return item.footprint || "No package"
+  // The bin holding the most is where the picking starts.
+  return item.locations.length > 0 ? formatLocationPath(item.locations[0]) : NO_LOCATION
+}
+
+const LAST = [NO_LOCATION, "No package", NOT_STOCKED, UNSOURCED]
+
+export const groupPickItems = (items: PickItem[], by: PickGrouping): PickGroup[] => {
+  const groups = new Map<string, PickItem[]>()
+  for (const item of items) {
+    const title = groupTitle(item, by)
+    groups.set(title, [...(groups.get(title) || []), item])
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => LAST.indexOf(a) - LAST.indexOf(b) || a.localeCompare(b, undefined, { numeric: true }))
+    .map(([title, list]) => ({
+      title,
+      items: list.sort((a, b) => compareDesignators(a.designators[0] || a.lcscId, b.designators[0] || b.lcscId)),
+    }))
+}
+
+// What gets ticked: each designator, or the part itself when the BOM was
+// loaded without designators (re-opened builds, reservations).
+export const placementKeys = (item: PickItem): string[] =>
+  item.designators.length > 0 ? item.designators : [item.lcscId || item.value]
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+// A standalone page for the printer: one table per group, a box per line.
+export const pickListHtml = (title: string, groups: PickGroup[]): string => {
+  const tables = groups
+    .map(
+      (group) => `
+      <h2>${escapeHtml(group.title)}</h2>
+      <table>
+        <thead><tr><th></th><th>LCSC Part</th><th>Part</th><th>Value</th><th>Package</th><th>Designators</th><th>Qty</th><th>Locations</th></tr></thead>
+        <tbody>
+          ${group.items
+            .map(
+              (item) => `<tr>
+            <td class="box">☐</td>
+            <td>${escapeHtml(item.lcscId)}</td>
+            <td>${escapeHtml(item.manufactureId)}</td>
+            <td>${escapeHtml(item.value)}</td>
+            <td>${escapeHtml(item.footprint)}</td>
+            <td>${escapeHtml(item.designators.join(", "))}</td>
+            <td class="qty">${item.quantity}</td>
+            <td>${escapeHtml(item.locations.map((location) => `${formatLocationPath(location)} (${location.quantity})`).join(", "))}</td>
+          </tr>`
+            )
+            .join("")}
+        </tbody>
+      </table>`
+    )
+    .join("")
+
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body { font: 12px sans-serif; margin: 16px; }
+      h1 { font-size: 16px; }
+      h2 { font-size: 13px; margin: 16px 0 4px; }
+      table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+      tr { page-break-inside: avoid; }
+      th, td { border: 1px solid #999; padding: 3px 5px; text-align: left; vertical-align: top; }
+      .box { font-size: 16px; width: 16px; }
+      .qty { text-align: right; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    ${tables}
+  </body>
+</html>`
+}
@@ -0,0 +1,70 @@
+import type { AggregatedRow, PriceHistoryEntry } from "./inventory"
+
+// Numbers behind the price-history panel and the cost dashboard. Everything
+// comes from `priceHistory` (what was paid) and the blended `unitPrice` (what
+// stock on hand is valued at).
+
+// Purchases with a price, in the order they were recorded. Older entries have
+// no date, so the order is the only timeline every part has.
+export const pricedPurchases = (row: AggregatedRow): PriceHistoryEntry[] =>
+  row.priceHistory.filter((entry) => entry.unitPrice > 0)
+
+export const purchaseLabel = (entry: PriceHistoryEntry, index: number): string =>
+  entry.date || entry.orderNumber || `#${index + 1}`
+
+export const spendOf = (row: AggregatedRow): number =>
+  row.priceHistory.reduce((sum, entry) => sum + entry.quantity * entry.unitPrice, 0)
+
+export const stockValueOf = (row: AggregatedRow): number => row.quantity * row.unitPrice
+
+// First priced purchase to the latest, as a fraction (0.25 is 25% dearer).
+// Null with fewer than two priced purchases.
+export const priceChange = (row: AggregatedRow): number | null => {
+  const purchases = pricedPurchases(row)
+  if (purchases.length < 2) return null
+  return purchases[purchases.length - 1].unitPrice / purchases[0].unitPrice - 1
+}
+
+export type ValueGroup = {
+  label: string
+  parts: number
+  quantity: number
+  value: number
+}
+
+// Stock value summed per manufacturer or package, largest first.
+export const valueBy = (rows: AggregatedRow[], field: "manufacturer" | "package"): ValueGroup[] => {
+  const groups = new Map<string, ValueGroup>()
+  for (const row of rows) {
+    const label = row[field].trim() || "(unknown)"
+    const group = groups.get(label) || { label, parts: 0, quantity: 0, value: 0 }
+    group.parts += 1
+    group.quantity += row.quantity
+    group.value += stockValueOf(row)
+    groups.set(label, group)
+  }
+  return Array.from(groups.values()).sort((a, b) => b.value - a.value)
+}
+
+export type PriceMover = {
+  row: AggregatedRow
+  change: number
+  first: number
+  last: number
+}
+
+// Parts whose price moved most between their first and latest purchase,
+// either way.
+export const biggestMovers = (rows: AggregatedRow[], limit: number): PriceMover[] =>
+  rows
+    .flatMap((row) => {
+      const change = priceChange(row)
+      if (change === null || change === 0) return []
+      const purchases = pricedPurchases(row)
+      return [{ row, change, first: purchases[0].unitPrice, last: purchases[purchases.length - 1].unitPrice }]
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, limit)
+
+export const formatChange = (change: number): string =>
+  `${change > 0 ? "+" : ""}${(change * 100).toFixed(change !== 0 && Math.abs(change) < 0.1 ? 1 : 0)}%`
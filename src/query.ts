@@ -0,0 +1,109 @@
+import type { AggregatedRow } from "./inventory"
+import { matchesText, parseFilter, type PartAttributes, type PartFilter } from "./parametric"
+
+// The search box's query language. Terms next to each other must all match;
+// OR, NOT (or a leading "-") and parentheses combine them:
+//
+//   mfr:YAGEO qty<50 price>0.1
+//   (cap:100n OR cap:1u) pkg:0603 -diel:Y5V
+//   NOT (cat:ic OR cat:connector) "chip resistor"
+//
+// Terms are free text (LCSC ID, Mfr ID, manufacturer, description), quoted
+// phrases, or the filters parseFilter in src/parametric.ts reads. Operators
+// are upper case, so "or" on its own is still searched for as text.
+
+export type PartQuery = {
+  // Undefined for an empty query, which matches everything.
+  test?: PartFilter
+  // Parts that couldn't be read, to show under the search box.
+  problems: string[]
+}
+
+// Filters with quoted values ("mfr:"Samsung Electro""), quoted phrases,
+// parentheses, and any other run of non-space characters.
+const TOKEN = /-?[a-z]+(?:>=|<=|[:=<>])"[^"]*"?|-?"[^"]*"?|[()]|[^\s()]+/gi
+
+const all = (filters: PartFilter[]): PartFilter | undefined =>
+  filters.length <= 1 ? filters[0] : (row, attributes) => filters.every((filter) => filter(row, attributes))
+
+const any = (filters: PartFilter[]): PartFilter | undefined =>
+  filters.length <= 1 ? filters[0] : (row, attributes) => filters.some((filter) => filter(row, attributes))
+
+const not = (filter: PartFilter): PartFilter => (row, attributes) => !filter(row, attributes)
+
+export const parseQuery = (input: string): PartQuery => {
+  const tokens = input.match(TOKEN) || []
+  const problems: string[] = []
+  let position = 0
+
+  const term = (token: string): PartFilter | undefined => {
+    if (token.startsWith('"')) {
+      const phrase = token.replace(/"/g, "").trim()
+      return phrase ? (row) => matchesText(row, phrase) : undefined
+    }
+    const filter = parseFilter(token.replace(/"/g, ""), (message) => problems.push(message))
+    return filter || ((row) => matchesText(row, token))
+  }
+
+  // unary := NOT unary | -unary | ( or ) | term
+  const unary = (): PartFilter | undefined => {
+    const token = tokens[position++]
+    if (token === undefined) return undefined
+    if (token === "NOT" || token === "-") {
+      const operand = unary()
+      if (!operand) problems.push(`Nothing after ${token} to leave out`)
+      return operand && not(operand)
+    }
+    if (token === "(") {
+      const inner = or()
+      if (tokens[position] === ")") position++
+      else problems.push('Missing ")"')
+      return inner
+    }
+    if (token.startsWith("-") && token.length > 1) {
+      const operand = term(token.slice(1))
+      return operand && not(operand)
+    }
+    return term(token)
+  }
+
+  // and := unary ([AND] unary)*
+  const and = (): PartFilter | undefined => {
+    const operands: PartFilter[] = []
+    while (position < tokens.length && tokens[position] !== "OR" && tokens[position] !== ")") {
+      if (tokens[position] === "AND") {
+        position++
+        continue
+      }
+      const operand = unary()
+      if (operand) operands.push(operand)
+    }
+    return all(operands)
+  }
+
+  // or := and (OR and)*
+  const or = (): PartFilter | undefined => {
+    const operands: PartFilter[] = []
+    for (;;) {
+      const operand = and()
+      if (operand) operands.push(operand)
+      if (tokens[position] !== "OR") break
+      position++
+    }
+    return any(operands)
+  }
+
+  const parts: PartFilter[] = []
+  for (;;) {
+    const part = or()
+    if (part) parts.push(part)
+    if (position >= tokens.length) break
+    // Only a stray ")" stops `or` early; skip it and read on.
+    problems.push('Unmatched ")"')
+    position++
+  }
+  return { test: all(parts), problems }
+}
+
+export const matchesQuery = (row: AggregatedRow, attributes: PartAttributes, query: PartQuery): boolean =>
+  !query.test || query.test(row, attributes)
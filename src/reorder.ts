@@ -0,0 +1,49 @@
+import type { AggregatedRow, ReorderThresholds } from "./inventory"
+
+// What's left once the loaded BOM is built, which can go negative.
+export const stockAfterBom = (row: AggregatedRow, multiplier: number): number =>
+  row.quantity - (row.editedQuantity || 0) * multiplier
+
+// Low now, or low once the loaded BOM is applied.
+export const isBelowMinimum = (row: AggregatedRow, multiplier: number): boolean =>
+  !!row.minQuantity && (row.quantity < row.minQuantity || stockAfterBom(row, multiplier) < row.minQuantity)
+
+export const reorderTarget = (row: AggregatedRow): number => Math.max(row.targetQuantity || 0, row.minQuantity || 0)
+
+// LCSC sells in multiples of the part's minimum order quantity.
+export const roundToMinBuy = (quantity: number, minBuyNumber: number = 1): number => {
+  if (quantity <= 0) return 0
+  const step = Math.max(1, minBuyNumber)
+  return Math.ceil(quantity / step) * step
+}
+
+// How many to get back to the target after the BOM.
+export const reorderNeed = (row: AggregatedRow, multiplier: number): number =>
+  Math.max(0, reorderTarget(row) - stockAfterBom(row, multiplier))
+
+export const suggestedBuyQuantity = (row: AggregatedRow, multiplier: number, minBuyNumber: number = 1): number =>
+  roundToMinBuy(reorderNeed(row, multiplier), minBuyNumber)
+
+export const formatThresholds = (row: ReorderThresholds): string => {
+  if (!row.minQuantity) return ""
+  return row.targetQuantity && row.targetQuantity !== row.minQuantity
+    ? `${row.minQuantity}/${row.targetQuantity}`
+    : String(row.minQuantity)
+}
+
+// "500" or "500/1000" (minimum/target); empty clears both. Throws with a
+// message fit for the user on anything else.
+export const parseThresholds = (text: string): ReorderThresholds => {
+  const trimmed = text.trim()
+  if (trimmed === "" || trimmed === "0") return { minQuantity: undefined, targetQuantity: undefined }
+
+  const match = trimmed.match(/^(\d+)\s*(?:\/\s*(\d+))?$/)
+  if (!match) throw new Error(`"${trimmed}" isn't a quantity — use e.g. 500, or 500/1000 for minimum/target`)
+
+  const minQuantity = parseInt(match[1])
+  const targetQuantity = match[2] ? parseInt(match[2]) : undefined
+  if (targetQuantity !== undefined && targetQuantity < minQuantity) {
+    throw new Error(`The target (${targetQuantity}) can't be below the minimum (${minQuantity})`)
+  }
+  return { minQuantity, targetQuantity }
+}
@@ -0,0 +1,100 @@
+import { newId } from "./ids"
+import type { AggregatedRow, BOMData, BOMErrorInfo } from "./inventory"
+
+// Stock held for a planned build. Nothing is deducted: a reservation only
+// lowers what counts as available, so several boards can be planned at once
+// without sharing the single BOM scratch column.
+export type Reservation = {
+  id: string
+  name: string
+  multiplier: number
+  createdAt: string
+  bomFileName: string
+  // Per board, like a loaded BOM.
+  lines: BOMData[]
+}
+
+// The BOM that's loaded now — the scratch column plus the parts that aren't
+// in inventory — as a reservation.
+export const reserveBom = (
+  name: string,
+  rows: AggregatedRow[],
+  missing: BOMErrorInfo[],
+  multiplier: number,
+  bomFileName: string
+): Reservation => ({
+  id: newId(),
+  name: name.trim(),
+  multiplier,
+  createdAt: new Date().toISOString(),
+  bomFileName,
+  lines: [
+    ...rows
+      .filter((row) => (row.editedQuantity || 0) > 0)
+      .map((row) => ({ lcscId: row.lcscId, manufactureId: row.manufactureId, quantity: row.editedQuantity || 0 })),
+    ...missing.map((part) => ({ lcscId: part.lcscId, manufactureId: part.manufactureId, quantity: part.quantity || 0 })),
+  ],
+})
+
+// Pieces held per part, across every reservation.
+export const reservedQuantities = (reservations: Reservation[]): Map<string, number> => {
+  const reserved = new Map<string, number>()
+  for (const reservation of reservations) {
+    for (const line of reservation.lines) {
+      reserved.set(line.lcscId, (reserved.get(line.lcscId) || 0) + line.quantity * reservation.multiplier)
+    }
+  }
+  return reserved
+}
+
+export const availableQuantity = (row: AggregatedRow, reserved: Map<string, number>): number =>
+  row.quantity - (reserved.get(row.lcscId) || 0)
+
+const namesHolding = (reservations: Reservation[], lcscId: string): string =>
+  reservations
+    .filter((reservation) => reservation.lines.some((line) => line.lcscId === lcscId))
+    .map((reservation) => reservation.name)
+    .join(", ")
+
+// Parts the reservations together need more of than is on hand, once the
+// loaded BOM (`bomUsage`, in pieces) has had its share too. Reported in the
+// same shape as the BOM's own shortages.
+export const reservationShortages = (
+  rows: AggregatedRow[],
+  reservations: Reservation[],
+  bomUsage: (row: AggregatedRow) => number
+): BOMErrorInfo[] => {
+  const reserved = reservedQuantities(reservations)
+  const rowsById = new Map(rows.map((row) => [row.lcscId, row]))
+  const shortages: BOMErrorInfo[] = []
+
+  for (const [lcscId, quantity] of reserved) {
+    const row = rowsById.get(lcscId)
+    const holders = namesHolding(reservations, lcscId)
+    if (!row) {
+      const manufactureId =
+        reservations.flatMap((reservation) => reservation.lines).find((line) => line.lcscId === lcscId)
+          ?.manufactureId || ""
+      shortages.push({
+        lcscId,
+        manufactureId,
+        quantity,
+        reason: `${lcscId}/${manufactureId} reserved for ${holders} (${quantity} pcs) but not in inventory`,
+      })
+      continue
+    }
+
+    const usage = bomUsage(row)
+    const shortage = quantity + usage - row.quantity
+    if (shortage > 0) {
+      shortages.push({
+        lcscId,
+        manufactureId: row.manufactureId,
+        quantity: shortage,
+        reason: `${lcscId}/${row.manufactureId} lacks ${shortage} components for ${holders}${usage > 0 ? " and the loaded BOM" : ""}`,
+      })
+    }
+  }
+
+  return shortages
+}
@@ -0,0 +1,391 @@
+import type { BomRevision } from "./bomLibrary"
+import type { BuildRecord } from "./builds"
+import type { AggregatedRow } from "./inventory"
+import type { SavedImportMapping } from "./inventoryImport"
+import { openingBalances, type StockMovement } from "./ledger"
+import type { Reservation } from "./reservations"
+import type { ApprovedSubstitution } from "./substitutes"
+import type { SavedView } from "./views"
+import { emptyPending, type PendingSync } from "./sync"
+import { emptyHistory, pushStep, rowChanges, type UndoHistory, type UndoStep } from "./undo"
+
+// Browser persistence, in IndexedDB so each part is its own record: changing
+// one BOM quantity rewrites one row instead of re-serializing the inventory.
+//
+// Schema changes bump DB_VERSION and add a step to `upgrade` — IndexedDB runs
+// it once per browser, with the version the database was last opened at.
+const DB_NAME = "lcsc-inventory"
+const DB_VERSION = 3
+
+const PARTS = "parts"
+const LEDGER = "ledger"
+const UNDO = "undo"
+const META = "meta"
+const BUILDS = "builds"
+const BOMS = "boms"
+
+// Everything that isn't a row, movement, undo step, build or stored BOM.
+export type InventoryMeta = {
+  fileName: string
+  bomFileName: string
+  // Undo steps are stored one per record; this keeps their order.
+  undoStepIds: string[]
+  undoPosition: number
+  // Shared-inventory bookkeeping, see src/sync.ts.
+  serverVersion: number
+  pendingSync: PendingSync
+  // Stock held for planned builds, see src/reservations.ts.
+  reservations: Reservation[]
+  // Designators of the loaded BOM ticked off as placed.
+  placedDesignators: string[]
+  // Inventory CSV column mappings by header row, see src/inventoryImport.ts.
+  importMappings: SavedImportMapping[]
+  // Substitutes approved per project, see src/substitutes.ts.
+  substitutions: ApprovedSubstitution[]
+  // Named searches from the header menu, see src/views.ts.
+  savedViews: SavedView[]
+}
+
+export type StoredInventory = InventoryMeta & {
+  rows: AggregatedRow[]
+  ledger: StockMovement[]
+  undoHistory: UndoHistory
+}
+
+const DEFAULT_META: InventoryMeta = {
+  fileName: "inventory.csv",
+  bomFileName: "",
+  undoStepIds: [],
+  undoPosition: -1,
+  serverVersion: 0,
+  pendingSync: emptyPending,
+  reservations: [],
+  placedDesignators: [],
+  importMappings: [],
+  substitutions: [],
+  savedViews: [],
+}
+
+// The single-blob localStorage layout used before this module existed.
+const LEGACY_KEYS = {
+  data: "lcsc-inventory-data",
+  fileName: "lcsc-inventory-filename",
+  backup: "lcsc-inventory-backup",
+  ledger: "lcsc-inventory-ledger",
+  bomFileName: "lcsc-inventory-bom-filename",
+  undo: "lcsc-inventory-undo",
+}
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(PARTS, { keyPath: "lcscId" })
+    db.createObjectStore(LEDGER, { keyPath: "id" })
+    db.createObjectStore(UNDO, { keyPath: "id" })
+    db.createObjectStore(META)
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(BUILDS, { keyPath: "id" })
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(BOMS, { keyPath: "id" })
+  }
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error("IndexedDB transaction aborted"))
+  })
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error("Close other tabs of this app to finish upgrading its storage"))
+    })
+    // Let a failed open be retried rather than caching the rejection.
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+// Fills in fields added since a row was stored, so the app only ever sees the
+// current shape.
+const normalizeRow = (row: AggregatedRow): AggregatedRow => ({
+  ...row,
+  locations: row.locations || [],
+})
+
+// Undo steps stored before snapshots carried the BOM's lines have none, and
+// those stored before steps kept only the rows they changed have the whole
+// inventory as `data` instead; each becomes its difference from the step
+// before. Which movements such a step added wasn't recorded, so undoing it
+// restores the rows but leaves the stock as it is. Oldest first.
+type LegacyUndoStep = UndoStep & { snapshot: { data?: AggregatedRow[] } }
+
+const normalizeSteps = (steps: LegacyUndoStep[]): UndoStep[] =>
+  steps.map((step, i) => {
+    const { data, ...snapshot } = step.snapshot
+    const previous = steps[i - 1]?.snapshot.data
+    return {
+      ...step,
+      snapshot: {
+        ...snapshot,
+        rows: snapshot.rows || (data && previous ? rowChanges(previous, data) : []),
+        movementIds: snapshot.movementIds || [],
+        bomLines: snapshot.bomLines || [],
+      },
+    }
+  })
+
+const isLegacyStep = (step: LegacyUndoStep): boolean => step.snapshot.data !== undefined
+
+const putMeta = (store: IDBObjectStore, meta: Partial<InventoryMeta>) => {
+  for (const [key, value] of Object.entries(meta)) {
+    store.put(value, key)
+  }
+}
+
+// One-time move of the old localStorage keys into IndexedDB, done in a single
+// transaction; the keys are only removed once it has committed.
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const savedData = localStorage.getItem(LEGACY_KEYS.data)
+  if (savedData === null) return
+
+  const rows: AggregatedRow[] = JSON.parse(savedData).map(normalizeRow)
+  const savedLedger = localStorage.getItem(LEGACY_KEYS.ledger)
+  const ledger: StockMovement[] = savedLedger ? JSON.parse(savedLedger) : openingBalances(rows)
+  const bomFileName = localStorage.getItem(LEGACY_KEYS.bomFileName) || ""
+
+  let undoHistory: UndoHistory = emptyHistory
+  const savedUndo = localStorage.getItem(LEGACY_KEYS.undo)
+  const savedBackup = localStorage.getItem(LEGACY_KEYS.backup)
+  if (savedUndo) {
+    const saved: UndoHistory = JSON.parse(savedUndo)
+    undoHistory = { ...saved, steps: normalizeSteps(saved.steps) }
+  } else if (savedBackup) {
+    // The pre-undo-history "Undo Apply BOM" snapshot becomes a real step.
+    const base = { missingBomComp: [], hasUnappliedChanges: false, bomFileName, bomLines: [] }
+    const backup: AggregatedRow[] = JSON.parse(savedBackup).map(normalizeRow)
+    undoHistory = pushStep(undoHistory, "Before last Apply BOM", { ...base, rows: [], movementIds: [] })
+    undoHistory = pushStep(undoHistory, "Applied BOM", { ...base, rows: rowChanges(backup, rows), movementIds: [] })
+  }
+
+  const tx = db.transaction([PARTS, LEDGER, UNDO, META], "readwrite")
+  const parts = tx.objectStore(PARTS)
+  const ledgerStore = tx.objectStore(LEDGER)
+  const undoStore = tx.objectStore(UNDO)
+  rows.forEach((row) => parts.put(row))
+  ledger.forEach((movement) => ledgerStore.put(movement))
+  undoHistory.steps.forEach((step) => undoStore.put(step))
+  putMeta(tx.objectStore(META), {
+    fileName: localStorage.getItem(LEGACY_KEYS.fileName) || DEFAULT_META.fileName,
+    bomFileName,
+    undoStepIds: undoHistory.steps.map((step) => step.id),
+    undoPosition: undoHistory.position,
+  })
+  await transactionDone(tx)
+
+  Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key))
+  console.log(`Migrated ${rows.length} parts from localStorage to IndexedDB`)
+}
+
+export const loadInventory = async (): Promise<StoredInventory> => {
+  const db = await openDb()
+  await migrateFromLocalStorage(db)
+
+  const tx = db.transaction([PARTS, LEDGER, UNDO, META], "readonly")
+  const metaStore = tx.objectStore(META)
+  const [rows, ledger, steps, metaKeys, metaValues] = await Promise.all([
+    requestResult(tx.objectStore(PARTS).getAll() as IDBRequest<AggregatedRow[]>),
+    requestResult(tx.objectStore(LEDGER).getAll() as IDBRequest<StockMovement[]>),
+    requestResult(tx.objectStore(UNDO).getAll() as IDBRequest<UndoStep[]>),
+    requestResult(metaStore.getAllKeys()),
+    requestResult(metaStore.getAll()),
+  ])
+
+  const meta: InventoryMeta = { ...DEFAULT_META }
+  metaKeys.forEach((key, i) => Object.assign(meta, { [String(key)]: metaValues[i] }))
+
+  const stepsById = new Map(steps.map((step) => [step.id, step]))
+  const storedSteps = meta.undoStepIds
+    .map((id) => stepsById.get(id))
+    .filter((step): step is UndoStep => step !== undefined)
+  const orderedSteps = normalizeSteps(storedSteps)
+  if (storedSteps.some(isLegacyStep)) {
+    // Written back once, so the full copies stop taking up space.
+    const undoTx = db.transaction(UNDO, "readwrite")
+    orderedSteps.forEach((step) => undoTx.objectStore(UNDO).put(step))
+    await transactionDone(undoTx)
+  }
+
+  return {
+    ...meta,
+    rows: rows.map(normalizeRow),
+    ledger: ledger.sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    undoHistory: {
+      steps: orderedSteps,
+      position: Math.min(meta.undoPosition, orderedSteps.length - 1),
+    },
+  }
+}
+
+// Rows compared by identity: every mutation replaces the row objects it
+// touches, so an unchanged object is an unchanged record.
+export const diffRows = (
+  before: AggregatedRow[],
+  after: AggregatedRow[]
+): { changed: AggregatedRow[]; removedIds: string[] } => {
+  const beforeSet = new Set(before)
+  const afterIds = new Set(after.map((row) => row.lcscId))
+
+  return {
+    changed: after.filter((row) => !beforeSet.has(row)),
+    removedIds: before.map((row) => row.lcscId).filter((id) => !afterIds.has(id)),
+  }
+}
+
+export const saveRows = async (changed: AggregatedRow[], removedIds: string[] = []): Promise<void> => {
+  if (changed.length === 0 && removedIds.length === 0) return
+
+  const db = await openDb()
+  const tx = db.transaction(PARTS, "readwrite")
+  const parts = tx.objectStore(PARTS)
+  changed.forEach((row) => parts.put(row))
+  removedIds.forEach((id) => parts.delete(id))
+  await transactionDone(tx)
+}
+
+export const appendMovements = async (movements: StockMovement[]): Promise<void> => {
+  if (movements.length === 0) return
+
+  const db = await openDb()
+  const tx = db.transaction(LEDGER, "readwrite")
+  const ledger = tx.objectStore(LEDGER)
+  movements.forEach((movement) => ledger.add(movement))
+  await transactionDone(tx)
+}
+
+// Swaps the local copy for the server's wholesale — rows and ledger both —
+// after pulling the shared inventory.
+export const replaceInventory = async (rows: AggregatedRow[], ledger: StockMovement[]): Promise<void> => {
+  const db = await openDb()
+  const tx = db.transaction([PARTS, LEDGER], "readwrite")
+  const parts = tx.objectStore(PARTS)
+  const ledgerStore = tx.objectStore(LEDGER)
+  parts.clear()
+  ledgerStore.clear()
+  rows.forEach((row) => parts.put(row))
+  ledger.forEach((movement) => ledgerStore.put(movement))
+  await transactionDone(tx)
+}
+
+export const saveMeta = async (meta: Partial<InventoryMeta>): Promise<void> => {
+  const db = await openDb()
+  const tx = db.transaction(META, "readwrite")
+  putMeta(tx.objectStore(META), meta)
+  await transactionDone(tx)
+}
+
+// Steps never change once written, so only new ones are stored and dropped
+// ones deleted; the order and position live in meta.
+export const saveUndoHistory = async (history: UndoHistory): Promise<void> => {
+  const db = await openDb()
+  const tx = db.transaction([UNDO, META], "readwrite")
+  const undo = tx.objectStore(UNDO)
+
+  const storedIds = new Set((await requestResult(undo.getAllKeys())).map(String))
+  const keptIds = new Set(history.steps.map((step) => step.id))
+  storedIds.forEach((id) => !keptIds.has(id) && undo.delete(id))
+  history.steps.forEach((step) => !storedIds.has(step.id) && undo.put(step))
+  putMeta(tx.objectStore(META), {
+    undoStepIds: history.steps.map((step) => step.id),
+    undoPosition: history.position,
+  })
+  await transactionDone(tx)
+}
+
+// Build records (src/builds.ts) stay in this browser; they aren't part of
+// the shared inventory.
+export const loadBuilds = async (): Promise<BuildRecord[]> => {
+  const db = await openDb()
+  const tx = db.transaction(BUILDS, "readonly")
+  const builds = await requestResult(tx.objectStore(BUILDS).getAll() as IDBRequest<BuildRecord[]>)
+  // Newest first.
+  return builds.sort((a, b) => b.date.localeCompare(a.date))
+}
+
+export const saveBuild = async (build: BuildRecord): Promise<void> => {
+  const db = await openDb()
+  const tx = db.transaction(BUILDS, "readwrite")
+  tx.objectStore(BUILDS).put(build)
+  await transactionDone(tx)
+}
+
+export const deleteBuild = async (id: string): Promise<void> => {
+  const db = await openDb()
+  const tx = db.transaction(BUILDS, "readwrite")
+  tx.objectStore(BUILDS).delete(id)
+  await transactionDone(tx)
+}
+
+// The BOM library (src/bomLibrary.ts), one record per revision. Like builds,
+// it stays in this browser.
+export const loadBoms = async (): Promise<BomRevision[]> => {
+  const db = await openDb()
+  const tx = db.transaction(BOMS, "readonly")
+  return requestResult(tx.objectStore(BOMS).getAll() as IDBRequest<BomRevision[]>)
+}
+
+export const saveBom = async (revision: BomRevision): Promise<void> => {
+  const db = await openDb()
+  const tx = db.transaction(BOMS, "readwrite")
+  tx.objectStore(BOMS).put(revision)
+  await transactionDone(tx)
+}
+
+export const deleteBom = async (id: string): Promise<void> => {
+  const db = await openDb()
+  const tx = db.transaction(BOMS, "readwrite")
+  tx.objectStore(BOMS).delete(id)
+  await transactionDone(tx)
+}
+
+export const clearInventory = async (): Promise<void> => {
+  const db = await openDb()
+  const tx = db.transaction([PARTS, LEDGER, UNDO, META, BUILDS, BOMS], "readwrite")
+  for (const name of [PARTS, LEDGER, UNDO, META, BUILDS, BOMS]) {
+    tx.objectStore(name).clear()
+  }
+  await transactionDone(tx)
+}
+
+// IndexedDB has no change events, so tabs tell each other via a localStorage
+// key: writing it fires a `storage` event in every other tab of this origin.
+const CHANGE_PING_KEY = "lcsc-inventory-changed"
+
+export const notifyOtherTabs = () => {
+  localStorage.setItem(CHANGE_PING_KEY, String(Date.now()))
+}
+
+export const onOtherTabChange = (callback: () => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === CHANGE_PING_KEY) callback()
+  }
+  window.addEventListener("storage", onStorage)
+  return () => window.removeEventListener("storage", onStorage)
+}
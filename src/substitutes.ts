@@ -0,0 +1,203 @@
+import type { BomLine } from "./bomLibrary"
+import type { AggregatedRow, BOMErrorInfo } from "./inventory"
+import { attributesOf, formatSi, near, parseAttributes, parseSi, type PartAttributes, type PartCategory, type ValueUnit } from "./parametric"
+import { availableQuantity } from "./reservations"
+
+// In-stock stand-ins for BOM parts the inventory can't cover: another 100nF
+// 0603 capacitor, rated at least as well, from whichever manufacturer is on
+// the shelf. Only parts with a value parsed out of them (see src/parametric.ts)
+// are matched — for anything else "equivalent" is a judgement call.
+
+// A substitution the user approved, offered first the next time the same
+// project's BOM comes up short.
+export type ApprovedSubstitution = {
+  project: string
+  original: string
+  substitute: string
+  approvedAt: string
+}
+
+// One part of the loaded BOM that isn't covered by available stock.
+export type BomShortage = {
+  lcscId: string
+  manufactureId: string
+  perBoard: number
+  needed: number
+  // After reservations; 0 for parts not in inventory.
+  available: number
+  attributes: PartAttributes
+}
+
+export type Substitute = {
+  row: AggregatedRow
+  // Available stock the loaded BOM isn't already using.
+  spare: number
+  approved: boolean
+  // Where it's rated better than needed, e.g. "50V (needs 25V)".
+  notes: string[]
+}
+
+// EDA values are often bare ("100n", "4k7"); the designator says what they are.
+const DESIGNATOR_CATEGORIES: [RegExp, PartCategory, ValueUnit?][] = [
+  [/^FB\d/i, "ferrite", "Ω"],
+  [/^LED\d/i, "led"],
+  [/^C\d/i, "capacitor", "F"],
+  [/^R\d/i, "resistor", "Ω"],
+  [/^L\d/i, "inductor", "H"],
+  [/^D\d/i, "diode"],
+  [/^[XY]\d/i, "crystal", "Hz"],
+]
+
+export const bomLineAttributes = (line: BomLine): PartAttributes => {
+  const parsed = parseAttributes({ description: line.value, package: line.footprint })
+  const byDesignator = DESIGNATOR_CATEGORIES.find(([pattern]) => line.designators.some((d) => pattern.test(d)))
+  if (!byDesignator) return parsed
+
+  const [, category, unit] = byDesignator
+  let value = parsed.unit === unit ? parsed.value : undefined
+  if (value === undefined && unit) value = parseSi(line.value.trim().split(/\s+/)[0]) ?? undefined
+  return { ...parsed, category, value, unit: value !== undefined ? unit : undefined }
+}
+
+// What a BOM part is, from its inventory description when it has one,
+// otherwise from the BOM file's value and footprint.
+const wantedAttributes = (
+  lcscId: string,
+  manufactureId: string,
+  row: AggregatedRow | undefined,
+  bomLines: BomLine[]
+): PartAttributes => {
+  const fromRow = row ? attributesOf(row) : undefined
+  if (fromRow?.value !== undefined && fromRow.package) return fromRow
+  const line = bomLines.find((entry) => entry.lcscId === lcscId)
+  if (line) return bomLineAttributes(line)
+  return fromRow || parseAttributes({ description: manufactureId, package: "" })
+}
+
+// The loaded BOM's parts (per board in the scratch column, or not in
+// inventory at all) that available stock can't cover at this multiplier.
+export const bomShortages = (
+  rows: AggregatedRow[],
+  missing: BOMErrorInfo[],
+  bomLines: BomLine[],
+  multiplier: number,
+  reserved: Map<string, number>
+): BomShortage[] => {
+  const shortages: BomShortage[] = missing.map((part) => ({
+    lcscId: part.lcscId,
+    manufactureId: part.manufactureId,
+    perBoard: part.quantity || 0,
+    needed: (part.quantity || 0) * multiplier,
+    available: 0,
+    attributes: wantedAttributes(part.lcscId, part.manufactureId, undefined, bomLines),
+  }))
+
+  for (const row of rows) {
+    const perBoard = row.editedQuantity || 0
+    const available = Math.max(0, availableQuantity(row, reserved))
+    if (perBoard > 0 && perBoard * multiplier > available) {
+      shortages.push({
+        lcscId: row.lcscId,
+        manufactureId: row.manufactureId,
+        perBoard,
+        needed: perBoard * multiplier,
+        available,
+        attributes: wantedAttributes(row.lcscId, row.manufactureId, row, bomLines),
+      })
+    }
+  }
+  return shortages
+}
+
+// Best first. A dielectric may be swapped for one earlier in the list.
+const DIELECTRICS = ["C0G", "X8R", "X7R", "X7S", "X7T", "X6S", "X5R", "Y5V", "Z5U"]
+
+const rank = (dielectric: string) => {
+  const index = DIELECTRICS.indexOf(dielectric)
+  return index === -1 ? DIELECTRICS.length : index
+}
+
+// Null when `candidate` can't stand in for `wanted`; otherwise where it's
+// rated better. A rating the wanted part has must be known for the candidate.
+export const substituteNotes = (wanted: PartAttributes, candidate: PartAttributes): string[] | null => {
+  if (wanted.value === undefined || !wanted.unit || !wanted.package) return null
+  if (candidate.category !== wanted.category || candidate.unit !== wanted.unit) return null
+  if (candidate.value === undefined || !near(candidate.value, wanted.value)) return null
+  if (candidate.package !== wanted.package) return null
+
+  const notes: string[] = []
+  const atLeast = (key: "voltage" | "current" | "power", unit: string): boolean => {
+    const needs = wanted[key]
+    if (needs === undefined) return true
+    const has = candidate[key]
+    if (has === undefined || (has < needs && !near(has, needs))) return false
+    if (!near(has, needs)) notes.push(`${formatSi(has, unit)} (needs ${formatSi(needs, unit)})`)
+    return true
+  }
+  if (!atLeast("voltage", "V") || !atLeast("current", "A") || !atLeast("power", "W")) return null
+
+  if (wanted.tolerance !== undefined) {
+    if (candidate.tolerance === undefined || candidate.tolerance > wanted.tolerance) return null
+    if (candidate.tolerance < wanted.tolerance) notes.push(`±${candidate.tolerance}% (needs ±${wanted.tolerance}%)`)
+  }
+
+  if (wanted.dielectric) {
+    if (!candidate.dielectric || rank(candidate.dielectric) > rank(wanted.dielectric)) return null
+    if (candidate.dielectric !== wanted.dielectric) notes.push(`${candidate.dielectric} (needs ${wanted.dielectric})`)
+  }
+  return notes
+}
+
+// In-stock parts that match the shortage and have enough spare to take over
+// all of it: approved ones first, then exact matches, then by spare stock.
+export const suggestSubstitutes = (
+  shortage: BomShortage,
+  rows: AggregatedRow[],
+  multiplier: number,
+  reserved: Map<string, number>,
+  approved: Set<string>
+): Substitute[] => {
+  const substitutes: Substitute[] = []
+  for (const row of rows) {
+    if (row.lcscId === shortage.lcscId) continue
+    const spare = availableQuantity(row, reserved) - (row.editedQuantity || 0) * multiplier
+    if (spare < shortage.needed) continue
+
+    const isApproved = approved.has(row.lcscId)
+    const notes = substituteNotes(shortage.attributes, attributesOf(row))
+    if (notes || isApproved) substitutes.push({ row, spare, approved: isApproved, notes: notes || [] })
+  }
+  return substitutes.sort(
+    (a, b) => Number(b.approved) - Number(a.approved) || a.notes.length - b.notes.length || b.spare - a.spare
+  )
+}
+
+export const approvedFor = (saved: ApprovedSubstitution[], project: string, original: string): Set<string> =>
+  new Set(saved.filter((entry) => entry.project === project && entry.original === original).map((entry) => entry.substitute))
+
+// One approval per project and part; approving another substitute replaces it.
+export const approveSubstitution = (
+  saved: ApprovedSubstitution[],
+  project: string,
+  original: string,
+  substitute: string
+): ApprovedSubstitution[] => [
+  ...saved.filter((entry) => entry.project !== project || entry.original !== original),
+  { project, original, substitute, approvedAt: new Date().toISOString() },
+]
+
+export const forgetSubstitution = (saved: ApprovedSubstitution[], project: string, original: string) =>
+  saved.filter((entry) => entry.project !== project || entry.original !== original)
+
+// "100nF 0603 X7R 50V ±10%": what a shortage is matched on.
+export const describeAttributes = (attributes: PartAttributes): string =>
+  [
+    attributes.value !== undefined && attributes.unit ? formatSi(attributes.value, attributes.unit) : "",
+    attributes.package,
+    attributes.dielectric,
+    attributes.voltage !== undefined ? formatSi(attributes.voltage, "V") : "",
+    attributes.power !== undefined ? formatSi(attributes.power, "W") : "",
+    attributes.tolerance !== undefined ? `±${attributes.tolerance}%` : "",
+  ]
+    .filter(Boolean)
+    .join(" ")
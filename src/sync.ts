@@ -0,0 +1,104 @@
+import type { AggregatedRow } from "./inventory"
+import type { StockMovement } from "./ledger"
+
+// Client for the shared-inventory API (server/inventoryApi.ts). The browser's
+// IndexedDB copy stays the working copy; this keeps it in step with the
+// server, and queues changes made while the server can't be reached.
+
+// connecting: the first sync since the page opened hasn't finished
+// local:      this deployment has no inventory backend (e.g. Cloudflare Pages)
+// synced:     the last push/pull succeeded
+// offline:    there is a backend, but it didn't answer — changes are queued
+export type SyncStatus = "connecting" | "local" | "synced" | "offline"
+
+export type ServerInventory = {
+  version: number
+  rows: AggregatedRow[]
+}
+
+// Changes not yet on the server. Rows are the latest copy per part, so a part
+// edited five times offline is pushed once.
+export type PendingSync = {
+  rows: AggregatedRow[]
+  deleted: string[]
+  movements: StockMovement[]
+}
+
+export const emptyPending: PendingSync = { rows: [], deleted: [], movements: [] }
+
+export const isPendingEmpty = (pending: PendingSync): boolean =>
+  pending.rows.length === 0 && pending.deleted.length === 0 && pending.movements.length === 0
+
+export const queueChanges = (pending: PendingSync, changes: PendingSync): PendingSync => {
+  const removed = new Set(changes.deleted)
+  const updated = new Set(changes.rows.map((row) => row.lcscId))
+
+  return {
+    rows: [...pending.rows.filter((row) => !updated.has(row.lcscId) && !removed.has(row.lcscId)), ...changes.rows],
+    deleted: [...pending.deleted.filter((id) => !updated.has(id)), ...changes.deleted],
+    movements: [...pending.movements, ...changes.movements],
+  }
+}
+
+// BOM scratch quantities are per person and never shared.
+const sharedFields = (row: AggregatedRow): string => JSON.stringify({ ...row, editedQuantity: undefined })
+
+// Of the rows that changed locally, the ones whose shared fields did — typing
+// a BOM quantity shouldn't cost a round trip.
+export const sharedChanges = (before: AggregatedRow[], changed: AggregatedRow[]): AggregatedRow[] => {
+  const beforeById = new Map(before.map((row) => [row.lcscId, row]))
+  return changed.filter((row) => {
+    const previous = beforeById.get(row.lcscId)
+    return !previous || sharedFields(previous) !== sharedFields(row)
+  })
+}
+
+// Server rows carry no BOM scratch column, so keep each part's local one.
+export const mergeServerRows = (serverRows: AggregatedRow[], localRows: AggregatedRow[]): AggregatedRow[] => {
+  const edited = new Map(localRows.map((row) => [row.lcscId, row.editedQuantity || 0]))
+  return serverRows.map((row) => ({ ...row, locations: row.locations || [], editedQuantity: edited.get(row.lcscId) || 0 }))
+}
+
+// Same base-path rule as the LCSC proxy in src/lcsc.ts.
+const INVENTORY_ENDPOINT = `${import.meta.env.BASE_URL}api/inventory`
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${INVENTORY_ENDPOINT}${path}`, {
+    ...init,
+    headers: { "content-type": "application/json" },
+  })
+  const payload = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    throw new Error(payload?.error || `Inventory server error (HTTP ${response.status})`)
+  }
+  return payload as T
+}
+
+// Resolves to null when there is no backend at all: static hosts answer the
+// API path with the app's own index.html (SPA fallback) or a 404. Network
+// failures and server errors still reject, which callers treat as offline.
+export const fetchServerInventory = async (): Promise<ServerInventory | null> => {
+  const response = await fetch(INVENTORY_ENDPOINT)
+  const isJson = (response.headers.get("content-type") || "").includes("application/json")
+
+  if (response.status === 404 || (response.ok && !isJson)) return null
+  if (!response.ok) throw new Error(`Inventory server error (HTTP ${response.status})`)
+  return response.json()
+}
+
+export const fetchServerLedger = async (): Promise<StockMovement[]> =>
+  (await request<{ movements: StockMovement[] }>("/history")).movements
+
+export const pushChanges = (changes: PendingSync): Promise<ServerInventory> =>
+  request("/upsert", { method: "POST", body: JSON.stringify(changes) })
+
+export type BuildRequest = {
+  lines: { lcscId: string; quantity: number }[]
+  multiplier: number
+  reason: string
+  sourceFile?: string
+}
+
+export const postBuild = (build: BuildRequest): Promise<ServerInventory & { movements: StockMovement[] }> =>
+  request("/builds", { method: "POST", body: JSON.stringify(build) })
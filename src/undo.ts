@@ -0,0 +1,107 @@
+import type { BomLine } from "./bomLibrary"
+import { newId } from "./ids"
+import type { AggregatedRow, BOMErrorInfo } from "./inventory"
+
+// Everything a mutation can change, so restoring a step puts the whole app
+// back — BOM scratch columns included — not just the quantities.
+export type UndoState = {
+  data: AggregatedRow[]
+  missingBomComp: BOMErrorInfo[]
+  hasUnappliedChanges: boolean
+  bomFileName: string
+  // The loaded BOM line by line, designators included; see src/pickList.ts.
+  bomLines: BomLine[]
+}
+
+// One part as it was before a step and right after it; null where it didn't
+// exist.
+export type RowChange = {
+  lcscId: string
+  before: AggregatedRow | null
+  after: AggregatedRow | null
+}
+
+// What a step keeps of that state: the BOM side whole, but of the inventory
+// only the parts the step changed, and the ids of the ledger movements it
+// added — undoing it reverses those (see reversalsOf in src/ledger.ts).
+export type UndoSnapshot = Omit<UndoState, "data"> & { rows: RowChange[]; movementIds: string[] }
+
+export type UndoStep = {
+  id: string
+  label: string
+  timestamp: string
+  snapshot: UndoSnapshot
+}
+
+// `steps[position]` is the state on screen; anything after it can be redone.
+export type UndoHistory = {
+  steps: UndoStep[]
+  position: number
+}
+
+// Steps are small, but each one also holds the BOM's lines; keep the stack
+// bounded.
+export const MAX_UNDO_STEPS = 30
+
+export const emptyHistory: UndoHistory = { steps: [], position: -1 }
+
+// A new step discards whatever could have been redone, like any editor.
+export const pushStep = (history: UndoHistory, label: string, snapshot: UndoSnapshot): UndoHistory => {
+  const step: UndoStep = { id: newId(), label, timestamp: new Date().toISOString(), snapshot }
+  const steps = [...history.steps.slice(0, history.position + 1), step].slice(-MAX_UNDO_STEPS)
+  return { steps, position: steps.length - 1 }
+}
+
+// Server and other-tab rows arrive as new objects every time, so rows that
+// aren't the same object are compared field by field.
+const sameRow = (a: AggregatedRow, b: AggregatedRow): boolean =>
+  a === b ||
+  Array.from(new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof AggregatedRow>).every(
+    (key) => JSON.stringify(a[key]) === JSON.stringify(b[key])
+  )
+
+export const rowChanges = (before: AggregatedRow[], after: AggregatedRow[]): RowChange[] => {
+  const beforeById = new Map(before.map((row) => [row.lcscId, row]))
+  const afterIds = new Set(after.map((row) => row.lcscId))
+  const changes: RowChange[] = []
+
+  for (const row of after) {
+    const previous = beforeById.get(row.lcscId) || null
+    if (!previous || !sameRow(previous, row)) changes.push({ lcscId: row.lcscId, before: previous, after: row })
+  }
+  for (const row of before) {
+    if (!afterIds.has(row.lcscId)) changes.push({ lcscId: row.lcscId, before: row, after: null })
+  }
+  return changes
+}
+
+// The inventory as it stood right after step `index`, reached from `rows` (the
+// one on screen) by undoing or redoing each step in between. Parts that come
+// back go at the end.
+export const rowsAtStep = (history: UndoHistory, rows: AggregatedRow[], index: number): AggregatedRow[] => {
+  const byId = new Map(rows.map((row) => [row.lcscId, row]))
+  const apply = (changes: RowChange[], side: "before" | "after") =>
+    changes.forEach((change) => {
+      const row = change[side]
+      if (row) byId.set(change.lcscId, row)
+      else byId.delete(change.lcscId)
+    })
+
+  for (let step = history.position; step > index; step--) apply(history.steps[step].snapshot.rows, "before")
+  for (let step = history.position + 1; step <= index; step++) apply(history.steps[step].snapshot.rows, "after")
+  return Array.from(byId.values())
+}
+
+// The movements of every step between the one on screen and step `index`,
+// in the order they are to be reversed: newest first when undoing.
+export const movementsToStep = (history: UndoHistory, index: number): string[] =>
+  index < history.position
+    ? history.steps
+        .slice(index + 1, history.position + 1)
+        .flatMap((step) => step.snapshot.movementIds)
+        .reverse()
+    : history.steps.slice(history.position + 1, index + 1).flatMap((step) => step.snapshot.movementIds)
+
+export const canUndo = (history: UndoHistory): boolean => history.position > 0
+
+export const canRedo = (history: UndoHistory): boolean => history.position < history.steps.length - 1
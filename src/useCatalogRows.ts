@@ -0,0 +1,17 @@
+import { useLayoutEffect, useState } from "react"
+import type { AggregatedRow } from "./inventory"
+import { sameExceptBomUse } from "./views"
+
+// `rows` as of their last change other than a BOM quantity. The array stays
+// the same while only the scratch column changes, so whatever is memoized on
+// it — parsed attributes, the sorted and filtered order — survives typing.
+//
+// Taken up after commit rather than during render, so a render React throws
+// away can't move it; a layout effect, so the extra render lands before paint.
+export const useCatalogRows = (rows: AggregatedRow[]): AggregatedRow[] => {
+  const [catalog, setCatalog] = useState<AggregatedRow[]>(rows)
+  useLayoutEffect(() => {
+    setCatalog((current) => (current === rows || sameExceptBomUse(current, rows) ? current : rows))
+  }, [rows])
+  return catalog
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react"
+import { lookupLcscParts, type LcscPart } from "./lcsc"
+
+// Live LCSC details for a set of parts, looked up when the set changes. Each
+// entry is the part, or the lookup's error message; missing means pending.
+export const useLcscParts = (lcscIds: string[]): Record<string, LcscPart | string> => {
+  const [parts, setParts] = useState<Record<string, LcscPart | string>>({})
+  const key = lcscIds.join(",")
+
+  useEffect(() => {
+    let cancelled = false
+    lookupLcscParts(
+      key ? key.split(",") : [],
+      (lcscId, result) =>
+        setParts((previous) => ({ ...previous, [lcscId]: result instanceof Error ? result.message : result })),
+      () => cancelled
+    )
+
+    return () => {
+      cancelled = true
+    }
+  }, [key])
+
+  return parts
+}
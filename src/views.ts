@@ -0,0 +1,103 @@
+import { newId } from "./ids"
+import type { AggregatedRow, RowData } from "./inventory"
+import { matchesLocationFilter } from "./locations"
+import { attributesOf, matchesFacets, type PartFacets } from "./parametric"
+import { matchesQuery, type PartQuery } from "./query"
+
+// How the table is sorted and filtered, and the named combinations of the two
+// kept in the header menu ("Low value caps", "Expensive ICs").
+
+export type SortField = keyof RowData
+
+// Earlier keys win; later ones break ties.
+export type SortKey = {
+  field: SortField
+  ascending: boolean
+}
+
+// A click sorts by that column alone, or flips it if it already is the only
+// sort. Shift+click adds the column as a tie-breaker, flips it, or — on its
+// second flip back to ascending — drops it again.
+export const toggleSort = (keys: SortKey[], field: SortField, additive: boolean): SortKey[] => {
+  const existing = keys.find((key) => key.field === field)
+  if (!additive) {
+    return [{ field, ascending: keys.length === 1 && existing ? !existing.ascending : true }]
+  }
+  if (!existing) return [...keys, { field, ascending: true }]
+  if (existing.ascending) return keys.map((key) => (key.field === field ? { field, ascending: false } : key))
+  return keys.filter((key) => key.field !== field)
+}
+
+// One collator for every comparison: creating one per call (as
+// String.localeCompare with options does) dominates sorting 10k rows.
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" })
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === "number" && typeof b === "number") return a - b
+  return collator.compare(String(a), String(b))
+}
+
+export const sortRows = (rows: AggregatedRow[], keys: SortKey[]): AggregatedRow[] => {
+  if (keys.length === 0) return rows
+  return [...rows].sort((a, b) => {
+    for (const { field, ascending } of keys) {
+      const order = compareValues(a[field], b[field])
+      if (order !== 0) return ascending ? order : -order
+    }
+    return 0
+  })
+}
+
+export type TableFilters = {
+  query: PartQuery
+  locationFilter: string
+  facets: PartFacets
+}
+
+// The table's rows: filtered first, so only the matches get sorted.
+export const viewRows = (rows: AggregatedRow[], filters: TableFilters, sort: SortKey[]): AggregatedRow[] => {
+  const matching = rows.filter((row) => {
+    if (!matchesLocationFilter(row.locations, filters.locationFilter)) return false
+    const parsed = attributesOf(row)
+    return matchesFacets(parsed, filters.facets) && matchesQuery(row, parsed, filters.query)
+  })
+  return sortRows(matching, sort)
+}
+
+// Nothing filters or sorts on the BOM scratch column, so rows that differ
+// only there — the same parts, in the same order — give the same table.
+export const sameExceptBomUse = (before: AggregatedRow[], after: AggregatedRow[]): boolean =>
+  before.length === after.length &&
+  before.every((row, i) => {
+    const other = after[i]
+    if (row === other) return true
+    const keys = new Set([...Object.keys(row), ...Object.keys(other)] as (keyof AggregatedRow)[])
+    keys.delete("editedQuantity")
+    return Array.from(keys).every((key) => row[key] === other[key])
+  })
+
+// "▲", or "▼2" for the second key of a descending tie-break.
+export const sortIndicator = (keys: SortKey[], field: SortField): string => {
+  const index = keys.findIndex((key) => key.field === field)
+  if (index === -1) return ""
+  return `${keys[index].ascending ? "▲" : "▼"}${keys.length > 1 ? index + 1 : ""}`
+}
+
+export type SavedView = {
+  id: string
+  name: string
+  query: string
+  locationFilter: string
+  facets: PartFacets
+  sort: SortKey[]
+}
+
+// Saving under a name that's taken replaces that view.
+export const saveView = (views: SavedView[], view: Omit<SavedView, "id">): SavedView[] => {
+  const name = view.name.trim()
+  const existing = views.find((entry) => entry.name.toLowerCase() === name.toLowerCase())
+  const saved = { ...view, name, id: existing?.id || newId() }
+  return existing
+    ? views.map((entry) => (entry.id === existing.id ? saved : entry))
+    : [...views, saved].sort((a, b) => a.name.localeCompare(b.name))
+}
@@ -1,45 +1,73 @@
-import { defineConfig, type ProxyOptions } from 'vite'
+import { defineConfig, type Connect, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { createFileStore } from './server/fileStore'
+import { handleInventoryRequest } from './server/inventoryApi'
+import { fixtureUpstream, recordingUpstream } from './server/lcscFixtures'
+import { createLcscProxy, type LcscUpstream } from './server/lcscProxy'
+import { clientAddress, sendWebResponse, toWebRequest } from './server/nodeAdapter'
+import { nodeUpstream } from './server/nodeUpstream'
 
 // Served from the site root by default (Cloudflare Pages). The droplet serves
 // it from a subpath instead: BASE_PATH=/components-inventory/ npm run build
 const rawBase = process.env.BASE_PATH || '/'
 const base = rawBase.endsWith('/') ? rawBase : `${rawBase}/`
 
+// In production this path is served by `functions/api/lcsc-detail.ts`
+// (Cloudflare Pages) or the droplet's Node server; locally the same proxy
+// (server/lcscProxy.ts) runs in-process, cache and rate limit included.
+//
+// LCSC_FIXTURES=replay answers from recorded responses instead of LCSC, and
+// LCSC_FIXTURES=record records them (see server/lcscFixtures.ts).
 const lcscPath = `${base}api/lcsc-detail`
 
-const LCSC_USER_AGENT =
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+const lcscUpstream = (): LcscUpstream => {
+  if (process.env.LCSC_FIXTURES === 'replay') return fixtureUpstream
+  if (process.env.LCSC_FIXTURES === 'record') return recordingUpstream(nodeUpstream)
+  return nodeUpstream
+}
 
-// In production this path is served by `functions/api/lcsc-detail.ts`
-// (Cloudflare Pages) or by nginx (droplet); locally we forward it straight to
-// LCSC, which has no CORS headers.
-//
-// LCSC sits behind Akamai, which denies the browser's forwarded header set
-// (and any request with no User-Agent), so send the same minimal headers the
-// other two do rather than passing the originals through.
-const lcscProxy: Record<string, ProxyOptions> = {
-  [lcscPath]: {
-    target: 'https://wmsc.lcsc.com',
-    changeOrigin: true,
-    rewrite: (path) => path.replace(lcscPath, '/ftps/wm/product/detail'),
-    configure: (proxy) => {
-      proxy.on('proxyReq', (proxyReq) => {
-        for (const header of proxyReq.getHeaderNames()) {
-          if (header !== 'host') proxyReq.removeHeader(header)
-        }
-        proxyReq.setHeader('accept', 'application/json')
-        proxyReq.setHeader('user-agent', LCSC_USER_AGENT)
-      })
-    },
-  },
+const lcscDetail = (): Plugin => {
+  const proxy = createLcscProxy({ upstream: lcscUpstream() })
+  const middleware: Connect.NextHandleFunction = (req, res, next) => {
+    if (!req.url?.startsWith(lcscPath)) return next()
+    toWebRequest(req)
+      .then((request) => proxy.handle(request, clientAddress(req)))
+      .then((response) => sendWebResponse(res, response))
+      .catch(next)
+  }
+
+  return {
+    name: 'lcsc-detail',
+    configureServer: (server) => void server.middlewares.use(middleware),
+    configurePreviewServer: (server) => void server.middlewares.use(middleware),
+  }
+}
+
+// The shared-inventory API (server/inventoryApi.ts) served in-process, backed
+// by a file under .inventory-data/, so `npm run dev` and `npm run preview`
+// have the same backend the droplet's Node server provides.
+const inventoryPath = `${base}api/inventory`
+
+const inventoryApi = (): Plugin => {
+  const store = createFileStore(process.env.DATA_FILE || '.inventory-data/inventory.json')
+  const middleware: Connect.NextHandleFunction = (req, res, next) => {
+    if (!req.url?.startsWith(inventoryPath)) return next()
+    toWebRequest(req)
+      .then((request) => handleInventoryRequest(request, store))
+      .then((response) => sendWebResponse(res, response))
+      .catch(next)
+  }
+
+  return {
+    name: 'inventory-api',
+    configureServer: (server) => void server.middlewares.use(middleware),
+    configurePreviewServer: (server) => void server.middlewares.use(middleware),
+  }
 }
 
 // https://vite.dev/config/
 export default defineConfig({
   base,
-  plugins: [react(), tailwindcss()],
-  server: { proxy: lcscProxy },
-  preview: { proxy: lcscProxy },
+  plugins: [react(), tailwindcss(), lcscDetail(), inventoryApi()],
 })